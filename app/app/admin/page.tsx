@@ -6,14 +6,19 @@ import { useCachedMutation } from "../../hooks/useCachedMutation";
 import { useCache } from "../../contexts/CacheContext";
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { Id } from "../../convex/_generated/dataModel";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import type { RankRule } from "../../convex/ranks";
+import type { UnilevelPlan } from "../../convex/unilevel/commissionRates";
+import type { PayoutCapConfig } from "../../convex/payoutCap";
+import type { BinaryBonusConfig } from "../../convex/binary/pairingBonus";
+import type { PlacementStrategy } from "../../convex/binary/placement";
 import {
     Save, Shield, Activity, Settings, Users,
     Wallet, TrendingUp, LayoutDashboard,
     FileText, PieChart, Bell, Search, Menu, X,
     CheckCircle, XCircle, AlertCircle, Plus, Edit, Trash2,
     Download, RefreshCw, BarChart3, DollarSign, Award, LogOut,
-    Pause, Play, Coins
+    Pause, Play, Coins, Layers
 } from "lucide-react";
 import Image from "next/image";
 import {
@@ -34,13 +39,18 @@ import BlockchainAdminControls from "../../components/BlockchainAdminControls";
 
 const COLORS = ["#94a3b8", "#8b5cf6", "#6366f1", "#ec4899", "#10b981", "#f59e0b", "#ef4444", "#06b6d4", "#8b5cf6", "#ec4899"];
 
+type ConfirmModalState = { isOpen: boolean; title: string; message: string; onConfirm: () => void; type?: "danger" | "warning" | "info" };
+// Mutations and toasts handed down to the tabs
+type AdminMutation = ReturnType<typeof useCachedMutation>;
+type AdminToast = ReturnType<typeof useToast>;
+
 export default function AdminPage() {
     const [passcode, setPasscode] = useState("");
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [activeTab, setActiveTab] = useState("dashboard");
     const [sidebarOpen, setSidebarOpen] = useState(true);
     const toast = useToast();
-    const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; title: string; message: string; onConfirm: () => void; type?: "danger" | "warning" | "info" }>({ isOpen: false, title: "", message: "", onConfirm: () => { }, type: "info" });
+    const [confirmModal, setConfirmModal] = useState<ConfirmModalState>({ isOpen: false, title: "", message: "", onConfirm: () => { }, type: "info" });
 
     // Queries
     const systemOverview = useCachedQuery(api.admin.getSystemOverview);
@@ -54,6 +64,12 @@ export default function AdminPage() {
 
     const rankRules = useCachedQuery(api.config.get, { key: "rank_rules" });
     const stakingCycles = useCachedQuery(api.config.get, { key: "staking_cycles" });
+    const commissionRates = useCachedQuery(api.configs.getCommissionRates, {});
+    const unilevelPlan = useCachedQuery(api.configs.getUnilevelPlanSettings, {});
+    const payoutCap = useCachedQuery(api.payoutCap.getPayoutCapSettings, {});
+    const binaryBonus = useCachedQuery(api.binary.pairingBonus.getBinaryBonusSettings, {});
+    const rankGracePeriod = useCachedQuery(api.rankQueries.getRankGracePeriodSettings, {});
+    const placementStrategy = useCachedQuery(api.binary.placement.getGlobalPlacementStrategy, {});
     const allUsers = useCachedQuery(api.users.getAllUsers);
     const pendingWithdrawals = useCachedQuery(api.wallet.getPendingWithdrawals);
     const cronLogs = useCachedQuery(api.admin.getCronLogs, { limit: 10 });
@@ -64,6 +80,7 @@ export default function AdminPage() {
     const updateConfig = useCachedMutation(api.config.update);
     const createVRank = useCachedMutation(api.adminMutations.createVRank);
     const updateVRank = useCachedMutation(api.adminMutations.updateVRank);
+    const updateRankGracePeriod = useCachedMutation(api.adminMutations.updateRankGracePeriod);
     const deleteVRank = useCachedMutation(api.adminMutations.deleteVRank);
     const createStakingCycle = useCachedMutation(api.adminMutations.createStakingCycle);
     const updateStakingCycle = useCachedMutation(api.adminMutations.updateStakingCycle);
@@ -74,6 +91,11 @@ export default function AdminPage() {
     const toggleStakingPause = useCachedMutation(api.configs.toggleStakingPause);
     const toggleWithdrawalsPause = useCachedMutation(api.configs.toggleWithdrawalsPause);
     const toggleReferralBonuses = useCachedMutation(api.configs.toggleReferralBonuses);
+    const updateCommissionRates = useCachedMutation(api.adminMutations.updateCommissionRates);
+    const updateUnilevelPlan = useCachedMutation(api.adminMutations.updateUnilevelPlan);
+    const updatePayoutCap = useCachedMutation(api.adminMutations.updatePayoutCap);
+    const updateBinaryBonusConfig = useCachedMutation(api.adminMutations.updateBinaryBonusConfig);
+    const updatePlacementStrategy = useCachedMutation(api.adminMutations.updatePlacementStrategy);
     const toggleBLSSystem = useCachedMutation(api.bls.toggleBLSSystem);
     const updateBLSConfig = useCachedMutation(api.bls.updateBLSConfig);
 
@@ -213,6 +235,12 @@ export default function AdminPage() {
                         active={activeTab === "vranks"}
                         onClick={() => setActiveTab("vranks")}
                     />
+                    <SidebarItem
+                        icon={<Layers />}
+                        label="Unilevel"
+                        active={activeTab === "unilevel"}
+                        onClick={() => setActiveTab("unilevel")}
+                    />
                     <SidebarItem
                         icon={<Activity />}
                         label="Staking Cycles"
@@ -317,6 +345,18 @@ export default function AdminPage() {
                             deleteVRank={deleteVRank}
                             toast={toast}
                             setConfirmModal={setConfirmModal}
+                            rankGracePeriod={rankGracePeriod}
+                            updateRankGracePeriod={updateRankGracePeriod}
+                        />
+                    )}
+
+                    {/* UNILEVEL PLAN TAB */}
+                    {activeTab === "unilevel" && (
+                        <UnilevelPlanTab
+                            unilevelPlan={unilevelPlan}
+                            updateUnilevelPlan={updateUnilevelPlan}
+                            toast={toast}
+                            setConfirmModal={setConfirmModal}
                         />
                     )}
 
@@ -333,6 +373,14 @@ export default function AdminPage() {
                             toggleStakingPause={toggleStakingPause}
                             toggleWithdrawalsPause={toggleWithdrawalsPause}
                             toggleReferralBonuses={toggleReferralBonuses}
+                            commissionRates={commissionRates}
+                            updateCommissionRates={updateCommissionRates}
+                            payoutCap={payoutCap}
+                            updatePayoutCap={updatePayoutCap}
+                            binaryBonus={binaryBonus}
+                            updateBinaryBonusConfig={updateBinaryBonusConfig}
+                            placementStrategy={placementStrategy}
+                            updatePlacementStrategy={updatePlacementStrategy}
                         />
                     )}
 
@@ -519,8 +567,20 @@ function DashboardTab({ systemOverview, rankDistribution, stakingAnalytics, comm
     );
 }
 
-function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, setConfirmModal }: any) {
+interface BRanksTabProps {
+    rankRules: (RankRule & { commissionRate: number; cappingMultiplier?: number })[] | undefined;
+    createVRank: AdminMutation;
+    updateVRank: AdminMutation;
+    deleteVRank: AdminMutation;
+    toast: AdminToast;
+    setConfirmModal: (modal: ConfirmModalState) => void;
+    rankGracePeriod: { enabled: boolean; days: number } | undefined;
+    updateRankGracePeriod: AdminMutation;
+}
+
+function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, setConfirmModal, rankGracePeriod, updateRankGracePeriod }: BRanksTabProps) {
     const [showForm, setShowForm] = useState(false);
+    const [graceDays, setGraceDays] = useState<number | null>(null);
     const [editing, setEditing] = useState<any>(null);
     const [formData, setFormData] = useState({
         rank: "",
@@ -529,6 +589,9 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
         requiredRankDirects: { count: 0, rank: "" },
         commissionRate: 0,
         cappingMultiplier: 2, // Default 2x multiplier
+        activeDirectsOnly: false,
+        maxLegContributionPercent: undefined as number | undefined,
+        achievementReward: undefined as number | undefined,
     });
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -550,6 +613,9 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
                 requiredRankDirects: { count: 0, rank: "" },
                 commissionRate: 0,
                 cappingMultiplier: 2,
+                activeDirectsOnly: false,
+                maxLegContributionPercent: undefined,
+                achievementReward: undefined,
             });
         } catch (error: any) {
             toast.error(error.message);
@@ -562,6 +628,27 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
         setShowForm(true);
     };
 
+    const handleUpdateGracePeriod = async (enabled: boolean) => {
+        const days = graceDays ?? rankGracePeriod?.days ?? 7;
+        setConfirmModal({
+            isOpen: true,
+            title: `${enabled ? (rankGracePeriod?.enabled ? 'Update' : 'Enable') : 'Disable'} Rank Grace Period`,
+            message: enabled
+                ? `Members who stop meeting their rank's requirements keep the rank for ${days} days and are warned that it is at risk.`
+                : 'Downgrades will apply as soon as members stop meeting the requirements, including ranks currently at risk.',
+            type: 'warning',
+            onConfirm: async () => {
+                try {
+                    await updateRankGracePeriod({ enabled, days });
+                    toast.success(`Rank grace period ${enabled ? 'saved' : 'disabled'} successfully!`);
+                    setGraceDays(null);
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to update rank grace period');
+                }
+            }
+        });
+    };
+
     const handleDelete = async (rank: string) => {
         setConfirmModal({
             isOpen: true,
@@ -594,6 +681,9 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
                             requiredRankDirects: { count: 0, rank: "" },
                             commissionRate: 0,
                             cappingMultiplier: 2,
+                            activeDirectsOnly: false,
+                            maxLegContributionPercent: undefined,
+                            achievementReward: undefined,
                         });
                     }}
                     className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg flex items-center gap-2"
@@ -603,6 +693,49 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
                 </button>
             </div>
 
+            {/* Rank Grace Period */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-bold">Rank Grace Period</h3>
+                        <p className="text-sm text-slate-400 mt-1">
+                            Status: <span className={`font-bold ${rankGracePeriod?.enabled ? 'text-emerald-400' : 'text-slate-400'}`}>
+                                {rankGracePeriod?.enabled ? `ENABLED (${rankGracePeriod.days} days)` : 'DISABLED'}
+                            </span>
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">Days a member keeps their rank after falling below its requirements</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            step="1"
+                            min="1"
+                            max="90"
+                            value={graceDays ?? rankGracePeriod?.days ?? 7}
+                            onChange={(e) => setGraceDays(parseInt(e.target.value) || 0)}
+                            className="w-24 p-2 bg-slate-800 rounded-lg border border-slate-700"
+                        />
+                        <span className="text-slate-400">days</span>
+                        <button
+                            onClick={() => handleUpdateGracePeriod(true)}
+                            className="px-4 py-2 bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 rounded-lg font-bold flex items-center gap-2"
+                        >
+                            <Save className="w-4 h-4" />
+                            {rankGracePeriod?.enabled ? 'Save' : 'Enable'}
+                        </button>
+                        {rankGracePeriod?.enabled && (
+                            <button
+                                onClick={() => handleUpdateGracePeriod(false)}
+                                className="px-4 py-2 bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg font-bold flex items-center gap-2"
+                            >
+                                <Pause className="w-4 h-4" />
+                                Disable
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
             {showForm && (
                 <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
                     <h3 className="text-lg font-bold mb-4">{editing ? "Edit" : "Create"} B-Rank</h3>
@@ -689,6 +822,42 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
                                 />
                                 <p className="text-xs text-slate-400 mt-1">Max bonus = Active Stake × Multiplier</p>
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Max Leg Contribution (%)</label>
+                                <input
+                                    type="number"
+                                    step="1"
+                                    value={formData.maxLegContributionPercent ?? ""}
+                                    onChange={(e) => setFormData({ ...formData, maxLegContributionPercent: parseFloat(e.target.value) || undefined })}
+                                    className="w-full p-3 bg-slate-800 rounded-lg border border-slate-700"
+                                    placeholder="Uncapped (e.g. 50)"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Max share of the volume requirement one direct&apos;s leg can count for</p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Achievement Reward ($)</label>
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    value={formData.achievementReward ?? ""}
+                                    onChange={(e) => setFormData({ ...formData, achievementReward: parseFloat(e.target.value) || undefined })}
+                                    className="w-full p-3 bg-slate-800 rounded-lg border border-slate-700"
+                                    placeholder="None"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Paid once, the first time a member reaches this rank</p>
+                            </div>
+                            <div className="flex items-center gap-3 md:col-span-2">
+                                <input
+                                    id="activeDirectsOnly"
+                                    type="checkbox"
+                                    checked={!!formData.activeDirectsOnly}
+                                    onChange={(e) => setFormData({ ...formData, activeDirectsOnly: e.target.checked })}
+                                    className="w-4 h-4"
+                                />
+                                <label htmlFor="activeDirectsOnly" className="text-sm font-medium">
+                                    Count only directs with an active stake (min directs and structure)
+                                </label>
+                            </div>
                         </div>
                         <div className="flex gap-3">
                             <button
@@ -725,9 +894,22 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
                     <tbody>
                         {(rankRules || []).map((rank: any) => (
                             <tr key={rank.rank} className="border-b border-slate-800 hover:bg-slate-800/50">
-                                <td className="p-4 font-bold text-purple-400">{rank.rank}</td>
-                                <td className="p-4">${rank.minTeamVolume.toLocaleString()}</td>
-                                <td className="p-4">{rank.minDirectReferrals}</td>
+                                <td className="p-4 font-bold text-purple-400">
+                                    {rank.rank}
+                                    {rank.achievementReward > 0 && (
+                                        <span className="block text-xs font-normal text-emerald-400">${rank.achievementReward.toLocaleString()} reward</span>
+                                    )}
+                                </td>
+                                <td className="p-4">
+                                    ${rank.minTeamVolume.toLocaleString()}
+                                    {rank.maxLegContributionPercent && (
+                                        <span className="block text-xs text-slate-400">max {rank.maxLegContributionPercent}% per leg</span>
+                                    )}
+                                </td>
+                                <td className="p-4">
+                                    {rank.minDirectReferrals}
+                                    {rank.activeDirectsOnly && <span className="block text-xs text-slate-400">active only</span>}
+                                </td>
                                 <td className="p-4">
                                     {rank.requiredRankDirects.count > 0
                                         ? `${rank.requiredRankDirects.count} × ${rank.requiredRankDirects.rank}`
@@ -762,16 +944,374 @@ function BRanksTab({ rankRules, createVRank, updateVRank, deleteVRank, toast, se
     );
 }
 
-function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycle, deleteStakingCycle, toast, setConfirmModal, pauseStates, toggleStakingPause, toggleWithdrawalsPause, toggleReferralBonuses }: any) {
+const PLACEMENT_STRATEGY_LABELS: Record<string, string> = {
+    balanced: 'Balanced (fill level by level)',
+    weak_leg: 'Weak leg (less volume)',
+    extreme_left: 'Extreme left',
+    extreme_right: 'Extreme right',
+};
+
+interface UnilevelPlanTabProps {
+    unilevelPlan: { plan: UnilevelPlan; history: Doc<"unilevel_plan_history">[] } | undefined;
+    updateUnilevelPlan: AdminMutation;
+    toast: AdminToast;
+    setConfirmModal: (modal: ConfirmModalState) => void;
+}
+
+function UnilevelPlanTab({ unilevelPlan, updateUnilevelPlan, toast, setConfirmModal }: UnilevelPlanTabProps) {
+    const [editing, setEditing] = useState<{ rates: number[]; directsPerLevel: number; minPersonalStake: number; compression: boolean } | null>(null);
+    const plan = unilevelPlan?.plan;
+    const history = unilevelPlan?.history || [];
+    const totalRate = (rates: number[]) => rates.reduce((sum, r) => sum + r, 0);
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setConfirmModal({
+            isOpen: true,
+            title: "Save Unilevel Plan",
+            message: `Unilevel commissions will be paid on ${editing.rates.length} level(s) (${totalRate(editing.rates).toFixed(2)}% of yield in total), with one level unlocked per ${editing.directsPerLevel} active direct(s)${editing.minPersonalStake > 0 ? ` and a $${editing.minPersonalStake} minimum personal stake` : ""}${editing.compression ? ", compressed past unqualified uplines" : ""}. This is saved as v${(plan?.version ?? 0) + 1} and applies from the next reward run.`,
+            type: "warning",
+            onConfirm: async () => {
+                try {
+                    await updateUnilevelPlan(editing);
+                    toast.success("Unilevel plan saved successfully!");
+                    setEditing(null);
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : "Failed to save unilevel plan");
+                }
+            }
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h2 className="text-2xl font-bold">Unilevel Plan</h2>
+                    <p className="text-sm text-slate-400 mt-1">
+                        Current version: <span className="font-bold text-purple-400">{plan ? (plan.version > 0 ? `v${plan.version}` : "Default") : "-"}</span>
+                    </p>
+                </div>
+                {editing ? (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg font-bold flex items-center gap-2"
+                        >
+                            <Save className="w-4 h-4" />
+                            Save as New Version
+                        </button>
+                        <button
+                            onClick={() => setEditing(null)}
+                            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => plan && setEditing({ rates: [...plan.rates], directsPerLevel: plan.directsPerLevel, minPersonalStake: plan.minPersonalStake, compression: plan.compression })}
+                        className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 flex items-center gap-2"
+                    >
+                        <Edit className="w-4 h-4" />
+                        Edit Plan
+                    </button>
+                )}
+            </div>
+
+            {/* Levels */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <h3 className="text-lg font-bold">Levels</h3>
+                <p className="text-sm text-slate-400 mt-1 mb-4">% of the downline member&apos;s daily yield paid to each upline level</p>
+
+                {editing ? (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {editing.rates.map((rate, index) => (
+                                <div key={index}>
+                                    <label className="block text-sm font-medium mb-1">L{index + 1} (%)</label>
+                                    <div className="flex gap-1">
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            max="100"
+                                            value={rate}
+                                            onChange={(e) => {
+                                                const rates = [...editing.rates];
+                                                rates[index] = parseFloat(e.target.value) || 0;
+                                                setEditing({ ...editing, rates });
+                                            }}
+                                            className="w-full p-2 bg-slate-800 rounded-lg border border-slate-700"
+                                        />
+                                        {index === editing.rates.length - 1 && editing.rates.length > 1 && (
+                                            <button
+                                                onClick={() => setEditing({ ...editing, rates: editing.rates.slice(0, -1) })}
+                                                className="p-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-between items-center text-sm">
+                            <button
+                                onClick={() => setEditing({ ...editing, rates: [...editing.rates, 0] })}
+                                disabled={editing.rates.length >= 20}
+                                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Level
+                            </button>
+                            <span className={totalRate(editing.rates) > 100 ? "text-red-400" : "text-slate-400"}>
+                                Total: {totalRate(editing.rates).toFixed(2)}% of daily yield (max 100%)
+                            </span>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap gap-3">
+                        {(plan?.rates || []).map((rate: number, index: number) => (
+                            <div key={index} className="px-4 py-2 bg-slate-800 rounded-lg">
+                                <span className="text-slate-400 text-sm">L{index + 1}</span>
+                                <span className="ml-2 font-bold text-purple-400">{rate}%</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Unlock Rule */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <h3 className="text-lg font-bold mb-4">Unlock Rule</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Active Directs per Level</label>
+                        {editing ? (
+                            <input
+                                type="number"
+                                step="0.1"
+                                min="0.1"
+                                value={editing.directsPerLevel}
+                                onChange={(e) => setEditing({ ...editing, directsPerLevel: parseFloat(e.target.value) || 0 })}
+                                className="w-full p-3 bg-slate-800 rounded-lg border border-slate-700"
+                            />
+                        ) : (
+                            <div className="text-xl font-bold text-white">{plan?.directsPerLevel ?? "-"}</div>
+                        )}
+                        <p className="text-xs text-slate-400 mt-1">0.5 = each active direct unlocks 2 levels</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Minimum Personal Stake ($)</label>
+                        {editing ? (
+                            <input
+                                type="number"
+                                step="1"
+                                min="0"
+                                value={editing.minPersonalStake}
+                                onChange={(e) => setEditing({ ...editing, minPersonalStake: parseFloat(e.target.value) || 0 })}
+                                className="w-full p-3 bg-slate-800 rounded-lg border border-slate-700"
+                            />
+                        ) : (
+                            <div className="text-xl font-bold text-white">{plan ? (plan.minPersonalStake > 0 ? `$${plan.minPersonalStake.toLocaleString()}` : "None") : "-"}</div>
+                        )}
+                        <p className="text-xs text-slate-400 mt-1">Active principal a member needs to earn unilevel commissions</p>
+                    </div>
+                    <div className="md:col-span-2">
+                        <div className="flex items-center gap-3">
+                            <input
+                                id="unilevelCompression"
+                                type="checkbox"
+                                checked={editing ? editing.compression : !!plan?.compression}
+                                onChange={(e) => editing && setEditing({ ...editing, compression: e.target.checked })}
+                                disabled={!editing}
+                                className="w-4 h-4"
+                            />
+                            <label htmlFor="unilevelCompression" className="text-sm font-medium">
+                                Compression {!editing && <span className={plan?.compression ? "text-emerald-400" : "text-slate-400"}>({plan?.compression ? "ON" : "OFF"})</span>}
+                            </label>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">
+                            Uplines without the level unlocked, below the minimum stake or without an active stake are skipped and the level passes to the next qualified upline
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Version History */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 overflow-hidden">
+                <div className="p-4 border-b border-slate-800">
+                    <h3 className="text-lg font-bold">Version History</h3>
+                </div>
+                <table className="w-full">
+                    <thead className="bg-slate-900 border-b border-slate-800">
+                        <tr>
+                            <th className="p-4 text-left font-medium text-slate-400">Version</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Saved</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Levels</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Total Rate</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Directs / Level</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Min Stake</th>
+                            <th className="p-4 text-left font-medium text-slate-400">Compression</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {history.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="p-8 text-center text-slate-500">
+                                    Using the default plan - no versions saved yet
+                                </td>
+                            </tr>
+                        ) : (
+                            history.map((version) => (
+                                <tr key={version._id} className="border-b border-slate-800 hover:bg-slate-800/50">
+                                    <td className="p-4 font-bold text-purple-400">
+                                        v{version.version}
+                                        {version.version === plan?.version && (
+                                            <span className="ml-2 px-2 py-0.5 bg-emerald-500/20 text-emerald-400 rounded text-xs">current</span>
+                                        )}
+                                    </td>
+                                    <td className="p-4 text-sm text-slate-400">{new Date(version.createdAt).toLocaleString()}</td>
+                                    <td className="p-4">{version.rates.length}</td>
+                                    <td className="p-4">{totalRate(version.rates).toFixed(2)}%</td>
+                                    <td className="p-4">{version.directsPerLevel}</td>
+                                    <td className="p-4">{version.minPersonalStake > 0 ? `$${version.minPersonalStake.toLocaleString()}` : "-"}</td>
+                                    <td className="p-4">{version.compression ? "On" : "Off"}</td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+type EarlyUnstakePenaltyTier = { minDaysServed: number; penaltyPercent: number };
+
+interface StakingCyclesTabProps {
+    stakingCycles: { days: number; dailyRate: number; earlyUnstakePenalties?: EarlyUnstakePenaltyTier[] }[] | undefined;
+    createStakingCycle: AdminMutation;
+    updateStakingCycle: AdminMutation;
+    deleteStakingCycle: AdminMutation;
+    toast: AdminToast;
+    setConfirmModal: (modal: ConfirmModalState) => void;
+    pauseStates: { stakingPaused: boolean; withdrawalsPaused: boolean; referralBonusesEnabled: boolean } | undefined;
+    toggleStakingPause: AdminMutation;
+    toggleWithdrawalsPause: AdminMutation;
+    toggleReferralBonuses: AdminMutation;
+    commissionRates: { level: number; rate: number }[] | undefined;
+    updateCommissionRates: AdminMutation;
+    payoutCap: PayoutCapConfig | undefined;
+    updatePayoutCap: AdminMutation;
+    binaryBonus: BinaryBonusConfig | undefined;
+    updateBinaryBonusConfig: AdminMutation;
+    placementStrategy: PlacementStrategy | undefined;
+    updatePlacementStrategy: AdminMutation;
+}
+
+function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycle, deleteStakingCycle, toast, setConfirmModal, pauseStates, toggleStakingPause, toggleWithdrawalsPause, toggleReferralBonuses, commissionRates, updateCommissionRates, payoutCap, updatePayoutCap, binaryBonus, updateBinaryBonusConfig, placementStrategy, updatePlacementStrategy }: StakingCyclesTabProps) {
     const [showForm, setShowForm] = useState(false);
     const [editing, setEditing] = useState<any>(null);
-    const [formData, setFormData] = useState({
+    const [formData, setFormData] = useState<{
+        days: number;
+        dailyRate: number;
+        earlyUnstakePenalties: Array<{ minDaysServed: number; penaltyPercent: number }>;
+    }>({
         days: 0,
         dailyRate: 0,
+        earlyUnstakePenalties: [],
     });
     const [isTogglingStaking, setIsTogglingStaking] = useState(false);
     const [isTogglingWithdrawals, setIsTogglingWithdrawals] = useState(false);
     const [isTogglingReferralBonuses, setIsTogglingReferralBonuses] = useState(false);
+    const [editingRates, setEditingRates] = useState<number[] | null>(null);
+    const [payoutCapMultiplier, setPayoutCapMultiplier] = useState<number | null>(null);
+    const [binaryRate, setBinaryRate] = useState<number | null>(null);
+    const [binaryCaps, setBinaryCaps] = useState<Record<string, number> | null>(null);
+
+    const handleUpdatePayoutCap = async (enabled: boolean) => {
+        const multiplier = payoutCapMultiplier ?? payoutCap?.multiplier ?? 3;
+        setConfirmModal({
+            isOpen: true,
+            title: `${enabled ? (payoutCap?.enabled ? 'Update' : 'Enable') : 'Disable'} Payout Cap`,
+            message: enabled
+                ? `Total earnings (yield, referral, B-Rank and unilevel) will be capped at ${multiplier}x each account's active principal, starting with the next payout.`
+                : 'Earnings will no longer be capped. B-Rank bonus caps still apply.',
+            type: 'warning',
+            onConfirm: async () => {
+                try {
+                    await updatePayoutCap({ enabled, multiplier });
+                    toast.success(`Payout cap ${enabled ? 'saved' : 'disabled'} successfully!`);
+                    setPayoutCapMultiplier(null);
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to update payout cap');
+                }
+            }
+        });
+    };
+
+    const handleUpdateBinaryBonus = async (enabled: boolean) => {
+        const pairingRate = binaryRate ?? binaryBonus?.pairingRate ?? 10;
+        const dailyCaps = binaryCaps ?? binaryBonus?.dailyCaps ?? {};
+        setConfirmModal({
+            isOpen: true,
+            title: `${enabled ? (binaryBonus?.enabled ? 'Update' : 'Enable') : 'Disable'} Binary Bonus`,
+            message: enabled
+                ? `Accounts will be paid ${pairingRate}% of their paired (weak leg) volume daily, up to their rank's daily cap.`
+                : 'Binary pairing bonuses will no longer be paid. Unpaired leg volume keeps accumulating.',
+            type: 'warning',
+            onConfirm: async () => {
+                try {
+                    await updateBinaryBonusConfig({ enabled, pairingRate, dailyCaps });
+                    toast.success(`Binary bonus ${enabled ? 'saved' : 'disabled'} successfully!`);
+                    setBinaryRate(null);
+                    setBinaryCaps(null);
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to update binary bonus');
+                }
+            }
+        });
+    };
+
+    const handleUpdatePlacementStrategy = (strategy: string) => {
+        setConfirmModal({
+            isOpen: true,
+            title: 'Change Placement Strategy',
+            message: `New members will be placed using "${PLACEMENT_STRATEGY_LABELS[strategy] || strategy}" unless their referral link sets its own placement. Existing members are not moved.`,
+            type: 'warning',
+            onConfirm: async () => {
+                try {
+                    await updatePlacementStrategy({ strategy });
+                    toast.success('Placement strategy saved successfully!');
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to update placement strategy');
+                }
+            }
+        });
+    };
+
+    const referralLevelsLabel = (commissionRates || []).map((l) => `L${l.level} (${l.rate}%)`).join(", ");
+
+    const handleSaveCommissionRates = async () => {
+        if (!editingRates) return;
+        setConfirmModal({
+            isOpen: true,
+            title: "Update Referral Bonus Levels",
+            message: `Referral bonuses will be paid on ${editingRates.length} level(s): ${editingRates.map((rate, i) => `L${i + 1} ${rate}%`).join(", ")}. This applies from the next reward run.`,
+            type: "warning",
+            onConfirm: async () => {
+                try {
+                    await updateCommissionRates({ rates: editingRates });
+                    toast.success("Referral bonus levels updated successfully!");
+                    setEditingRates(null);
+                } catch (error) {
+                    toast.error(error instanceof Error ? error.message : "Failed to update referral bonus levels");
+                }
+            }
+        });
+    };
 
     const handleToggleStaking = async () => {
         setConfirmModal({
@@ -817,7 +1357,7 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
         setConfirmModal({
             isOpen: true,
             title: `${pauseStates?.referralBonusesEnabled ? 'Disable' : 'Enable'} Referral Bonuses`,
-            message: `Are you sure you want to ${pauseStates?.referralBonusesEnabled ? 'disable' : 'enable'} L1 and L2 referral bonuses? All users will be notified.`,
+            message: `Are you sure you want to ${pauseStates?.referralBonusesEnabled ? 'disable' : 'enable'} referral bonuses? All users will be notified.`,
             type: pauseStates?.referralBonusesEnabled ? 'warning' : 'info',
             onConfirm: async () => {
                 setIsTogglingReferralBonuses(true);
@@ -845,7 +1385,7 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
             }
             setShowForm(false);
             setEditing(null);
-            setFormData({ days: 0, dailyRate: 0 });
+            setFormData({ days: 0, dailyRate: 0, earlyUnstakePenalties: [] });
         } catch (error: any) {
             toast.error(error.message);
         }
@@ -853,7 +1393,11 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
 
     const handleEdit = (cycle: any) => {
         setEditing(cycle);
-        setFormData(cycle);
+        setFormData({
+            days: cycle.days,
+            dailyRate: cycle.dailyRate,
+            earlyUnstakePenalties: cycle.earlyUnstakePenalties || [],
+        });
         setShowForm(true);
     };
 
@@ -963,19 +1507,234 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
                     </div>
                     <p className="text-xs text-slate-500">
                         {pauseStates?.referralBonusesEnabled
-                            ? 'L1 (15%) and L2 (10%) referral bonuses are active. Unilevel commissions also available.'
-                            : 'L1 and L2 referral bonuses are disabled. Only Unilevel commissions are active.'}
+                            ? `${referralLevelsLabel} referral bonuses are active. Unilevel commissions also available.`
+                            : 'Referral bonuses are disabled. Only Unilevel commissions are active.'}
                     </p>
                 </div>
             </div>
 
+            {/* Global Payout Cap */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-bold">Global Payout Cap</h3>
+                        <p className="text-sm text-slate-400 mt-1">
+                            Status: <span className={`font-bold ${payoutCap?.enabled ? 'text-emerald-400' : 'text-slate-400'}`}>
+                                {payoutCap?.enabled ? `ENABLED (${payoutCap.multiplier}x)` : 'DISABLED'}
+                            </span>
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">Max total earnings per account = multiplier × active principal</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            step="0.1"
+                            min="0.1"
+                            value={payoutCapMultiplier ?? payoutCap?.multiplier ?? 3}
+                            onChange={(e) => setPayoutCapMultiplier(parseFloat(e.target.value) || 0)}
+                            className="w-24 p-2 bg-slate-800 rounded-lg border border-slate-700"
+                        />
+                        <span className="text-slate-400">x</span>
+                        <button
+                            onClick={() => handleUpdatePayoutCap(true)}
+                            className="px-4 py-2 bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 rounded-lg font-bold flex items-center gap-2"
+                        >
+                            <Save className="w-4 h-4" />
+                            {payoutCap?.enabled ? 'Save' : 'Enable'}
+                        </button>
+                        {payoutCap?.enabled && (
+                            <button
+                                onClick={() => handleUpdatePayoutCap(false)}
+                                className="px-4 py-2 bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg font-bold flex items-center gap-2"
+                            >
+                                <Pause className="w-4 h-4" />
+                                Disable
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Binary Pairing Bonus */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold">Binary Pairing Bonus</h3>
+                        <p className="text-sm text-slate-400 mt-1">
+                            Status: <span className={`font-bold ${binaryBonus?.enabled ? 'text-emerald-400' : 'text-slate-400'}`}>
+                                {binaryBonus?.enabled ? `ENABLED (${binaryBonus.pairingRate}%)` : 'DISABLED'}
+                            </span>
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">Daily % of the weak leg&apos;s new volume; the strong leg carries forward</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            step="0.5"
+                            min="0.5"
+                            max="100"
+                            value={binaryRate ?? binaryBonus?.pairingRate ?? 10}
+                            onChange={(e) => setBinaryRate(parseFloat(e.target.value) || 0)}
+                            className="w-24 p-2 bg-slate-800 rounded-lg border border-slate-700"
+                        />
+                        <span className="text-slate-400">%</span>
+                        <button
+                            onClick={() => handleUpdateBinaryBonus(true)}
+                            className="px-4 py-2 bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 rounded-lg font-bold flex items-center gap-2"
+                        >
+                            <Save className="w-4 h-4" />
+                            {binaryBonus?.enabled ? 'Save' : 'Enable'}
+                        </button>
+                        {binaryBonus?.enabled && (
+                            <button
+                                onClick={() => handleUpdateBinaryBonus(false)}
+                                className="px-4 py-2 bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg font-bold flex items-center gap-2"
+                            >
+                                <Pause className="w-4 h-4" />
+                                Disable
+                            </button>
+                        )}
+                    </div>
+                </div>
+                <div className="text-xs text-slate-400 mb-2">Daily cap by rank (USDT) - bonus above the cap is flushed</div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                    {Object.entries(binaryCaps ?? binaryBonus?.dailyCaps ?? {}).map(([rank, cap]) => (
+                        <div key={rank} className="flex items-center gap-2 p-2 bg-slate-800/50 rounded-lg">
+                            <span className="text-sm font-bold text-slate-300 w-8">{rank}</span>
+                            <input
+                                type="number"
+                                min="0"
+                                value={cap}
+                                onChange={(e) => setBinaryCaps({
+                                    ...(binaryCaps ?? binaryBonus?.dailyCaps ?? {}),
+                                    [rank]: parseFloat(e.target.value) || 0,
+                                })}
+                                className="w-full p-1 bg-slate-800 rounded border border-slate-700 text-sm"
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Binary Placement */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-bold">Binary Placement</h3>
+                        <p className="text-sm text-slate-400 mt-1">Where new members are placed in their sponsor&apos;s binary tree</p>
+                        <p className="text-xs text-slate-500 mt-1">Referral links with their own placement (e.g. a sponsor-chosen leg) override this</p>
+                    </div>
+                    <select
+                        value={placementStrategy ?? 'balanced'}
+                        onChange={(e) => handleUpdatePlacementStrategy(e.target.value)}
+                        className="p-2 bg-slate-800 rounded-lg border border-slate-700"
+                    >
+                        {Object.entries(PLACEMENT_STRATEGY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* Referral Bonus Levels */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold">Referral Bonus Levels</h3>
+                        <p className="text-sm text-slate-400 mt-1">% of the referral&apos;s daily yield paid to each upline level</p>
+                    </div>
+                    {editingRates ? (
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleSaveCommissionRates}
+                                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg font-bold flex items-center gap-2"
+                            >
+                                <Save className="w-4 h-4" />
+                                Save
+                            </button>
+                            <button
+                                onClick={() => setEditingRates(null)}
+                                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={() => setEditingRates((commissionRates || []).map((l) => l.rate))}
+                            className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 flex items-center gap-2"
+                        >
+                            <Edit className="w-4 h-4" />
+                            Edit Levels
+                        </button>
+                    )}
+                </div>
+
+                {editingRates ? (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {editingRates.map((rate, index) => (
+                                <div key={index}>
+                                    <label className="block text-sm font-medium mb-1">L{index + 1} (%)</label>
+                                    <div className="flex gap-1">
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            max="100"
+                                            value={rate}
+                                            onChange={(e) => {
+                                                const rates = [...editingRates];
+                                                rates[index] = parseFloat(e.target.value) || 0;
+                                                setEditingRates(rates);
+                                            }}
+                                            className="w-full p-2 bg-slate-800 rounded-lg border border-slate-700"
+                                        />
+                                        {index === editingRates.length - 1 && editingRates.length > 1 && (
+                                            <button
+                                                onClick={() => setEditingRates(editingRates.slice(0, -1))}
+                                                className="p-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-between items-center text-sm">
+                            <button
+                                onClick={() => setEditingRates([...editingRates, 0])}
+                                disabled={editingRates.length >= 10}
+                                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Level
+                            </button>
+                            <span className={editingRates.reduce((sum, r) => sum + r, 0) > 100 ? "text-red-400" : "text-slate-400"}>
+                                Total: {editingRates.reduce((sum, r) => sum + r, 0).toFixed(2)}% of daily yield (max 100%)
+                            </span>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap gap-3">
+                        {(commissionRates || []).map((l) => (
+                            <div key={l.level} className="px-4 py-2 bg-slate-800 rounded-lg">
+                                <span className="text-slate-400 text-sm">L{l.level}</span>
+                                <span className="ml-2 font-bold text-purple-400">{l.rate}%</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             <div className="flex justify-between items-center">
                 <h2 className="text-2xl font-bold">Staking Cycles Management</h2>
                 <button
                     onClick={() => {
                         setShowForm(true);
                         setEditing(null);
-                        setFormData({ days: 0, dailyRate: 0 });
+                        setFormData({ days: 0, dailyRate: 0, earlyUnstakePenalties: [] });
                     }}
                     className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg flex items-center gap-2"
                 >
@@ -1012,6 +1771,67 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
                                 />
                             </div>
                         </div>
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <label className="block text-sm font-medium">Early Unstake Penalties</label>
+                                <button
+                                    type="button"
+                                    onClick={() => setFormData({
+                                        ...formData,
+                                        earlyUnstakePenalties: [...formData.earlyUnstakePenalties, { minDaysServed: 0, penaltyPercent: 0 }],
+                                    })}
+                                    className="text-xs px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-1"
+                                >
+                                    <Plus className="w-3 h-3" />
+                                    Add Tier
+                                </button>
+                            </div>
+                            <p className="text-xs text-slate-500 mb-2">
+                                Penalty (% of principal) applied when a stake is exited after at least the given number of days. Leave empty to use the default 20%.
+                            </p>
+                            <div className="space-y-2">
+                                {formData.earlyUnstakePenalties.map((tier, index) => (
+                                    <div key={index} className="flex gap-2 items-center">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={tier.minDaysServed}
+                                            onChange={(e) => {
+                                                const tiers = [...formData.earlyUnstakePenalties];
+                                                tiers[index] = { ...tier, minDaysServed: parseInt(e.target.value) || 0 };
+                                                setFormData({ ...formData, earlyUnstakePenalties: tiers });
+                                            }}
+                                            className="w-full p-2 bg-slate-800 rounded-lg border border-slate-700"
+                                            placeholder="From day"
+                                        />
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            max="100"
+                                            value={tier.penaltyPercent}
+                                            onChange={(e) => {
+                                                const tiers = [...formData.earlyUnstakePenalties];
+                                                tiers[index] = { ...tier, penaltyPercent: parseFloat(e.target.value) || 0 };
+                                                setFormData({ ...formData, earlyUnstakePenalties: tiers });
+                                            }}
+                                            className="w-full p-2 bg-slate-800 rounded-lg border border-slate-700"
+                                            placeholder="Penalty %"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setFormData({
+                                                ...formData,
+                                                earlyUnstakePenalties: formData.earlyUnstakePenalties.filter((_, i) => i !== index),
+                                            })}
+                                            className="p-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
                         <div className="flex gap-3">
                             <button
                                 type="submit"
@@ -1062,6 +1882,15 @@ function StakingCyclesTab({ stakingCycles, createStakingCycle, updateStakingCycl
                                 {(cycle.days * cycle.dailyRate).toFixed(2)}%
                             </div>
                         </div>
+                        <div className="mt-4 pt-4 border-t border-slate-700">
+                            <div className="text-sm text-slate-400 mb-1">Early Unstake Penalty</div>
+                            {(cycle.earlyUnstakePenalties || [{ minDaysServed: 0, penaltyPercent: 20 }]).map((tier: EarlyUnstakePenaltyTier) => (
+                                <div key={tier.minDaysServed} className="flex justify-between text-sm">
+                                    <span className="text-slate-400">From day {tier.minDaysServed}</span>
+                                    <span className="font-bold text-red-400">{tier.penaltyPercent}%</span>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 ))}
             </div>
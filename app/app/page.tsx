@@ -14,16 +14,21 @@ import {
 import Link from "next/link";
 import Image from "next/image";
 import dynamic from "next/dynamic";
+import { useSearchParams } from "next/navigation";
 import { ToastContainer } from "../components/Toast";
 import { useToast } from "../hooks/useToast";
 import { useAuth } from "../hooks/useAuth";
 import { PasswordStrengthIndicator } from "../components/PasswordStrengthIndicator";
 import { StakeModal } from "../components/StakeModal";
+import { ConfirmModal } from "../components/ConfirmModal";
 import { NotificationBell } from "../components/NotificationBell";
 import { DepositModal } from "../components/DepositModal";
 import { WithdrawModal } from "../components/WithdrawModal";
 import { AddressBook } from "../components/AddressBook";
 import { BRankCapCard } from "../components/BRankCapCard";
+import { PayoutCapCard } from "../components/PayoutCapCard";
+import { RankProgressCard } from "../components/RankProgressCard";
+import { MissedCommissionsCard } from "../components/MissedCommissionsCard";
 import { CryptoPriceTicker } from "../components/CryptoPriceTicker";
 import { PresaleView } from "../components/PresaleView";
 import { SwapToCrypto } from "../components/SwapToCrypto";
@@ -32,8 +37,16 @@ import { useTheme } from "../components/providers/ThemeProvider";
 import TwoFactorSetup from "../components/TwoFactorSetup";
 import { AccountSwitcher } from "../components/AccountSwitcher";
 import { AddAccountModal } from "../components/AddAccountModal";
+import { BinaryTreeViewer } from "../components/BinaryTreeViewer";
 import { AccountSettings } from "../components/AccountSettings";
 import { AccountProvider, useAccount } from "../contexts/AccountContext";
+// Placements a sponsor can choose for their referral code ("" = platform default)
+const REFERRAL_LINK_PLACEMENTS: Record<string, string> = {
+  "": "Platform default",
+  left_leg: "Left leg",
+  right_leg: "Right leg",
+  weak_leg: "Weak leg",
+};
 
 // Dynamic import for Tree to avoid SSR issues
 const Tree = dynamic(() => import("react-d3-tree"), { ssr: false });
@@ -45,15 +58,20 @@ function HomeContent() {
   
   // Use currentAccountId if available, otherwise fall back to accountId or userId
   const activeAccountId = currentAccountId || accountId || userId;
+
+  // Referral link: ?ref=CODE opens sign up with the code filled in (placement is the sponsor's saved choice)
+  const searchParams = useSearchParams();
+  const referralParam = searchParams.get("ref");
   
   const [showCreateAccountModal, setShowCreateAccountModal] = useState(false);
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [referralCode, setReferralCode] = useState("");
+  const [referralCode, setReferralCode] = useState(() => referralParam?.toUpperCase() ?? "");
+  const [linkCopied, setLinkCopied] = useState(false);
   const [error, setError] = useState("");
-  const [isLogin, setIsLogin] = useState(true);
+  const [isLogin, setIsLogin] = useState(() => !referralParam);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
@@ -66,6 +84,9 @@ function HomeContent() {
 
   // Mutations & Queries (keep for other operations)
   const createStake = useCachedMutation(api.stakes.createStake);
+  const updateStakePreferences = useCachedMutation(api.stakes.updateStakePreferences);
+  const unstake = useCachedMutation(api.stakes.unstake);
+  const setReferralPlacement = useCachedMutation(api.accounts.setReferralPlacement);
   const userProfile = useCachedQuery(api.users.getProfile, activeAccountId ? { accountId: activeAccountId as any } : "skip");
   const stakes = useCachedQuery(api.stakes.getUserStakes, activeAccountId ? { accountId: activeAccountId as any } : "skip");
   const stakingCycles = useCachedQuery(api.config.get, { key: "staking_cycles" });
@@ -213,7 +234,7 @@ function HomeContent() {
     }
   };
 
-  const handleStake = async (days: number, amount: number) => {
+  const handleStake = async (days: number, amount: number, options?: { autoCompound: boolean; autoRenew: boolean }) => {
     if (!userId) return;
 
     if (userProfile && (userProfile.walletBalance || 0) < amount) {
@@ -222,7 +243,7 @@ function HomeContent() {
     }
 
     try {
-      await createStake({ userId: userId as any, amount, cycleDays: days });
+      await createStake({ userId: userId as any, amount, cycleDays: days, ...options });
       toast.success("Staked successfully!");
     } catch (e: any) {
       const errorMessage = e.message || e.toString();
@@ -234,6 +255,57 @@ function HomeContent() {
     }
   };
 
+  const handleStakePreferences = async (stake: any, updates: { autoCompound?: boolean; autoRenew?: boolean }) => {
+    try {
+      await updateStakePreferences({
+        stakeId: stake._id,
+        accountId: stake.accountId,
+        userId: stake.accountId ? undefined : stake.userId,
+        ...updates,
+      });
+      toast.success("Stake preferences updated");
+    } catch (e: any) {
+      toast.error("Failed to update stake: " + (e.message || e.toString()));
+    }
+  };
+
+  const handleUnstake = async (stake: any) => {
+    try {
+      const result: any = await unstake({
+        stakeId: stake._id,
+        accountId: stake.accountId,
+        userId: stake.accountId ? undefined : stake.userId,
+      });
+      toast.success(`Unstaked. $${result.refund.toFixed(2)} returned to your wallet.`);
+    } catch (e: any) {
+      toast.error("Unstake failed: " + (e.message || e.toString()));
+    }
+  };
+
+  const changeReferralPlacement = async (placement: string) => {
+    const referralAccountId = currentAccountId || accountId;
+    if (!loginId || !referralAccountId) return;
+    try {
+      await setReferralPlacement({
+        accountId: referralAccountId,
+        loginId,
+        placement: placement ? (placement as "left_leg" | "right_leg" | "weak_leg") : undefined,
+      });
+      toast.success(`New members from your link: ${REFERRAL_LINK_PLACEMENTS[placement]}`);
+    } catch (e: any) {
+      toast.error("Could not save placement: " + (e.message || e.toString()));
+    }
+  };
+
+  const copyReferralLink = () => {
+    if (userProfile?.referralCode) {
+      const params = new URLSearchParams({ ref: userProfile.referralCode });
+      navigator.clipboard.writeText(`${window.location.origin}/?${params.toString()}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }
+  };
+
   const copyReferral = () => {
     if (userProfile?.referralCode) {
       navigator.clipboard.writeText(userProfile.referralCode);
@@ -619,8 +691,28 @@ function HomeContent() {
                       {copied ? <Check className="w-5 h-5 text-emerald-500" /> : <Copy className="w-5 h-5" />}
                     </button>
                   </div>
+                  <div className="flex gap-2 mb-4">
+                    <select
+                      value={(userProfile && "referralPlacement" in userProfile && userProfile.referralPlacement) || ""}
+                      onChange={(e) => changeReferralPlacement(e.target.value)}
+                      disabled={!loginId}
+                      title="Where people who join through your link are placed"
+                      className="flex-1 min-w-0 p-2 text-sm bg-theme-tertiary dark:bg-slate-950 light:bg-gray-50 rounded-xl border border-theme-secondary dark:border-slate-800 light:border-gray-200 text-theme-primary"
+                    >
+                      {Object.entries(REFERRAL_LINK_PLACEMENTS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={copyReferralLink}
+                      className="px-3 py-2 text-sm font-bold bg-purple-600/20 text-purple-500 dark:text-purple-400 light:text-indigo-600 rounded-xl hover:bg-purple-600/30 transition-colors flex items-center gap-1"
+                    >
+                      {linkCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      Link
+                    </button>
+                  </div>
                   <p className="text-xs text-theme-tertiary dark:text-slate-500 light:text-gray-500 text-center">
-                    Share this code to grow your team and earn commissions.
+                    Share this code or link to grow your team and earn commissions.
                   </p>
                 </div>
               </div>
@@ -666,10 +758,25 @@ function HomeContent() {
               {/* Live Crypto Prices */}
               <CryptoPriceTicker />
 
+              {/* Progress towards the next rank (accounts only) */}
+              {(currentAccountId || accountId) && (
+                <RankProgressCard accountId={(currentAccountId || accountId) as any} />
+              )}
+
+              {/* Commissions missed this month and why (accounts only) */}
+              {(currentAccountId || accountId) && (
+                <MissedCommissionsCard accountId={(currentAccountId || accountId) as any} />
+              )}
+
               {/* B-Rank Cap Information */}
               {activeAccountId && userProfile?.currentRank !== "B0" && (
                 <BRankCapCard accountId={activeAccountId} />
               )}
+
+              {/* Earnings Cap Information (only shown when the platform cap is enabled) */}
+              {activeAccountId && (
+                <PayoutCapCard accountId={activeAccountId} />
+              )}
             </>
           )}
 
@@ -682,6 +789,8 @@ function HomeContent() {
               stakingCycles={stakingCycles}
               stakes={stakes}
               handleStake={handleStake}
+              handleStakePreferences={handleStakePreferences}
+              handleUnstake={handleUnstake}
               toast={toast}
               userProfile={userProfile}
               pauseStates={pauseStates}
@@ -717,6 +826,7 @@ function HomeContent() {
             <NetworkView
               allUsers={allUsers}
               userId={activeAccountId}
+              loginId={loginId}
             />
           )}
 
@@ -787,9 +897,11 @@ function StatsCard({ title, value, icon, trend, color }: { title: string, value:
   );
 }
 
-function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, pauseStates, setActiveTab, setSidebarOpen }: any) {
+function StakingView({ stakingCycles, stakes, handleStake, handleStakePreferences, handleUnstake, toast, userProfile, pauseStates, setActiveTab, setSidebarOpen }: any) {
   const [stakeModalOpen, setStakeModalOpen] = useState(false);
   const [selectedCycle, setSelectedCycle] = useState<any>(null);
+  const [unstakeTarget, setUnstakeTarget] = useState<any>(null);
+  const unstakeQuote = useCachedQuery(api.stakes.getUnstakeQuote, unstakeTarget ? { stakeId: unstakeTarget._id } : "skip");
 
   const handleStakeClick = (cycle: any) => {
     if (pauseStates?.stakingPaused) {
@@ -800,9 +912,9 @@ function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, p
     setStakeModalOpen(true);
   };
 
-  const handleStakeConfirm = (amount: number) => {
+  const handleStakeConfirm = (amount: number, options: { autoCompound: boolean; autoRenew: boolean }) => {
     if (selectedCycle) {
-      handleStake(selectedCycle.days, amount);
+      handleStake(selectedCycle.days, amount, options);
     }
   };
 
@@ -902,6 +1014,7 @@ function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, p
                 <th className="p-6 font-medium">Amount</th>
                 <th className="p-6 font-medium">Daily Yield</th>
                 <th className="p-6 font-medium">End Date</th>
+                <th className="p-6 font-medium">Options</th>
                 <th className="p-6 font-medium">Status</th>
               </tr>
             </thead>
@@ -926,6 +1039,35 @@ function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, p
                       <td className="p-4 sm:p-6 text-theme-primary dark:text-slate-300 light:text-gray-900">${safeAmount.toLocaleString()}</td>
                       <td className="p-4 sm:p-6 text-emerald-500 dark:text-emerald-400 light:text-emerald-600 font-medium">+{stake.dailyRate ?? 0}%</td>
                       <td className="p-4 sm:p-6 text-theme-secondary dark:text-slate-400 light:text-gray-600">{new Date(safeEndDate).toLocaleDateString()}</td>
+                      <td className="p-4 sm:p-6">
+                        {stake.status === "active" ? (
+                          <div className="flex flex-col gap-1 text-xs">
+                            <button
+                              type="button"
+                              onClick={() => handleStakePreferences(stake, { autoCompound: !stake.autoCompound })}
+                              className={`px-2 py-1 rounded-full font-bold ${stake.autoCompound ? 'bg-purple-500/20 text-purple-300' : 'bg-slate-800 text-slate-500'}`}
+                            >
+                              Compound {stake.autoCompound ? "On" : "Off"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleStakePreferences(stake, { autoRenew: !stake.autoRenew })}
+                              className={`px-2 py-1 rounded-full font-bold ${stake.autoRenew ? 'bg-purple-500/20 text-purple-300' : 'bg-slate-800 text-slate-500'}`}
+                            >
+                              Auto-renew {stake.autoRenew ? "On" : "Off"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setUnstakeTarget(stake)}
+                              className="px-2 py-1 rounded-full font-bold bg-red-500/10 text-red-400 hover:bg-red-500/20"
+                            >
+                              Unstake
+                            </button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-slate-500">-</span>
+                        )}
+                      </td>
                       <td className="p-4 sm:p-6">
                         <span className="px-3 py-1 bg-emerald-500/10 dark:bg-emerald-500/10 light:bg-emerald-100 text-emerald-500 dark:text-emerald-400 light:text-emerald-700 rounded-full text-xs font-bold uppercase">
                           {stake.status || "active"}
@@ -936,7 +1078,7 @@ function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, p
                 })
               ) : (
                 <tr>
-                  <td colSpan={5} className="p-8 text-center text-theme-tertiary dark:text-slate-500 light:text-gray-500">
+                  <td colSpan={6} className="p-8 text-center text-theme-tertiary dark:text-slate-500 light:text-gray-500">
                     No active investments found. Start staking today!
                   </td>
                 </tr>
@@ -946,6 +1088,21 @@ function StakingView({ stakingCycles, stakes, handleStake, toast, userProfile, p
         </div>
       </section>
 
+      <ConfirmModal
+        isOpen={!!unstakeTarget}
+        title="Unstake Early"
+        message={unstakeQuote
+          ? `Unstaking after ${unstakeQuote.daysServed} days applies a ${unstakeQuote.penaltyPercent}% early unstake penalty ($${unstakeQuote.penalty.toFixed(2)}). $${unstakeQuote.refund.toFixed(2)} will be returned to your wallet and yield not yet paid is forfeited.`
+          : "Calculating early unstake penalty..."}
+        confirmText="Unstake"
+        type="danger"
+        onConfirm={() => {
+          if (unstakeTarget && unstakeQuote) handleUnstake(unstakeTarget);
+          setUnstakeTarget(null);
+        }}
+        onCancel={() => setUnstakeTarget(null)}
+      />
+
       <StakeModal
         isOpen={stakeModalOpen}
         onClose={() => setStakeModalOpen(false)}
@@ -1145,8 +1302,8 @@ function WalletView({ userProfile, transactions, requestWithdrawal, deposit, use
   )
 }
 
-function NetworkView({ allUsers, userId }: any) {
-  const [activeTab, setActiveTab] = useState<"tree" | "direct" | "indirect">("tree");
+function NetworkView({ allUsers, userId, loginId }: any) {
+  const [activeTab, setActiveTab] = useState<"tree" | "binary" | "direct" | "indirect">("tree");
   const [treeData, setTreeData] = useState<any>(null);
   const [maxLevels, setMaxLevels] = useState<number>(5); // Default to 5 levels for performance
 
@@ -1199,6 +1356,12 @@ function NetworkView({ allUsers, userId }: any) {
         >
           Unilevel Network
         </button>
+        <button
+          onClick={() => setActiveTab("binary")}
+          className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === "binary" ? "bg-purple-600 text-white" : "text-slate-400 hover:text-white"}`}
+        >
+          Binary Tree
+        </button>
         <button
           onClick={() => setActiveTab("direct")}
           className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === "direct" ? "bg-purple-600 text-white" : "text-slate-400 hover:text-white"}`}
@@ -1256,6 +1419,10 @@ function NetworkView({ allUsers, userId }: any) {
         </div>
       )}
 
+      {activeTab === "binary" && userId && loginId && (
+        <BinaryTreeViewer accountId={userId} loginId={loginId} />
+      )}
+
       {activeTab === "direct" && (
         <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 overflow-hidden">
           <div className="p-6 border-b border-slate-800">
@@ -1342,6 +1509,9 @@ function NetworkView({ allUsers, userId }: any) {
 }
 
 function EarningsView({ userEarnings, blsConfig, pauseStates }: any) {
+  const commissionRates = useCachedQuery(api.configs.getCommissionRates, {});
+  const unilevelPlan = useCachedQuery(api.configs.getActiveUnilevelPlan, {});
+
   if (!userEarnings) {
     return <div className="text-center text-slate-500 py-8">Loading earnings...</div>;
   }
@@ -1498,11 +1668,14 @@ function EarningsView({ userEarnings, blsConfig, pauseStates }: any) {
               <li>• <strong>Daily Yield:</strong> Earnings from your active stakes {isBLSEnabled && "(paid in BLS)"}</li>
               {referralBonusesEnabled ? (
                 <>
-                  <li>• <strong>Direct Commissions (L1):</strong> 15% of your direct referrals' daily yield {isBLSEnabled && "(paid in BLS)"}</li>
-                  <li>• <strong>Indirect Commissions (L2):</strong> 10% of your indirect referrals' daily yield {isBLSEnabled && "(paid in BLS)"}</li>
+                  {(commissionRates || []).map((l: any) => (
+                    <li key={l.level}>• <strong>{l.level === 1 ? "Direct" : "Indirect"} Commissions (L{l.level}):</strong> {l.rate}% of your {l.level === 1 ? "direct" : `level ${l.level}`} referrals' daily yield {isBLSEnabled && "(paid in BLS)"}</li>
+                  ))}
                 </>
               ) : (
-                <li>• <strong>Unilevel Commissions:</strong> Earn from 10 levels of your network (up to 16% total) {isBLSEnabled && "(paid in BLS)"}</li>
+                unilevelPlan && (
+                  <li>• <strong>Unilevel Commissions:</strong> Earn from {unilevelPlan.rates.length} levels of your network (up to {Number(unilevelPlan.rates.reduce((sum: number, rate: number) => sum + rate, 0).toFixed(2))}% total) {isBLSEnabled && "(paid in BLS)"}</li>
+                )
               )}
               <li>• <strong>B-Rank Bonuses:</strong> Additional % based on your B-Rank level {isBLSEnabled && "(paid in BLS)"}</li>
             </ul>
@@ -1,9 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import { Calendar, Download, DollarSign, TrendingUp, Hash } from "lucide-react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../convex/_generated/api";
+import { Calendar, Download, DollarSign, TrendingUp, Hash, Award } from "lucide-react";
 
-export function BRankPayoutReport({ reportData }: any) {
+type BRankPayoutReportData = FunctionReturnType<typeof api.admin.getBRankPayoutReport>;
+type AchievementRow = BRankPayoutReportData["achievements"][number];
+
+export function BRankPayoutReport({ reportData }: { reportData: BRankPayoutReportData | undefined }) {
     const [dateRange, setDateRange] = useState("all");
     const [startDate, setStartDate] = useState("");
     const [endDate, setEndDate] = useState("");
@@ -17,7 +22,7 @@ export function BRankPayoutReport({ reportData }: any) {
         );
     }
 
-    const { summary, transactions, isBLSEnabled } = reportData;
+    const { summary, transactions, achievements = [], isBLSEnabled } = reportData;
 
     // Filter transactions by search term
     const filteredTransactions = transactions.filter((t: any) =>
@@ -194,6 +199,67 @@ export function BRankPayoutReport({ reportData }: any) {
                     </table>
                 </div>
             </div>
+
+            {/* Rank Achievement Rewards (one-time, first time a rank is reached) */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 overflow-hidden">
+                <div className="flex justify-between items-center p-4 border-b border-slate-800">
+                    <div className="flex items-center gap-2">
+                        <Award className="w-5 h-5 text-yellow-400" />
+                        <h3 className="text-lg font-bold">Rank Achievement Rewards</h3>
+                    </div>
+                    <div className="text-sm text-slate-400">
+                        {summary.achievementCount || 0} paid · <span className="font-bold text-emerald-400">${(summary.achievementsPaid || 0).toFixed(2)}</span>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-slate-900 border-b border-slate-800">
+                            <tr>
+                                <th className="p-4 text-left font-medium text-slate-400">Date</th>
+                                <th className="p-4 text-left font-medium text-slate-400">User</th>
+                                <th className="p-4 text-left font-medium text-slate-400">Rank Reached</th>
+                                <th className="p-4 text-left font-medium text-slate-400">
+                                    Reward{isBLSEnabled ? " (USDT / BLS)" : ""}
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {achievements.length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="p-8 text-center text-slate-500">
+                                        No rank achievement rewards found
+                                    </td>
+                                </tr>
+                            ) : (
+                                achievements.map((a: AchievementRow) => (
+                                    <tr key={a._id} className="border-b border-slate-800 hover:bg-slate-800/50">
+                                        <td className="p-4 text-sm text-slate-400">
+                                            {new Date(a.timestamp).toLocaleString()}
+                                        </td>
+                                        <td className="p-4">
+                                            <div className="font-medium text-white">{a.userName}</div>
+                                            <div className="text-xs text-slate-500">{a.userEmail}</div>
+                                        </td>
+                                        <td className="p-4">
+                                            <span className="px-2 py-1 bg-yellow-500/20 text-yellow-300 rounded text-xs font-medium">
+                                                {a.rank}
+                                            </span>
+                                        </td>
+                                        <td className="p-4 font-bold text-emerald-400">
+                                            <div>+${a.amount.toFixed(2)}</div>
+                                            {isBLSEnabled && a.blsAmount && (
+                                                <div className="text-sm text-purple-400 mt-1">
+                                                    +{a.blsAmount.toFixed(2)} BLS
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
         </div>
     );
 }
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { useCachedQuery } from "../hooks/useCachedQuery";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { formatUSDT } from "../lib/money";
+import type { BinaryGenealogyNode } from "../convex/binary/genealogy";
+
+interface BinaryTreeViewerProps {
+  accountId: Id<"accounts">;
+  loginId: Id<"logins">;
+}
+
+/**
+ * Binary placement tree (left/right legs), a few levels at a time
+ * Click a member to re-root the view on them; the breadcrumb leads back up.
+ */
+export function BinaryTreeViewer({ accountId, loginId }: BinaryTreeViewerProps) {
+  const [rootId, setRootId] = useState<Id<"accounts"> | undefined>(undefined);
+  const [depth, setDepth] = useState<number>(3);
+
+  const genealogy = useCachedQuery(api.binary.genealogy.getBinaryGenealogy, { accountId, loginId, rootId, depth });
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-slate-900/50 backdrop-blur-sm rounded-xl border border-slate-800">
+        <label className="text-sm font-medium text-slate-300">Levels:</label>
+        <select
+          value={depth}
+          onChange={(e) => setDepth(Number(e.target.value))}
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          <option value={2}>2 Levels</option>
+          <option value={3}>3 Levels</option>
+          <option value={4}>4 Levels</option>
+        </select>
+
+        {/* Breadcrumb back to the account */}
+        <div className="flex flex-wrap items-center gap-1 text-sm ml-auto">
+          <button
+            onClick={() => setRootId(undefined)}
+            className={`px-2 py-1 rounded ${rootId ? "text-purple-400 hover:bg-slate-800" : "text-slate-300 font-bold"}`}
+          >
+            You
+          </button>
+          {(genealogy?.path || []).map((step: { accountId: Id<"accounts">; name: string; position?: "left" | "right" }, i: number) => (
+            <span key={step.accountId} className="flex items-center gap-1">
+              <span className="text-slate-600">/</span>
+              <button
+                onClick={() => setRootId(step.accountId)}
+                disabled={i === genealogy!.path.length - 1}
+                className={`px-2 py-1 rounded ${i === genealogy!.path.length - 1 ? "text-slate-300 font-bold" : "text-purple-400 hover:bg-slate-800"}`}
+              >
+                {step.position === "left" ? "L" : "R"}: {step.name}
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6 overflow-auto">
+        {genealogy === undefined ? (
+          <div className="py-16 text-center text-slate-500">Loading Binary Tree...</div>
+        ) : !genealogy?.tree ? (
+          <div className="py-16 text-center text-slate-500">No binary tree data available</div>
+        ) : (
+          <div className="min-w-max mx-auto">
+            <BinaryNode node={genealogy.tree} onSelect={setRootId} isRoot />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BinaryNode({ node, onSelect, isRoot = false }: { node: BinaryGenealogyNode; onSelect: (id: Id<"accounts">) => void; isRoot?: boolean }) {
+  const showChildren = node.left || node.right;
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        onClick={() => !isRoot && onSelect(node.accountId)}
+        className={`w-52 p-3 rounded-xl border text-left transition-colors ${isRoot ? "bg-purple-900/40 border-purple-500/50 cursor-default" : "bg-slate-800/70 border-slate-700 hover:border-purple-500/50"}`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-bold text-white truncate">{node.name}</span>
+          <span className="text-xs font-bold px-2 py-0.5 rounded bg-purple-500/20 text-purple-300">{node.currentRank}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div>
+            <div className="text-slate-500">Left</div>
+            <div className="text-slate-200 font-medium">{formatUSDT(node.leftLegVolume)}</div>
+            <div className="text-slate-400">{node.leftLegCount} members</div>
+          </div>
+          <div className="text-right">
+            <div className="text-slate-500">Right</div>
+            <div className="text-slate-200 font-medium">{formatUSDT(node.rightLegVolume)}</div>
+            <div className="text-slate-400">{node.rightLegCount} members</div>
+          </div>
+        </div>
+        {node.hasMore && (
+          <div className="mt-2 text-xs text-purple-400 text-center">View downline ↓</div>
+        )}
+      </button>
+
+      {showChildren && (
+        <>
+          <div className="w-px h-4 bg-slate-700" />
+          <div className="flex gap-4 items-start">
+            <BinarySlot node={node.left} side="left" onSelect={onSelect} />
+            <BinarySlot node={node.right} side="right" onSelect={onSelect} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function BinarySlot({ node, side, onSelect }: { node: BinaryGenealogyNode | null; side: "left" | "right"; onSelect: (id: Id<"accounts">) => void }) {
+  if (node) return <BinaryNode node={node} onSelect={onSelect} />;
+
+  return (
+    <div className="w-52 p-3 rounded-xl border border-dashed border-slate-700 text-center text-xs text-slate-500">
+      Empty {side} position
+    </div>
+  );
+}
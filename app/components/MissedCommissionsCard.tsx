@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { useCachedQuery } from "../hooks/useCachedQuery";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { TrendingDown, Lock, PauseCircle, Gauge } from "lucide-react";
+
+interface MissedCommissionsCardProps {
+    accountId: Id<"accounts">;
+}
+
+interface MissedItem {
+    type: "unilevel" | "brank" | "binary" | "referral";
+    reason: "level_locked" | "inactive" | "cap_reached" | "payout_cap";
+    level?: number;
+    amount: number;
+    count: number;
+}
+
+const formatMonth = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const formatAmount = (amount: number) =>
+    `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function describeMissed(item: MissedItem, period: string) {
+    const amount = formatAmount(item.amount);
+    if (item.reason === "level_locked") {
+        return `You missed ${amount} ${period} because level ${item.level} is locked`;
+    }
+    if (item.reason === "inactive") {
+        return `You missed ${amount} of level ${item.level} commissions ${period} because you had no qualifying active stake`;
+    }
+    if (item.reason === "payout_cap") {
+        const bonus = item.type === "brank"
+            ? "B-Rank bonus"
+            : item.type === "binary"
+                ? "binary bonus"
+                : item.type === "referral"
+                    ? `L${item.level} referral bonus`
+                    : `level ${item.level} commissions`;
+        return `You missed ${amount} of ${bonus} ${period} because you reached your earnings cap`;
+    }
+    if (item.type === "binary") {
+        return `You missed ${amount} of binary bonus ${period} over your daily cap`;
+    }
+    return `You missed ${amount} of B-Rank bonus ${period} because you reached your B-Rank cap`;
+}
+
+export function MissedCommissionsCard({ accountId }: MissedCommissionsCardProps) {
+    const [lastMonth, setLastMonth] = useState(false);
+
+    const now = new Date();
+    const month = lastMonth
+        ? formatMonth(new Date(now.getFullYear(), now.getMonth() - 1, 1))
+        : formatMonth(now);
+    const report = useCachedQuery(api.missedCommissions.getMissedCommissionReport, { accountId, month });
+
+    if (!report) {
+        return null;
+    }
+
+    const period = lastMonth ? "last month" : "this month";
+
+    return (
+        <div className="p-6 bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 hover:border-slate-700 transition-all">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-3 bg-orange-500/10 rounded-xl">
+                        <TrendingDown className="w-6 h-6 text-orange-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Missed Earnings</h3>
+                        <p className="text-sm text-slate-400">Commissions you did not qualify for</p>
+                    </div>
+                </div>
+                <div className="text-2xl font-bold text-orange-400">{formatAmount(report.total)}</div>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+                {[false, true].map((isLastMonth) => (
+                    <button
+                        key={String(isLastMonth)}
+                        onClick={() => setLastMonth(isLastMonth)}
+                        className={`px-3 py-1 text-xs font-medium rounded-lg transition-all ${lastMonth === isLastMonth
+                            ? "bg-orange-500/20 text-orange-300 border border-orange-500/30"
+                            : "bg-slate-800 text-slate-400 border border-slate-700 hover:text-white"
+                            }`}
+                    >
+                        {isLastMonth ? "Last Month" : "This Month"}
+                    </button>
+                ))}
+            </div>
+
+            {report.items.length === 0 ? (
+                <p className="text-sm text-slate-400">Nothing missed {period} - you qualified for everything your team earned you.</p>
+            ) : (
+                <div className="space-y-2">
+                    {report.items.map((item: MissedItem) => {
+                        const Icon = item.reason === "level_locked" ? Lock : item.reason === "inactive" ? PauseCircle : Gauge;
+                        return (
+                            <div
+                                key={`${item.type}-${item.reason}-${item.level ?? ""}`}
+                                className="p-3 bg-slate-800/50 border border-slate-700 rounded-xl flex items-start gap-2"
+                            >
+                                <Icon className="w-4 h-4 text-orange-400 mt-0.5 shrink-0" />
+                                <div className="text-xs text-slate-300">
+                                    {describeMissed(item, period)}
+                                    <span className="text-slate-500"> ({item.count}x)</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
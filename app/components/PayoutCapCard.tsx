@@ -0,0 +1,113 @@
+"use client";
+
+import { useCachedQuery } from "../hooks/useCachedQuery";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { Wallet, TrendingUp, AlertCircle } from "lucide-react";
+
+interface PayoutCapCardProps {
+    accountId: Id<"accounts"> | Id<"users">;
+}
+
+export function PayoutCapCard({ accountId }: PayoutCapCardProps) {
+    const capInfo = useCachedQuery(api.payoutCap.getPayoutCapInfo, { accountId });
+
+    // Nothing to show while loading or when the platform has no payout cap
+    if (!capInfo || !capInfo.isEnabled) {
+        return null;
+    }
+
+    const { totalActiveStake, multiplier, currentCap, totalReceived, remainingCap, isCapReached } = capInfo;
+
+    const safeTotalActiveStake = totalActiveStake ?? 0;
+    const safeCurrentCap = currentCap ?? 0;
+    const safeTotalReceived = totalReceived ?? 0;
+    const safeRemainingCap = remainingCap ?? 0;
+
+    const progressPercentage = safeCurrentCap > 0 ? Math.min((safeTotalReceived / safeCurrentCap) * 100, 100) : 100;
+
+    const getStatusColor = () => {
+        if (isCapReached) return "red";
+        if (progressPercentage >= 90) return "yellow";
+        if (progressPercentage >= 70) return "orange";
+        return "emerald";
+    };
+
+    const statusColor = getStatusColor();
+
+    return (
+        <div className="p-6 bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 hover:border-slate-700 transition-all">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-3 bg-blue-500/10 rounded-xl">
+                        <Wallet className="w-6 h-6 text-blue-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Earnings Cap</h3>
+                        <p className="text-sm text-slate-400">Yield, commissions and bonuses combined</p>
+                    </div>
+                </div>
+                {isCapReached && (
+                    <div className="px-3 py-1 bg-red-500/20 text-red-400 rounded-full text-xs font-bold flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3" />
+                        CAP REACHED
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-4">
+                <div className="p-3 bg-slate-800/50 rounded-xl">
+                    <div className="text-xs text-slate-400 mb-1">Active Stake</div>
+                    <div className="text-lg font-bold text-white">${safeTotalActiveStake.toLocaleString()}</div>
+                </div>
+                <div className="p-3 bg-slate-800/50 rounded-xl">
+                    <div className="text-xs text-slate-400 mb-1">Cap Multiplier</div>
+                    <div className="text-lg font-bold text-blue-400">{multiplier}x</div>
+                </div>
+                <div className="p-3 bg-slate-800/50 rounded-xl">
+                    <div className="text-xs text-slate-400 mb-1">Earnings Cap</div>
+                    <div className="text-lg font-bold text-white">${safeCurrentCap.toLocaleString()}</div>
+                </div>
+                <div className="p-3 bg-slate-800/50 rounded-xl">
+                    <div className="text-xs text-slate-400 mb-1">Remaining</div>
+                    <div className={`text-lg font-bold text-${statusColor}-400`}>${safeRemainingCap.toLocaleString()}</div>
+                </div>
+            </div>
+
+            <div className="mb-3">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs text-slate-400">Earnings Received</span>
+                    <span className="text-xs font-bold text-white">${safeTotalReceived.toLocaleString()} / ${safeCurrentCap.toLocaleString()}</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full bg-gradient-to-r from-${statusColor}-500 to-${statusColor}-400 transition-all duration-500`}
+                        style={{ width: `${progressPercentage}%` }}
+                    ></div>
+                </div>
+            </div>
+
+            {isCapReached ? (
+                <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 shrink-0" />
+                    <div className="text-xs text-red-300">
+                        You&apos;ve reached your earnings cap. <span className="font-bold">Stake more to increase your cap</span> and continue earning!
+                    </div>
+                </div>
+            ) : (
+                <div className="p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-start gap-2">
+                    <TrendingUp className="w-4 h-4 text-emerald-400 mt-0.5 shrink-0" />
+                    <div className="text-xs text-emerald-300">
+                        You can earn <span className="font-bold">${safeRemainingCap.toLocaleString()}</span> more before reaching your cap.
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-4 pt-4 border-t border-slate-800">
+                <div className="text-xs text-slate-500">
+                    💡 <span className="font-medium">How it works:</span> Your max total earnings = Active Stake × {multiplier}x. Stake more to increase your cap!
+                </div>
+            </div>
+        </div>
+    );
+}
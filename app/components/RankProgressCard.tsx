@@ -0,0 +1,82 @@
+"use client";
+
+import { useCachedQuery } from "../hooks/useCachedQuery";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import { Award, AlertCircle, Check } from "lucide-react";
+
+interface RankProgressCardProps {
+    accountId: Id<"accounts">;
+}
+
+export function RankProgressCard({ accountId }: RankProgressCardProps) {
+    const progress = useCachedQuery(api.rankQueries.getRankProgress, { accountId });
+
+    if (!progress) {
+        return null;
+    }
+
+    const { currentRank, nextRank, requirements, progressPercent, atRisk } = progress;
+
+    const formatValue = (type: string, value: number) =>
+        type === "team_volume" ? `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : value.toString();
+
+    return (
+        <div className="p-6 bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 hover:border-slate-700 transition-all">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-3 bg-purple-500/10 rounded-xl">
+                        <Award className="w-6 h-6 text-purple-400" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Rank Progress</h3>
+                        <p className="text-sm text-slate-400">
+                            {nextRank ? `${currentRank} → ${nextRank}` : `${currentRank} - highest rank reached`}
+                        </p>
+                    </div>
+                </div>
+                {nextRank && (
+                    <div className="text-2xl font-bold text-purple-400">{Math.floor(progressPercent)}%</div>
+                )}
+            </div>
+
+            {atRisk && (
+                <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-yellow-400 mt-0.5 shrink-0" />
+                    <div className="text-xs text-yellow-300">
+                        Your {currentRank} rank is at risk. Requalify by{" "}
+                        <span className="font-bold">{new Date(atRisk.expiresAt).toLocaleDateString()}</span>
+                        {atRisk.downgradeTo ? `, otherwise it will change to ${atRisk.downgradeTo}.` : "."}
+                    </div>
+                </div>
+            )}
+
+            {nextRank && (
+                <div className="space-y-3">
+                    {requirements.map((r: { type: string; label: string; current: number; required: number; met: boolean }) => {
+                        const percent = r.required > 0 ? Math.min((r.current / r.required) * 100, 100) : 100;
+                        return (
+                            <div key={r.type}>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-xs text-slate-400 flex items-center gap-1">
+                                        {r.met && <Check className="w-3 h-3 text-emerald-400" />}
+                                        {r.label}
+                                    </span>
+                                    <span className="text-xs font-bold text-white">
+                                        {formatValue(r.type, r.current)} / {formatValue(r.type, r.required)}
+                                    </span>
+                                </div>
+                                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full transition-all duration-500 ${r.met ? "bg-emerald-500" : "bg-gradient-to-r from-purple-500 to-blue-500"}`}
+                                        style={{ width: `${percent}%` }}
+                                    ></div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -6,13 +6,15 @@ import { X, TrendingUp, Wallet } from "lucide-react";
 interface StakeModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onConfirm: (amount: number) => void;
+    onConfirm: (amount: number, options: { autoCompound: boolean; autoRenew: boolean }) => void;
     cycle: { days: number; dailyRate: number };
     walletBalance: number;
 }
 
 export function StakeModal({ isOpen, onClose, onConfirm, cycle, walletBalance }: StakeModalProps) {
     const [amount, setAmount] = useState("");
+    const [autoCompound, setAutoCompound] = useState(false);
+    const [autoRenew, setAutoRenew] = useState(false);
     const MIN_STAKE_AMOUNT = 100; // Minimum stake is $100
 
     if (!isOpen) return null;
@@ -21,8 +23,10 @@ export function StakeModal({ isOpen, onClose, onConfirm, cycle, walletBalance }:
         e.preventDefault();
         const parsedAmount = parseFloat(amount);
         if (parsedAmount >= MIN_STAKE_AMOUNT && parsedAmount <= walletBalance) {
-            onConfirm(parsedAmount);
+            onConfirm(parsedAmount, { autoCompound, autoRenew });
             setAmount("");
+            setAutoCompound(false);
+            setAutoRenew(false);
             onClose();
         }
     };
@@ -119,6 +123,34 @@ export function StakeModal({ isOpen, onClose, onConfirm, cycle, walletBalance }:
                         </div>
                     </div>
 
+                    {/* Options */}
+                    <div className="space-y-3">
+                        <label className="flex items-start gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={autoCompound}
+                                onChange={(e) => setAutoCompound(e.target.checked)}
+                                className="mt-1 accent-purple-500"
+                            />
+                            <span className="text-sm text-slate-300">
+                                <strong>Auto-compound</strong>
+                                <span className="block text-slate-500">Add daily yield to your stake principal instead of your wallet.</span>
+                            </span>
+                        </label>
+                        <label className="flex items-start gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={autoRenew}
+                                onChange={(e) => setAutoRenew(e.target.checked)}
+                                className="mt-1 accent-purple-500"
+                            />
+                            <span className="text-sm text-slate-300">
+                                <strong>Auto-renew</strong>
+                                <span className="block text-slate-500">Restake the principal for another {cycle.days} days when this stake matures.</span>
+                            </span>
+                        </label>
+                    </div>
+
                     {/* Info */}
                     <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-xl">
                         <p className="text-sm text-blue-300">
@@ -7,6 +7,7 @@ import { api } from "../convex/_generated/api";
 import { Id } from "../convex/_generated/dataModel";
 import { ArrowRightLeft, Wallet, Coins, History, Loader2, AlertCircle, CheckCircle } from "lucide-react";
 import { useToast } from "../hooks/useToast";
+import { exceedsBalance, formatAmount, toAmountInput } from "../lib/money";
 
 interface SwapToCryptoProps {
     userId: Id<"users">;
@@ -35,24 +36,6 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
     const conversionRate = blsConfig?.conversionRate || 1.0;
     const minSwapAmount = blsConfig?.minSwapAmount || 1.0;
     
-    // Helper function to format balance and prevent -0.00 display
-    const formatBLSBalance = (balance: number): string => {
-        const normalized = balance === 0 || Object.is(balance, -0) ? 0 : balance;
-        return normalized.toFixed(2);
-    };
-
-    // Helper function to round currency amounts to 2 decimal places for safe comparison
-    const roundToTwoDecimals = (value: number): number => {
-        return Math.round(value * 100) / 100;
-    };
-
-    // Helper function to safely compare if amount exceeds balance (accounting for floating-point precision)
-    const exceedsBalance = (amount: number, balance: number): boolean => {
-        const roundedAmount = roundToTwoDecimals(amount);
-        const roundedBalance = roundToTwoDecimals(balance);
-        return roundedAmount > roundedBalance;
-    };
-
     // Parse swap amount safely
     const parsedSwapAmount = swapAmount ? parseFloat(swapAmount) : 0;
     const isValidSwapAmount = !isNaN(parsedSwapAmount) && parsedSwapAmount > 0;
@@ -60,7 +43,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
     // Calculate USDT amount based on swap amount
     const usdtAmount = isValidSwapAmount ? parsedSwapAmount * conversionRate : 0;
     
-    // Determine if swap is allowed (using safe floating-point comparison)
+    // Determine if swap is allowed (exact micro-unit comparison, same as the backend)
     const canSwap = isValidSwapAmount && 
                     parsedSwapAmount >= minSwapAmount && 
                     !exceedsBalance(parsedSwapAmount, currentBLSBalance);
@@ -79,9 +62,8 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
             return;
         }
 
-        // Use safe floating-point comparison
         if (exceedsBalance(amount, currentBLSBalance)) {
-            toast.error(`Insufficient BLS balance. You have ${formatBLSBalance(currentBLSBalance)} BLS`);
+            toast.error(`Insufficient BLS balance. You have ${formatAmount(currentBLSBalance)} BLS`);
             return;
         }
 
@@ -110,7 +92,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
 
     // Set max amount
     const setMaxAmount = () => {
-        setSwapAmount(formatBLSBalance(currentBLSBalance));
+        setSwapAmount(toAmountInput(currentBLSBalance));
     };
 
     // Show loading state
@@ -160,7 +142,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
                         </div>
                     </div>
                     <div className="text-3xl font-bold mb-2">
-                        {formatBLSBalance(currentBLSBalance)} <span className="text-lg text-purple-300">BLS</span>
+                        {formatAmount(currentBLSBalance)} <span className="text-lg text-purple-300">BLS</span>
                     </div>
                     <div className="text-sm text-purple-300/70">
                         BellCoin Stable (Off-chain Points)
@@ -228,7 +210,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
                             </button>
                         </div>
                         <div className="mt-2 text-xs text-slate-500">
-                            Available: {formatBLSBalance(currentBLSBalance)} BLS
+                            Available: {formatAmount(currentBLSBalance)} BLS
                         </div>
                     </div>
 
@@ -259,7 +241,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
                             )}
                             {isValidSwapAmount && exceedsBalance(parsedSwapAmount, currentBLSBalance) && (
                                 <p className="text-sm text-red-400">
-                                    Amount exceeds your BLS balance of {formatBLSBalance(currentBLSBalance)} BLS
+                                    Amount exceeds your BLS balance of {formatAmount(currentBLSBalance)} BLS
                                 </p>
                             )}
                             {canSwap && !isSwapping && (
@@ -282,7 +264,7 @@ export function SwapToCrypto({ userId }: SwapToCryptoProps) {
                                 : parsedSwapAmount < minSwapAmount
                                 ? `Minimum swap amount is ${minSwapAmount} BLS`
                                 : exceedsBalance(parsedSwapAmount, currentBLSBalance)
-                                ? `Amount exceeds your balance of ${formatBLSBalance(currentBLSBalance)} BLS`
+                                ? `Amount exceeds your balance of ${formatAmount(currentBLSBalance)} BLS`
                                 : ""
                         }
                         className={`w-full py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${
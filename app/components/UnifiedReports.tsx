@@ -7,7 +7,8 @@ import {
     Users,
     Download,
     Activity,
-    Rocket
+    Rocket,
+    TrendingDown
 } from "lucide-react";
 import {
     AreaChart,
@@ -23,11 +24,12 @@ import {
 import { SystemWideStakeReports } from "./SystemWideStakeReports";
 import { UnilevelSystemReport } from "./UnilevelSystemReport";
 import { WithdrawalFeesReport } from "./WithdrawalFeesReport";
+import { UnstakePenaltyReport } from "./UnstakePenaltyReport";
 import { BRankPayoutReport } from "./BRankPayoutReport";
 import { PresaleReportsPanel } from "./PresaleReportsPanel";
 import { ComprehensiveStakeReport } from "./ComprehensiveStakeReport";
 
-type TabId = "analytics" | "stake" | "comprehensive" | "unilevel" | "fees" | "brank" | "presale";
+type TabId = "analytics" | "stake" | "comprehensive" | "unilevel" | "fees" | "penalties" | "brank" | "presale";
 
 interface ReportTab {
     id: TabId;
@@ -54,6 +56,7 @@ export function UnifiedReports({
         { id: "comprehensive", icon: <BarChart3 size={20} />, label: "Comprehensive Report", description: "Finance Team Report" },
         { id: "unilevel", icon: <Users size={20} />, label: "Unilevel System", description: "Network Structure" },
         { id: "fees", icon: <Download size={20} />, label: "Withdrawal Fees", description: "Fee Analytics" },
+        { id: "penalties", icon: <TrendingDown size={20} />, label: "Unstake Penalties", description: "Early Exits" },
         { id: "brank", icon: <Activity size={20} />, label: "B-Rank Payouts", description: "Rank Bonuses" },
         { id: "presale", icon: <Rocket size={20} />, label: "Presale Reports", description: "Detailed Analytics" }
     ];
@@ -124,6 +127,11 @@ export function UnifiedReports({
                     <WithdrawalFeesReport />
                 )}
 
+                {/* Early Unstake Penalties Tab */}
+                {activeTab === "penalties" && (
+                    <UnstakePenaltyReport />
+                )}
+
                 {/* B-Rank Payouts Tab */}
                 {activeTab === "brank" && (
                     <BRankPayoutsTab />
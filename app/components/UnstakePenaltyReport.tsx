@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../convex/_generated/api";
+import { DollarSign, Filter, TrendingDown } from "lucide-react";
+
+type UnstakePenaltyReportData = FunctionReturnType<typeof api.admin.getUnstakePenaltyReport>;
+type CycleStats = UnstakePenaltyReportData["byCycle"][number];
+type PenaltyRow = UnstakePenaltyReportData["penalties"][number];
+
+export function UnstakePenaltyReport() {
+    const [dateRange, setDateRange] = useState<"today" | "week" | "month" | "all" | "custom">("month");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+
+    const report = useQuery(api.admin.getUnstakePenaltyReport, {
+        dateRange: dateRange,
+        startDate: startDate ? new Date(startDate).getTime() : undefined,
+        endDate: endDate ? new Date(endDate).getTime() : undefined,
+    });
+
+    if (!report) {
+        return <div className="p-8 text-center text-slate-400">Loading report data...</div>;
+    }
+
+    const { summary, byCycle, penalties } = report;
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-300">
+            {/* Header & Filters */}
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-white">Early Unstake Penalties</h2>
+                    <p className="text-slate-400 text-sm">Penalties withheld from stakes exited before maturity</p>
+                </div>
+
+                <div className="flex items-center gap-2 bg-slate-900/50 p-1 rounded-xl border border-slate-800">
+                    {(["today", "week", "month", "all", "custom"] as const).map((range) => (
+                        <button
+                            key={range}
+                            onClick={() => setDateRange(range)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all capitalize ${dateRange === range
+                                ? "bg-purple-600 text-white shadow-lg shadow-purple-500/20"
+                                : "text-slate-400 hover:text-white hover:bg-slate-800"
+                                }`}
+                        >
+                            {range}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Custom Date Range Picker */}
+            {dateRange === "custom" && (
+                <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                    <h3 className="text-sm font-medium text-slate-400 mb-4">Custom Date Range</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-400 mb-2">
+                                Start Date
+                            </label>
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-400 mb-2">
+                                End Date
+                            </label>
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                            />
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                    <div className="flex items-center gap-4 mb-4">
+                        <div className="p-3 bg-purple-500/20 rounded-xl">
+                            <DollarSign className="w-6 h-6 text-purple-400" />
+                        </div>
+                        <div>
+                            <p className="text-slate-400 text-sm">Total Penalties</p>
+                            <h3 className="text-2xl font-bold text-white">${summary.totalPenalties.toFixed(2)}</h3>
+                        </div>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                        Principal withheld on early exit
+                    </div>
+                </div>
+
+                <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                    <div className="flex items-center gap-4 mb-4">
+                        <div className="p-3 bg-emerald-500/20 rounded-xl">
+                            <TrendingDown className="w-6 h-6 text-emerald-400" />
+                        </div>
+                        <div>
+                            <p className="text-slate-400 text-sm">Principal Unstaked</p>
+                            <h3 className="text-2xl font-bold text-white">${summary.totalPrincipal.toFixed(2)}</h3>
+                        </div>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                        Total principal of penalised stakes
+                    </div>
+                </div>
+
+                <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 p-6">
+                    <div className="flex items-center gap-4 mb-4">
+                        <div className="p-3 bg-blue-500/20 rounded-xl">
+                            <Filter className="w-6 h-6 text-blue-400" />
+                        </div>
+                        <div>
+                            <p className="text-slate-400 text-sm">Early Unstakes</p>
+                            <h3 className="text-2xl font-bold text-white">{summary.count}</h3>
+                        </div>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                        {byCycle.map((c: CycleStats) => `${c.cycleDays}d: ${c.count}`).join(" · ") || "No early unstakes"}
+                    </div>
+                </div>
+            </div>
+
+            {/* Detailed Table */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800 overflow-hidden">
+                <div className="p-6 border-b border-slate-800">
+                    <h3 className="font-bold text-white">Detailed Breakdown</h3>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-slate-800/50 text-slate-400 text-sm">
+                                <th className="p-4 font-medium">Date</th>
+                                <th className="p-4 font-medium">User</th>
+                                <th className="p-4 font-medium">Plan</th>
+                                <th className="p-4 font-medium text-right">Principal</th>
+                                <th className="p-4 font-medium text-right">Penalty</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {penalties.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="p-8 text-center text-slate-500">
+                                        No early unstake penalties found for this period.
+                                    </td>
+                                </tr>
+                            ) : (
+                                penalties.map((item: PenaltyRow) => (
+                                    <tr key={item._id} className="hover:bg-slate-800/30 transition-colors">
+                                        <td className="p-4 text-slate-300 text-sm">
+                                            {new Date(item.timestamp).toLocaleString()}
+                                        </td>
+                                        <td className="p-4">
+                                            <div className="text-white font-medium text-sm">{item.userName}</div>
+                                            <div className="text-slate-500 text-xs">{item.userEmail}</div>
+                                        </td>
+                                        <td className="p-4 text-slate-300 text-sm">{item.cycleDays} Days</td>
+                                        <td className="p-4 text-right text-slate-300 font-medium">
+                                            ${item.principal.toFixed(2)}
+                                        </td>
+                                        <td className="p-4 text-right text-red-400 font-medium">
+                                            -${item.penalty.toFixed(2)}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -17,6 +17,10 @@ import type * as auth from "../auth.js";
 import type * as auth_emailVerification from "../auth/emailVerification.js";
 import type * as auth_passwordReset from "../auth/passwordReset.js";
 import type * as auth_testEmailVerification from "../auth/testEmailVerification.js";
+import type * as binary_genealogy from "../binary/genealogy.js";
+import type * as binary_legVolumes from "../binary/legVolumes.js";
+import type * as binary_pairingBonus from "../binary/pairingBonus.js";
+import type * as binary_placement from "../binary/placement.js";
 import type * as blockchainSync from "../blockchainSync.js";
 import type * as blockchainSyncTests from "../blockchainSyncTests.js";
 import type * as bls from "../bls.js";
@@ -24,6 +28,7 @@ import type * as brankMigrations from "../brankMigrations.js";
 import type * as config from "../config.js";
 import type * as configs from "../configs.js";
 import type * as contractInfo from "../contractInfo.js";
+import type * as crediting from "../crediting.js";
 import type * as crons from "../crons.js";
 import type * as depositAddress from "../depositAddress.js";
 import type * as depositListener from "../depositListener.js";
@@ -32,13 +37,24 @@ import type * as errors from "../errors.js";
 import type * as initHelpers from "../initHelpers.js";
 import type * as inspect_user from "../inspect_user.js";
 import type * as integration_depositIntegrationTests from "../integration/depositIntegrationTests.js";
+import type * as ledger from "../ledger.js";
 import type * as lowBalanceMonitor from "../lowBalanceMonitor.js";
 import type * as migrations from "../migrations.js";
+import type * as migrations_backfillBinaryLegCounts from "../migrations/backfillBinaryLegCounts.js";
+import type * as migrations_backfillBinaryLegVolumes from "../migrations/backfillBinaryLegVolumes.js";
+import type * as migrations_backfillMoneyMicros from "../migrations/backfillMoneyMicros.js";
+import type * as migrations_backfillRankAchievements from "../migrations/backfillRankAchievements.js";
+import type * as migrations_backfillUnilevelCommissions from "../migrations/backfillUnilevelCommissions.js";
 import type * as migrations_migrateToMultiAccount from "../migrations/migrateToMultiAccount.js";
+import type * as migrations_repairActiveDirects from "../migrations/repairActiveDirects.js";
+import type * as missedCommissions from "../missedCommissions.js";
+import type * as money from "../money.js";
 import type * as multiNetworkDepositListener from "../multiNetworkDepositListener.js";
 import type * as networkManagement from "../networkManagement.js";
 import type * as notifications from "../notifications.js";
+import type * as payoutCap from "../payoutCap.js";
 import type * as presale from "../presale.js";
+import type * as rankAchievements from "../rankAchievements.js";
 import type * as rankHelpers from "../rankHelpers.js";
 import type * as rankQueries from "../rankQueries.js";
 import type * as ranks from "../ranks.js";
@@ -50,6 +66,8 @@ import type * as reports_stakeExport from "../reports/stakeExport.js";
 import type * as reports_stakeExportComprehensive from "../reports/stakeExportComprehensive.js";
 import type * as reports_stakeReports from "../reports/stakeReports.js";
 import type * as reports_testData from "../reports/testData.js";
+import type * as rewardRuns from "../rewardRuns.js";
+import type * as rewardSimulation from "../rewardSimulation.js";
 import type * as rewards from "../rewards.js";
 import type * as security_inputValidator from "../security/inputValidator.js";
 import type * as security_rateLimiter from "../security/rateLimiter.js";
@@ -88,6 +106,10 @@ declare const fullApi: ApiFromModules<{
   "auth/emailVerification": typeof auth_emailVerification;
   "auth/passwordReset": typeof auth_passwordReset;
   "auth/testEmailVerification": typeof auth_testEmailVerification;
+  "binary/genealogy": typeof binary_genealogy;
+  "binary/legVolumes": typeof binary_legVolumes;
+  "binary/pairingBonus": typeof binary_pairingBonus;
+  "binary/placement": typeof binary_placement;
   blockchainSync: typeof blockchainSync;
   blockchainSyncTests: typeof blockchainSyncTests;
   bls: typeof bls;
@@ -95,6 +117,7 @@ declare const fullApi: ApiFromModules<{
   config: typeof config;
   configs: typeof configs;
   contractInfo: typeof contractInfo;
+  crediting: typeof crediting;
   crons: typeof crons;
   depositAddress: typeof depositAddress;
   depositListener: typeof depositListener;
@@ -103,13 +126,24 @@ declare const fullApi: ApiFromModules<{
   initHelpers: typeof initHelpers;
   inspect_user: typeof inspect_user;
   "integration/depositIntegrationTests": typeof integration_depositIntegrationTests;
+  ledger: typeof ledger;
   lowBalanceMonitor: typeof lowBalanceMonitor;
   migrations: typeof migrations;
+  "migrations/backfillBinaryLegCounts": typeof migrations_backfillBinaryLegCounts;
+  "migrations/backfillBinaryLegVolumes": typeof migrations_backfillBinaryLegVolumes;
+  "migrations/backfillMoneyMicros": typeof migrations_backfillMoneyMicros;
+  "migrations/backfillRankAchievements": typeof migrations_backfillRankAchievements;
+  "migrations/backfillUnilevelCommissions": typeof migrations_backfillUnilevelCommissions;
   "migrations/migrateToMultiAccount": typeof migrations_migrateToMultiAccount;
+  "migrations/repairActiveDirects": typeof migrations_repairActiveDirects;
+  missedCommissions: typeof missedCommissions;
+  money: typeof money;
   multiNetworkDepositListener: typeof multiNetworkDepositListener;
   networkManagement: typeof networkManagement;
   notifications: typeof notifications;
+  payoutCap: typeof payoutCap;
   presale: typeof presale;
+  rankAchievements: typeof rankAchievements;
   rankHelpers: typeof rankHelpers;
   rankQueries: typeof rankQueries;
   ranks: typeof ranks;
@@ -121,6 +155,8 @@ declare const fullApi: ApiFromModules<{
   "reports/stakeExportComprehensive": typeof reports_stakeExportComprehensive;
   "reports/stakeReports": typeof reports_stakeReports;
   "reports/testData": typeof reports_testData;
+  rewardRuns: typeof rewardRuns;
+  rewardSimulation: typeof rewardSimulation;
   rewards: typeof rewards;
   "security/inputValidator": typeof security_inputValidator;
   "security/rateLimiter": typeof security_rateLimiter;
@@ -2,32 +2,9 @@ import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
 import { createError, ErrorCodes } from "./errors";
-
-/**
- * Helper to find the next empty spot in binary tree (for accounts)
- */
-async function findBinaryPlacement(ctx: any, rootId: Id<"accounts">, strategy: string) {
-    // Simple BFS for "balanced" (fill top to bottom, left to right)
-    // Or "weak_leg" logic (requires volume tracking per leg, which we haven't fully implemented yet)
-    // For MVP, we'll default to "Balanced" (BFS)
-
-    let queue = [rootId];
-
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const account = await ctx.db.get(currentId);
-        if (!account) continue;
-
-        if (!account.leftLegId) return { parentId: currentId, position: "left" as const };
-        if (!account.rightLegId) return { parentId: currentId, position: "right" as const };
-
-        queue.push(account.leftLegId);
-        queue.push(account.rightLegId);
-    }
-
-    // Should not happen in a tree
-    return { parentId: rootId, position: "left" as const };
-}
+import { findBinaryPlacement, getPlacementStrategy, referralPlacementValidator } from "./binary/placement";
+import { updateBinaryLegCounts } from "./binary/legVolumes";
+import { updateRankForDirects } from "./ranks";
 
 /**
  * Account Management
@@ -67,15 +44,11 @@ export const createAccount = mutation({
         }
 
         // 4. Binary Placement Logic (same as user registration)
-        const config = await ctx.db
-            .query("configs")
-            .withIndex("by_key", (q) => q.eq("key", "placement_strategy"))
-            .unique();
-        const strategy = config?.value || "balanced";
+        const strategy = await getPlacementStrategy(ctx, referralCode);
 
         // Find placement in referrer's binary tree
         const placement = await findBinaryPlacement(ctx, referrerAccount._id, strategy);
-        const parentId = placement.parentId;
+        const parentId = placement.parentId as Id<"accounts">;
         const position = placement.position;
 
         // 5. Generate unique referral code for new account
@@ -106,19 +79,22 @@ export const createAccount = mutation({
             teamVolume: 0,
             directReferralsCount: 0,
             walletBalance: 0,
+            walletBalanceMicros: 0,
             createdAt: Date.now(),
         });
 
-        // 7. Update referrer's direct referrals count
+        // 7. Update referrer's direct referrals count (and re-check their rank)
         await ctx.db.patch(referrerAccount._id, {
             directReferralsCount: referrerAccount.directReferralsCount + 1,
         });
+        await updateRankForDirects(ctx, referrerAccount._id);
 
         // 8. Update parent's leg reference
         if (parentId && position) {
             await ctx.db.patch(parentId, {
                 [position === "left" ? "leftLegId" : "rightLegId"]: accountId,
             });
+            await updateBinaryLegCounts(ctx, accountId);
         }
 
         // 9. Create account_member record (owner)
@@ -203,6 +179,35 @@ export const updateAccount = mutation({
     },
 });
 
+/**
+ * Choose where members joining with the account's referral code are placed
+ * placement: left_leg / right_leg / weak_leg, or unset for the platform default
+ */
+export const setReferralPlacement = mutation({
+    args: {
+        accountId: v.id("accounts"),
+        loginId: v.id("logins"),
+        placement: v.optional(referralPlacementValidator),
+    },
+    handler: async (ctx, args) => {
+        const account = await ctx.db.get(args.accountId);
+        if (!account || account.isDeleted) {
+            throw createError(ErrorCodes.USER_NOT_FOUND, 'Account not found');
+        }
+
+        // Verify ownership
+        if (account.loginId !== args.loginId) {
+            throw createError(ErrorCodes.UNAUTHORIZED, 'You can only change your own referral link');
+        }
+
+        await ctx.db.patch(args.accountId, {
+            referralPlacement: args.placement,
+        });
+
+        return { success: true };
+    },
+});
+
 /**
  * Set default account for a login
  */
@@ -1,6 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { toMicros } from "./money";
 
 /**
  * Admin Reports and Analytics
@@ -758,6 +759,92 @@ export const getWithdrawalFeesReport = query({
     },
 });
 
+// ==================== EARLY UNSTAKE PENALTY REPORT ====================
+
+export const getUnstakePenaltyReport = query({
+    args: {
+        dateRange: v.union(
+            v.literal("today"),
+            v.literal("week"),
+            v.literal("month"),
+            v.literal("all"),
+            v.literal("custom")
+        ),
+        startDate: v.optional(v.number()),
+        endDate: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        let filterStartDate = 0;
+        let filterEndDate = now;
+
+        // Calculate date range
+        if (args.dateRange === "today") {
+            const today = new Date();
+            today.setHours(0, 0, 0, 0);
+            filterStartDate = today.getTime();
+        } else if (args.dateRange === "week") {
+            filterStartDate = now - (7 * 24 * 60 * 60 * 1000);
+        } else if (args.dateRange === "month") {
+            filterStartDate = now - (30 * 24 * 60 * 60 * 1000);
+        } else if (args.dateRange === "custom" && args.startDate && args.endDate) {
+            filterStartDate = args.startDate;
+            filterEndDate = args.endDate;
+        }
+
+        const penaltyTransactions = await ctx.db
+            .query("transactions")
+            .withIndex("by_type", (q) => q.eq("type", "unstake_penalty"))
+            .collect();
+
+        const filtered = penaltyTransactions.filter(t =>
+            t.timestamp >= filterStartDate &&
+            t.timestamp <= filterEndDate
+        );
+
+        // Join with stake and owner info
+        const penalties = await Promise.all(filtered.map(async (t) => {
+            const stake = t.referenceId ? await ctx.db.get(t.referenceId as Id<"stakes">) : null;
+            const account = t.accountId ? await ctx.db.get(t.accountId) : null;
+            const login = account ? await ctx.db.get(account.loginId) : null;
+            const user = !account && t.userId ? await ctx.db.get(t.userId) : null;
+            return {
+                _id: t._id,
+                stakeId: stake?._id,
+                userName: account?.name || user?.name || "Unknown",
+                userEmail: login?.email || user?.email || "Unknown",
+                cycleDays: stake?.cycleDays || 0,
+                principal: stake?.amount || 0,
+                penalty: Math.abs(t.amount),
+                timestamp: t.timestamp,
+            };
+        }));
+
+        // Aggregate per cycle
+        const byCycle: Record<number, { count: number; totalPenalty: number; totalPrincipal: number }> = {};
+        for (const p of penalties) {
+            if (!byCycle[p.cycleDays]) {
+                byCycle[p.cycleDays] = { count: 0, totalPenalty: 0, totalPrincipal: 0 };
+            }
+            byCycle[p.cycleDays].count++;
+            byCycle[p.cycleDays].totalPenalty += p.penalty;
+            byCycle[p.cycleDays].totalPrincipal += p.principal;
+        }
+
+        return {
+            summary: {
+                totalPenalties: penalties.reduce((sum, p) => sum + p.penalty, 0),
+                totalPrincipal: penalties.reduce((sum, p) => sum + p.principal, 0),
+                count: penalties.length,
+            },
+            byCycle: Object.entries(byCycle)
+                .map(([days, stats]) => ({ cycleDays: Number(days), ...stats }))
+                .sort((a, b) => a.cycleDays - b.cycleDays),
+            penalties: penalties.sort((a, b) => b.timestamp - a.timestamp),
+        };
+    },
+});
+
 // ==================== B-RANK PAYOUT REPORT ====================
 
 export const getBRankPayoutReport = query({
@@ -882,14 +969,42 @@ export const getBRankPayoutReport = query({
             };
         }).reverse();
 
+        // One-time rank achievement rewards paid in the range (rankAchievements.ts)
+        const achievementRows = await ctx.db
+            .query("rank_achievements")
+            .withIndex("by_achievedAt", (q) => q.gte("achievedAt", filterStartDate).lte("achievedAt", filterEndDate))
+            .collect();
+
+        const achievements = await Promise.all(achievementRows
+            .filter(a => a.paid > 0)
+            .map(async (a) => {
+                const account = await ctx.db.get(a.accountId);
+                const login = account ? await ctx.db.get(account.loginId) : null;
+                const isBLS = a.currency === "BLS";
+                return {
+                    _id: a._id,
+                    userName: account?.name || "Unknown",
+                    userEmail: login?.email || "Unknown",
+                    rank: a.rank,
+                    amount: isBLS ? a.paid * conversionRate : a.paid, // USDT equivalent
+                    blsAmount: isBLS ? a.paid : null,
+                    isBLS,
+                    timestamp: a.achievedAt,
+                };
+            }));
+        achievements.sort((a, b) => b.timestamp - a.timestamp);
+
         return {
             summary: {
                 totalPaid,
                 totalBLS: blsConfig?.isEnabled ? totalBLS : null,
                 count,
                 averagePayout,
+                achievementsPaid: achievements.reduce((sum, a) => sum + a.amount, 0),
+                achievementCount: achievements.length,
             },
             transactions: transactionsWithRunningTotal,
+            achievements,
             isBLSEnabled: blsConfig?.isEnabled || false,
             conversionRate: conversionRate,
         };
@@ -1258,7 +1373,7 @@ export const convertAllOrders = mutation({
         // Import required functions
         const { notify } = await import("./notifications");
         const { updateTeamVolume } = await import("./ranks");
-        const { updateActiveDirects } = await import("./unilevel/activeDirectsCalculator");
+        const { syncReferrerActiveDirects } = await import("./unilevel/activeDirectsCalculator");
 
         for (const order of orders) {
             const { userId, totalAmount } = order;
@@ -1269,6 +1384,7 @@ export const convertAllOrders = mutation({
             const stakeId = await ctx.db.insert("stakes", {
                 userId,
                 amount: totalAmount,
+                amountMicros: toMicros(totalAmount),
                 cycleDays: 365, // 1 year
                 dailyRate: config.stakingDailyRate,
                 startDate: now,
@@ -1281,6 +1397,7 @@ export const convertAllOrders = mutation({
             await ctx.db.insert("transactions", {
                 userId,
                 amount: totalAmount,
+                amountMicros: toMicros(totalAmount),
                 type: "deposit",
                 referenceId: stakeId,
                 description: `Presale Node Converted: ${order.quantity} node(s) → $${totalAmount} stake (1 year)`,
@@ -1291,9 +1408,7 @@ export const convertAllOrders = mutation({
             await updateTeamVolume(ctx, userId, totalAmount);
 
             // Update referrer's active directs count (for Unilevel unlock)
-            if (user.referrerId) {
-                await updateActiveDirects(ctx, user.referrerId);
-            }
+            await syncReferrerActiveDirects(ctx, user._id, "activated");
 
             // Track user stakes for notification
             if (!userStakes.has(userId)) {
@@ -16,7 +16,8 @@ export const createAlert = mutation({
             v.literal("deposit_paused"),
             v.literal("withdrawal_failed"),
             v.literal("network_error"),
-            v.literal("sync_error")
+            v.literal("sync_error"),
+            v.literal("ledger_drift")
         ),
         network: v.optional(v.string()),
         severity: v.union(v.literal("info"), v.literal("warning"), v.literal("critical")),
@@ -218,6 +219,7 @@ export const getAlertStats = query({
                 withdrawal_failed: allAlerts.filter(a => a.type === "withdrawal_failed").length,
                 network_error: allAlerts.filter(a => a.type === "network_error").length,
                 sync_error: allAlerts.filter(a => a.type === "sync_error").length,
+                ledger_drift: allAlerts.filter(a => a.type === "ledger_drift").length,
             },
         };
 
@@ -1,7 +1,11 @@
 import { mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
 import { updateRank, updateTeamVolume } from "./ranks";
 import { createError, ErrorCodes, isValidRankName, isValidAmount } from "./errors";
+import { MAX_REFERRAL_BONUS_LEVELS } from "./config";
+import { placementStrategyValidator } from "./binary/placement";
+import { getUnilevelPlan, MAX_UNILEVEL_LEVELS } from "./unilevel/commissionRates";
 
 // Force rebuild - B-Rank Capping Migrations Added
 
@@ -9,6 +13,7 @@ import { createError, ErrorCodes, isValidRankName, isValidAmount } from "./error
  * Admin Mutations
  * 
  * Create, update, and delete B-Ranks and Staking Cycles
+ * Edit referral bonus levels, the unilevel plan, the global payout cap and binary placement
  */
 
 // ==================== B-RANK MANAGEMENT ====================
@@ -24,6 +29,9 @@ export const createVRank = mutation({
         }),
         commissionRate: v.number(),
         cappingMultiplier: v.number(), // e.g., 2 for 2x of active stake
+        activeDirectsOnly: v.optional(v.boolean()), // Only directs with an active stake count
+        maxLegContributionPercent: v.optional(v.number()), // Max % of minTeamVolume from one direct's leg
+        achievementReward: v.optional(v.number()), // One-time reward for first reaching the rank
     },
     handler: async (ctx, args) => {
         // Validate input
@@ -39,6 +47,14 @@ export const createVRank = mutation({
             throw createError(ErrorCodes.INVALID_RANK_CONFIG, 'Commission rate must be between 0 and 100');
         }
 
+        if (args.maxLegContributionPercent !== undefined && (args.maxLegContributionPercent <= 0 || args.maxLegContributionPercent > 100)) {
+            throw createError(ErrorCodes.INVALID_RANK_CONFIG, 'Max leg contribution must be between 0 and 100%');
+        }
+
+        if (args.achievementReward !== undefined && !isValidAmount(args.achievementReward, 0)) {
+            throw createError(ErrorCodes.INVALID_RANK_CONFIG, 'Achievement reward must be a positive number');
+        }
+
         const config = await ctx.db
             .query("configs")
             .withIndex("by_key", (q) => q.eq("key", "rank_rules"))
@@ -60,6 +76,9 @@ export const createVRank = mutation({
             requiredRankDirects: args.requiredRankDirects,
             commissionRate: args.commissionRate,
             cappingMultiplier: args.cappingMultiplier,
+            activeDirectsOnly: args.activeDirectsOnly,
+            maxLegContributionPercent: args.maxLegContributionPercent,
+            achievementReward: args.achievementReward,
         }];
 
         // Update config
@@ -84,8 +103,19 @@ export const updateVRank = mutation({
         }),
         commissionRate: v.number(),
         cappingMultiplier: v.number(), // e.g., 2 for 2x of active stake
+        activeDirectsOnly: v.optional(v.boolean()), // Only directs with an active stake count
+        maxLegContributionPercent: v.optional(v.number()), // Max % of minTeamVolume from one direct's leg
+        achievementReward: v.optional(v.number()), // One-time reward for first reaching the rank
     },
     handler: async (ctx, args) => {
+        if (args.maxLegContributionPercent !== undefined && (args.maxLegContributionPercent <= 0 || args.maxLegContributionPercent > 100)) {
+            throw createError(ErrorCodes.INVALID_RANK_CONFIG, 'Max leg contribution must be between 0 and 100%');
+        }
+
+        if (args.achievementReward !== undefined && !isValidAmount(args.achievementReward, 0)) {
+            throw createError(ErrorCodes.INVALID_RANK_CONFIG, 'Achievement reward must be a positive number');
+        }
+
         const config = await ctx.db
             .query("configs")
             .withIndex("by_key", (q) => q.eq("key", "rank_rules"))
@@ -107,6 +137,9 @@ export const updateVRank = mutation({
                     requiredRankDirects: args.requiredRankDirects,
                     commissionRate: args.commissionRate,
                     cappingMultiplier: args.cappingMultiplier,
+                    activeDirectsOnly: args.activeDirectsOnly,
+                    maxLegContributionPercent: args.maxLegContributionPercent,
+                    achievementReward: args.achievementReward,
                 };
             }
             return r;
@@ -152,12 +185,264 @@ export const deleteVRank = mutation({
     },
 });
 
+// ==================== REFERRAL BONUS LEVELS ====================
+
+/**
+ * Replace the referral bonus levels (commission_rates config)
+ * rates[0] is the L1 rate, rates[1] L2, ... as % of the referral's daily yield
+ */
+export const updateCommissionRates = mutation({
+    args: {
+        rates: v.array(v.number()),
+    },
+    handler: async (ctx, args) => {
+        if (args.rates.length < 1 || args.rates.length > MAX_REFERRAL_BONUS_LEVELS) {
+            throw new Error(`Referral bonuses need between 1 and ${MAX_REFERRAL_BONUS_LEVELS} levels`);
+        }
+        for (const rate of args.rates) {
+            if (!isFinite(rate) || rate < 0 || rate > 100) {
+                throw new Error("Referral bonus rates must be between 0 and 100%");
+            }
+        }
+        const total = args.rates.reduce((sum, rate) => sum + rate, 0);
+        if (total > 100) {
+            throw new Error(`Referral bonus rates add up to ${total}%, which exceeds 100% of the daily yield`);
+        }
+
+        const value: Record<string, number> = {};
+        args.rates.forEach((rate, index) => {
+            value[`L${index + 1}`] = rate;
+        });
+
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "commission_rates"))
+            .unique();
+
+        if (config) {
+            await ctx.db.patch(config._id, { value });
+        } else {
+            await ctx.db.insert("configs", { key: "commission_rates", value });
+        }
+
+        return { success: true, message: `Referral bonus levels updated (${args.rates.length} levels)` };
+    },
+});
+
+// ==================== UNILEVEL PLAN ====================
+
+/**
+ * Save a new version of the unilevel plan (unilevel_plan config)
+ * rates[0] is the L1 rate, rates[1] L2, ... as % of the source yield.
+ * The previous plan stays in unilevel_plan_history; commissions paid from now on
+ * record the new version.
+ */
+export const updateUnilevelPlan = mutation({
+    args: {
+        rates: v.array(v.number()),
+        directsPerLevel: v.number(),   // Active directs needed per unlocked level
+        minPersonalStake: v.number(),  // Active principal an upline member needs to earn
+        compression: v.optional(v.boolean()), // Pass unqualified/inactive uplines' levels up the tree
+    },
+    handler: async (ctx, args) => {
+        if (args.rates.length < 1 || args.rates.length > MAX_UNILEVEL_LEVELS) {
+            throw new Error(`The unilevel plan needs between 1 and ${MAX_UNILEVEL_LEVELS} levels`);
+        }
+        for (const rate of args.rates) {
+            if (!isFinite(rate) || rate < 0 || rate > 100) {
+                throw new Error("Unilevel rates must be between 0 and 100%");
+            }
+        }
+        const total = args.rates.reduce((sum, rate) => sum + rate, 0);
+        if (total > 100) {
+            throw new Error(`Unilevel rates add up to ${total}%, which exceeds 100% of the yield`);
+        }
+        if (!isFinite(args.directsPerLevel) || args.directsPerLevel <= 0) {
+            throw new Error("Active directs per level must be greater than 0");
+        }
+        if (!isFinite(args.minPersonalStake) || args.minPersonalStake < 0) {
+            throw new Error("Minimum personal stake cannot be negative");
+        }
+
+        const current = await getUnilevelPlan(ctx);
+        const value = {
+            version: current.version + 1,
+            rates: args.rates,
+            directsPerLevel: args.directsPerLevel,
+            minPersonalStake: args.minPersonalStake,
+            compression: args.compression ?? false,
+        };
+
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "unilevel_plan"))
+            .unique();
+
+        if (config) {
+            await ctx.db.patch(config._id, { value });
+        } else {
+            await ctx.db.insert("configs", { key: "unilevel_plan", value });
+        }
+
+        await ctx.db.insert("unilevel_plan_history", { ...value, createdAt: Date.now() });
+
+        // Recompute cached unlocked levels under the new unlock rule
+        if (value.directsPerLevel !== current.directsPerLevel || value.rates.length !== current.rates.length) {
+            await ctx.scheduler.runAfter(0, internal.migrations.repairActiveDirects.repairActiveDirects, {});
+        }
+
+        return { success: true, message: `Unilevel plan v${value.version} saved (${args.rates.length} levels)` };
+    },
+});
+
+// ==================== GLOBAL PAYOUT CAP ====================
+
+/**
+ * Enable/disable the global payout cap and set its multiplier
+ * Max lifetime earnings per account = multiplier × active principal
+ */
+export const updatePayoutCap = mutation({
+    args: {
+        enabled: v.boolean(),
+        multiplier: v.number(),
+    },
+    handler: async (ctx, args) => {
+        if (!isFinite(args.multiplier) || args.multiplier <= 0) {
+            throw new Error("Payout cap multiplier must be greater than 0");
+        }
+
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "payout_cap"))
+            .unique();
+
+        const value = { enabled: args.enabled, multiplier: args.multiplier };
+        if (config) {
+            await ctx.db.patch(config._id, { value });
+        } else {
+            await ctx.db.insert("configs", { key: "payout_cap", value });
+        }
+
+        return {
+            success: true,
+            message: args.enabled
+                ? `Payout cap enabled at ${args.multiplier}x active principal`
+                : "Payout cap disabled",
+        };
+    },
+});
+
+// ==================== BINARY PAIRING BONUS ====================
+
+/**
+ * Update the binary pairing bonus config
+ * pairingRate: % of matched (weak leg) volume paid per day
+ * dailyCaps: max bonus per day by rank (ranks left out are not capped)
+ */
+export const updateBinaryBonusConfig = mutation({
+    args: {
+        enabled: v.boolean(),
+        pairingRate: v.number(),
+        dailyCaps: v.record(v.string(), v.number()),
+    },
+    handler: async (ctx, args) => {
+        if (!isFinite(args.pairingRate) || args.pairingRate <= 0 || args.pairingRate > 100) {
+            throw new Error("Pairing rate must be between 0 and 100%");
+        }
+        for (const [rank, cap] of Object.entries(args.dailyCaps)) {
+            if (!isFinite(cap) || cap < 0) {
+                throw new Error(`Daily cap for ${rank} must be 0 or more`);
+            }
+        }
+
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "binary_bonus"))
+            .unique();
+
+        const value = { enabled: args.enabled, pairingRate: args.pairingRate, dailyCaps: args.dailyCaps };
+        if (config) {
+            await ctx.db.patch(config._id, { value });
+        } else {
+            await ctx.db.insert("configs", { key: "binary_bonus", value });
+        }
+
+        return {
+            success: true,
+            message: args.enabled
+                ? `Binary bonus enabled at ${args.pairingRate}% of paired volume`
+                : "Binary bonus disabled",
+        };
+    },
+});
+
+// ==================== BINARY PLACEMENT ====================
+
+/**
+ * Set the global binary placement strategy
+ * Referral links that carry their own strategy still override it
+ */
+export const updatePlacementStrategy = mutation({
+    args: {
+        strategy: placementStrategyValidator,
+    },
+    handler: async (ctx, args) => {
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "placement_strategy"))
+            .unique();
+
+        if (config) {
+            await ctx.db.patch(config._id, { value: args.strategy });
+        } else {
+            await ctx.db.insert("configs", { key: "placement_strategy", value: args.strategy });
+        }
+
+        return {
+            success: true,
+            message: `Placement strategy set to ${args.strategy}`,
+        };
+    },
+});
+
 // ==================== STAKING CYCLE MANAGEMENT ====================
 
+const earlyUnstakePenaltiesValidator = v.optional(v.array(v.object({
+    minDaysServed: v.number(),
+    penaltyPercent: v.number(),
+})));
+
+/**
+ * Validate and sort an early unstake penalty schedule
+ */
+function normalizeEarlyUnstakePenalties(
+    cycleDays: number,
+    penalties?: Array<{ minDaysServed: number; penaltyPercent: number }>
+) {
+    if (!penalties) return undefined;
+
+    const seen = new Set<number>();
+    for (const p of penalties) {
+        if (p.penaltyPercent < 0 || p.penaltyPercent > 100) {
+            throw new Error("Early unstake penalty must be between 0 and 100%");
+        }
+        if (p.minDaysServed < 0 || p.minDaysServed >= cycleDays) {
+            throw new Error(`Penalty tiers must start between day 0 and day ${cycleDays - 1}`);
+        }
+        if (seen.has(p.minDaysServed)) {
+            throw new Error(`Duplicate penalty tier for day ${p.minDaysServed}`);
+        }
+        seen.add(p.minDaysServed);
+    }
+
+    return [...penalties].sort((a, b) => a.minDaysServed - b.minDaysServed);
+}
+
 export const createStakingCycle = mutation({
     args: {
         days: v.number(),
         dailyRate: v.number(),
+        earlyUnstakePenalties: earlyUnstakePenaltiesValidator,
     },
     handler: async (ctx, args) => {
         const config = await ctx.db
@@ -177,6 +462,7 @@ export const createStakingCycle = mutation({
         const newCycles = [...currentCycles, {
             days: args.days,
             dailyRate: args.dailyRate,
+            earlyUnstakePenalties: normalizeEarlyUnstakePenalties(args.days, args.earlyUnstakePenalties),
         }];
 
         // Sort by days
@@ -197,6 +483,7 @@ export const updateStakingCycle = mutation({
     args: {
         days: v.number(),
         dailyRate: v.number(),
+        earlyUnstakePenalties: earlyUnstakePenaltiesValidator,
     },
     handler: async (ctx, args) => {
         const config = await ctx.db
@@ -209,13 +496,15 @@ export const updateStakingCycle = mutation({
         }
 
         const currentCycles = config.value || [];
+        const earlyUnstakePenalties = normalizeEarlyUnstakePenalties(args.days, args.earlyUnstakePenalties);
 
-        // Find and update the cycle
+        // Find and update the cycle (keep the existing penalty schedule unless a new one is given)
         const updatedCycles = currentCycles.map((c: any) => {
             if (c.days === args.days) {
                 return {
                     days: args.days,
                     dailyRate: args.dailyRate,
+                    earlyUnstakePenalties: earlyUnstakePenalties ?? c.earlyUnstakePenalties,
                 };
             }
             return c;
@@ -252,6 +541,43 @@ export const deleteStakingCycle = mutation({
     },
 });
 
+// ==================== RANK GRACE PERIOD ====================
+
+/**
+ * Update the rank grace period
+ * days: how long a member keeps their rank after they stop qualifying
+ */
+export const updateRankGracePeriod = mutation({
+    args: {
+        enabled: v.boolean(),
+        days: v.number(),
+    },
+    handler: async (ctx, args) => {
+        if (!Number.isInteger(args.days) || args.days < 1 || args.days > 90) {
+            throw new Error("Grace period must be between 1 and 90 days");
+        }
+
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "rank_grace_period"))
+            .unique();
+
+        const value = { enabled: args.enabled, days: args.days };
+        if (config) {
+            await ctx.db.patch(config._id, { value });
+        } else {
+            await ctx.db.insert("configs", { key: "rank_grace_period", value });
+        }
+
+        return {
+            success: true,
+            message: args.enabled
+                ? `Rank grace period set to ${args.days} days`
+                : "Rank grace period disabled - downgrades apply immediately",
+        };
+    },
+});
+
 // ==================== USER MANAGEMENT ====================
 
 export const updateUserRank = mutation({
@@ -267,6 +593,18 @@ export const updateUserRank = mutation({
 
         await ctx.db.patch(args.userId, { currentRank: args.newRank });
 
+        if (user.currentRank !== args.newRank) {
+            await ctx.db.insert("rank_history", {
+                userId: args.userId,
+                oldRank: user.currentRank,
+                newRank: args.newRank,
+                reason: "manual",
+                teamVolume: user.teamVolume || 0,
+                directReferrals: user.directReferralsCount,
+                timestamp: Date.now(),
+            });
+        }
+
         return { success: true, message: `User rank updated to ${args.newRank}` };
     },
 });
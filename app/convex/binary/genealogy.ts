@@ -0,0 +1,104 @@
+import { query, QueryCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Id } from "../_generated/dataModel";
+import { createError, ErrorCodes } from "../errors";
+
+/**
+ * Binary Genealogy
+ * The placement tree built from leftLegId/rightLegId (getUnilevelTree in users.ts walks
+ * the sponsor tree instead). Returned a few levels at a time: nodes on the last level
+ * have hasMore set when they have children, and the viewer loads the next page by
+ * querying again with that node as the root.
+ */
+
+const DEFAULT_GENEALOGY_DEPTH = 3;
+const MAX_GENEALOGY_DEPTH = 5;
+
+export type BinaryGenealogyNode = {
+    accountId: Id<"accounts">;
+    name: string;
+    referralCode: string;
+    currentRank: string;
+    position?: "left" | "right";
+    sponsorId?: Id<"accounts">;
+    leftLegVolume: number;
+    rightLegVolume: number;
+    leftLegCount: number;
+    rightLegCount: number;
+    left: BinaryGenealogyNode | null;
+    right: BinaryGenealogyNode | null;
+    hasMore: boolean; // Has children below the returned levels
+};
+
+async function buildNode(
+    ctx: QueryCtx,
+    accountId: Id<"accounts">,
+    levelsLeft: number
+): Promise<BinaryGenealogyNode | null> {
+    const account = await ctx.db.get(accountId);
+    if (!account) return null;
+
+    const hasChildren = !!(account.leftLegId || account.rightLegId);
+    const expand = levelsLeft > 0;
+
+    return {
+        accountId: account._id,
+        name: account.name,
+        referralCode: account.referralCode,
+        currentRank: account.currentRank || "B0",
+        position: account.position,
+        sponsorId: account.referrerId,
+        leftLegVolume: account.leftLegVolume || 0,
+        rightLegVolume: account.rightLegVolume || 0,
+        leftLegCount: account.leftLegCount || 0,
+        rightLegCount: account.rightLegCount || 0,
+        left: expand && account.leftLegId ? await buildNode(ctx, account.leftLegId, levelsLeft - 1) : null,
+        right: expand && account.rightLegId ? await buildNode(ctx, account.rightLegId, levelsLeft - 1) : null,
+        hasMore: !expand && hasChildren,
+    };
+}
+
+/**
+ * Get one page of an account's binary genealogy
+ * loginId: the caller's login - must own accountId
+ * rootId: node to start from (defaults to accountId). Must be accountId or one of its
+ * downline, so members can page through their own tree but not their upline's.
+ * depth: levels below the root to include (default 3, max 5)
+ */
+export const getBinaryGenealogy = query({
+    args: {
+        accountId: v.id("accounts"),
+        loginId: v.id("logins"),
+        rootId: v.optional(v.id("accounts")),
+        depth: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        // Verify ownership
+        const account = await ctx.db.get(args.accountId);
+        if (!account || account.isDeleted || account.loginId !== args.loginId) {
+            throw createError(ErrorCodes.UNAUTHORIZED, 'Account not found or access denied');
+        }
+
+        const rootId = args.rootId ?? args.accountId;
+        const depth = Math.min(Math.max(Math.floor(args.depth ?? DEFAULT_GENEALOGY_DEPTH), 1), MAX_GENEALOGY_DEPTH);
+
+        // 1. Walk up from the root to the account, collecting the path back to it
+        const path: Array<{ accountId: Id<"accounts">; name: string; position?: "left" | "right" }> = [];
+        let current = await ctx.db.get(rootId);
+        while (current && current._id !== args.accountId) {
+            path.unshift({ accountId: current._id, name: current.name, position: current.position });
+            current = current.parentId ? await ctx.db.get(current.parentId) : null;
+        }
+        if (!current) return null; // Root is not in the account's downline
+
+        // 2. Build the requested levels
+        const tree = await buildNode(ctx, rootId, depth);
+
+        return {
+            tree,
+            depth,
+            // Nodes between the account and the root (root last), for breadcrumb navigation
+            path,
+        };
+    },
+});
@@ -0,0 +1,110 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { addMoney } from "../money";
+
+// Binary trees grow deep through spillover - stop walking up after this many levels
+const MAX_BINARY_DEPTH = 200;
+
+/**
+ * Which of the parent's legs the child sits in
+ * Prefers the parent's leg pointers; falls back to the child's recorded position.
+ */
+export function getLegSide(parent: Doc<"accounts">, child: Doc<"accounts">): "left" | "right" | undefined {
+    if (parent.leftLegId === child._id) return "left";
+    if (parent.rightLegId === child._id) return "right";
+    return child.position;
+}
+
+/**
+ * New leg volume after a change; a result below zero means the stored volume drifted
+ * from the active stakes under the leg, so it is logged and the leg is reset to zero
+ * until migrations/backfillBinaryLegVolumes recomputes it.
+ */
+function nextLegVolume(parent: Doc<"accounts">, side: "left" | "right", current: number, amount: number): number {
+    const next = addMoney(current, amount);
+    if (next >= 0) return next;
+
+    console.error(
+        `Binary leg volume drift: account ${parent._id} ${side} leg ${current} + ${amount} = ${next}, reset to 0`
+    );
+    return 0;
+}
+
+/**
+ * Update binary leg volumes for every ancestor in the placement tree (parentId chain)
+ * Each ancestor gets the amount on the leg (left/right) the account sits under.
+ *
+ * @param ctx - Mutation context
+ * @param accountId - Account whose stake changed
+ * @param amount - Principal added (positive) or removed (negative)
+ * @param options.pairable - Also add to the unpaired volume the pairing bonus matches
+ *   (new stakes only; matured/unstaked principal and renewals never create new pairs)
+ */
+export async function updateBinaryLegVolumes(
+    ctx: MutationCtx,
+    accountId: Id<"accounts">,
+    amount: number,
+    options: { pairable?: boolean } = {}
+) {
+    if (amount === 0) return;
+
+    let child = await ctx.db.get(accountId);
+    let depth = 0;
+
+    while (child?.parentId && depth < MAX_BINARY_DEPTH) {
+        const parent = await ctx.db.get(child.parentId);
+        if (!parent) break;
+
+        const side = getLegSide(parent, child);
+        if (!side) break;
+
+        if (side === "left") {
+            await ctx.db.patch(parent._id, {
+                leftLegVolume: nextLegVolume(parent, "left", parent.leftLegVolume || 0, amount),
+                ...(options.pairable && amount > 0
+                    ? { leftPairingVolume: addMoney(parent.leftPairingVolume || 0, amount) }
+                    : {}),
+            });
+        } else {
+            await ctx.db.patch(parent._id, {
+                rightLegVolume: nextLegVolume(parent, "right", parent.rightLegVolume || 0, amount),
+                ...(options.pairable && amount > 0
+                    ? { rightPairingVolume: addMoney(parent.rightPairingVolume || 0, amount) }
+                    : {}),
+            });
+        }
+
+        child = parent;
+        depth++;
+    }
+}
+
+/**
+ * Update binary leg member counts for every ancestor in the placement tree
+ * Called once when an account is placed (+1); the backfill migration recounts from scratch.
+ *
+ * @param ctx - Mutation context
+ * @param accountId - Account that was placed
+ * @param delta - Members added (positive) or removed (negative)
+ */
+export async function updateBinaryLegCounts(ctx: MutationCtx, accountId: Id<"accounts">, delta: number = 1) {
+    let child = await ctx.db.get(accountId);
+    let depth = 0;
+
+    while (child?.parentId && depth < MAX_BINARY_DEPTH) {
+        const parent = await ctx.db.get(child.parentId);
+        if (!parent) break;
+
+        const side = getLegSide(parent, child);
+        if (!side) break;
+
+        if (side === "left") {
+            await ctx.db.patch(parent._id, { leftLegCount: Math.max(0, (parent.leftLegCount || 0) + delta) });
+        } else {
+            await ctx.db.patch(parent._id, { rightLegCount: Math.max(0, (parent.rightLegCount || 0) + delta) });
+        }
+
+        child = parent;
+        depth++;
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Binary Pairing Tests
+ *
+ * Tests calculatePairing:
+ * 1. The weak leg's volume is matched and paid at pairingRate %
+ * 2. The bonus is capped by the rank's daily cap and the rest is flushed
+ * 3. The strong leg's remainder carries forward
+ * 4. Amounts are exact at micro precision
+ */
+
+import { describe, expect, test } from "vitest";
+import { BinaryBonusConfig, calculatePairing } from "./pairingBonus";
+
+const config: BinaryBonusConfig = {
+    enabled: true,
+    pairingRate: 10,
+    dailyCaps: { B0: 100, B1: 250 },
+};
+
+describe("Binary pairing", () => {
+    test("should pay the matched weak leg volume and carry the strong leg forward", () => {
+        const pairing = calculatePairing({ leftPairingVolume: 1000, rightPairingVolume: 400, currentRank: "B1" }, config);
+
+        expect(pairing).toEqual({
+            leftVolume: 1000,
+            rightVolume: 400,
+            matchedVolume: 400,
+            bonus: 40,
+            dailyCap: 250,
+            payable: 40,
+            flushed: 0,
+            carryLeft: 600,
+            carryRight: 0,
+        });
+    });
+
+    test("should flush the bonus above the rank's daily cap", () => {
+        const pairing = calculatePairing({ leftPairingVolume: 5000, rightPairingVolume: 3000, currentRank: "B0" }, config);
+
+        expect(pairing?.bonus).toBe(300);
+        expect(pairing?.payable).toBe(100);
+        expect(pairing?.flushed).toBe(200);
+        expect(pairing?.carryLeft).toBe(2000);
+        expect(pairing?.carryRight).toBe(0);
+    });
+
+    test("should not cap ranks without a daily cap", () => {
+        const pairing = calculatePairing({ leftPairingVolume: 5000, rightPairingVolume: 5000, currentRank: "B5" }, config);
+
+        expect(pairing?.dailyCap).toBeUndefined();
+        expect(pairing?.payable).toBe(500);
+        expect(pairing?.flushed).toBe(0);
+    });
+
+    test("should return null when a leg has no unpaired volume", () => {
+        expect(calculatePairing({ leftPairingVolume: 1000, rightPairingVolume: 0, currentRank: "B1" }, config)).toBeNull();
+        expect(calculatePairing({ currentRank: "B1" }, config)).toBeNull();
+    });
+
+    test("should be exact at micro precision", () => {
+        const pairing = calculatePairing({ leftPairingVolume: 0.1 + 0.2, rightPairingVolume: 0.33, currentRank: "B1" }, config);
+        expect(pairing?.bonus).toBe(0.03);
+        expect(pairing?.carryRight).toBe(0.03);
+
+        // The bonus is rounded down to whole micros
+        const tiny = calculatePairing({ leftPairingVolume: 0.000015, rightPairingVolume: 0.000015, currentRank: "B1" }, config);
+        expect(tiny?.bonus).toBe(0.000001);
+    });
+});
@@ -0,0 +1,263 @@
+import { internalMutation, query, MutationCtx, QueryCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { getRunDate } from "../rewardRuns";
+import { applyPayoutCap } from "../payoutCap";
+import { creditAccount, formatPayoutAmount } from "../crediting";
+import { recordMissedCommission } from "../missedCommissions";
+import { fromMicros, percentOfMicros, subtractMoney, toMicros } from "../money";
+
+/**
+ * Binary Pairing Bonus
+ * Once a day every account is paid a percentage of the volume it can pair between
+ * its two binary legs:
+ * - Matched volume = the weak leg's unpaired volume
+ * - Bonus = matched volume × pairingRate %, capped per day by the account's rank (the rest is flushed)
+ * - The matched volume is consumed on both legs; the strong leg's remainder carries forward
+ *
+ * Unpaired volume is accumulated by updateBinaryLegVolumes (binary/legVolumes.ts) when stakes are created.
+ * Configured in the binary_bonus config, disabled by default.
+ */
+
+export const DEFAULT_BINARY_BONUS = {
+    enabled: false,
+    pairingRate: 10, // % of matched (weak leg) volume
+    // Max bonus per day by rank - ranks without an entry are not capped
+    dailyCaps: {
+        B0: 100,
+        B1: 250,
+        B2: 500,
+        B3: 1000,
+        B4: 2500,
+        B5: 5000,
+        B6: 10000,
+        B7: 25000,
+        B8: 50000,
+        B9: 100000,
+    } as Record<string, number>,
+};
+
+export type BinaryBonusConfig = {
+    enabled: boolean;
+    pairingRate: number;
+    dailyCaps: Record<string, number>;
+};
+
+// Accounts checked per scheduled batch
+const BINARY_BATCH_SIZE = 100;
+
+/**
+ * Get the binary bonus config
+ */
+export async function getBinaryBonusConfig(ctx: QueryCtx | MutationCtx): Promise<BinaryBonusConfig> {
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "binary_bonus"))
+        .first();
+
+    return { ...DEFAULT_BINARY_BONUS, ...(config?.value || {}) };
+}
+
+/**
+ * Calculate an account's pairing for one day (nothing is written)
+ * Returns null when one of the legs has no unpaired volume.
+ */
+export function calculatePairing(
+    account: Pick<Doc<"accounts">, "leftPairingVolume" | "rightPairingVolume" | "currentRank">,
+    config: BinaryBonusConfig
+) {
+    const leftVolume = account.leftPairingVolume || 0;
+    const rightVolume = account.rightPairingVolume || 0;
+    const matchedVolume = Math.min(leftVolume, rightVolume);
+    if (matchedVolume <= 0) return null;
+
+    const bonus = fromMicros(percentOfMicros(toMicros(matchedVolume), config.pairingRate));
+    const dailyCap = config.dailyCaps[account.currentRank];
+    const payable = dailyCap !== undefined ? Math.min(bonus, dailyCap) : bonus;
+
+    return {
+        leftVolume,
+        rightVolume,
+        matchedVolume,
+        bonus,
+        dailyCap,
+        payable,
+        flushed: subtractMoney(bonus, payable),
+        carryLeft: subtractMoney(leftVolume, matchedVolume),
+        carryRight: subtractMoney(rightVolume, matchedVolume),
+    };
+}
+
+/**
+ * Pay the daily binary pairing bonus
+ * Pages through accounts and schedules its own continuation. Accounts already paired
+ * for the date (binary_payouts) are skipped, so a re-run or resumed run never pays twice.
+ * Writes a cron_logs entry after the last batch.
+ */
+export const distributeBinaryBonuses = internalMutation({
+    args: {
+        date: v.optional(v.string()), // "YYYY-MM-DD" (UTC) - defaults to today
+        cursor: v.optional(v.union(v.string(), v.null())),
+        startedAt: v.optional(v.number()),
+        accountsPaid: v.optional(v.number()),
+        totalPaid: v.optional(v.number()),
+        totalFlushed: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const config = await getBinaryBonusConfig(ctx);
+        if (!config.enabled) return;
+
+        const now = Date.now();
+        const date = args.date ?? getRunDate(now);
+        const startedAt = args.startedAt ?? now;
+        let accountsPaid = args.accountsPaid ?? 0;
+        let totalPaid = args.totalPaid ?? 0;
+        let totalFlushed = args.totalFlushed ?? 0;
+
+        // 1. Next page of accounts
+        const page = await ctx.db
+            .query("accounts")
+            .paginate({ cursor: args.cursor ?? null, numItems: BINARY_BATCH_SIZE });
+
+        for (const account of page.page) {
+            const pairing = calculatePairing(account, config);
+            if (!pairing) continue;
+
+            const alreadyPaired = await ctx.db
+                .query("binary_payouts")
+                .withIndex("by_accountId_date", (q) => q.eq("accountId", account._id).eq("date", date))
+                .first();
+            if (alreadyPaired) continue;
+
+            // 2. Consume the matched volume - the strong leg's remainder carries forward
+            await ctx.db.patch(account._id, {
+                leftPairingVolume: pairing.carryLeft,
+                rightPairingVolume: pairing.carryRight,
+            });
+
+            // 3. Pay through the shared crediting flow (global payout cap applies)
+            const paid = await applyPayoutCap(ctx, account._id, pairing.payable);
+            if (paid < pairing.payable) {
+                // The daily cap flush is kept on binary_payouts; this is the global payout cap
+                await recordMissedCommission(ctx, account._id, {
+                    type: "binary",
+                    reason: "payout_cap",
+                    amount: pairing.payable - paid,
+                    timestamp: now,
+                });
+            }
+            let transactionId;
+            if (paid > 0) {
+                const credit = await creditAccount(ctx, {
+                    recipientId: account._id,
+                    amount: paid,
+                    type: "commission_binary",
+                    description: `Binary pairing bonus: ${pairing.matchedVolume.toFixed(2)} matched at ${config.pairingRate}%`,
+                    referenceId: date,
+                    timestamp: now,
+                    metadata: { commissionRate: config.pairingRate },
+                    notification: (currency) => ({
+                        type: "commission",
+                        title: "Binary Bonus Earned",
+                        message: `You earned ${formatPayoutAmount(paid, currency)} from ${pairing.matchedVolume.toFixed(2)} paired volume in your binary legs.`
+                            + (pairing.flushed > 0 ? ` ${formatPayoutAmount(pairing.flushed, currency)} was over your ${account.currentRank} daily cap.` : ""),
+                        icon: "Gift",
+                        data: { amount: paid, matchedVolume: pairing.matchedVolume, flushed: pairing.flushed, date, currency },
+                    }),
+                });
+                transactionId = credit.transactionId;
+            }
+
+            // 4. Record the pairing
+            await ctx.db.insert("binary_payouts", {
+                accountId: account._id,
+                date,
+                rank: account.currentRank,
+                leftVolume: pairing.leftVolume,
+                rightVolume: pairing.rightVolume,
+                matchedVolume: pairing.matchedVolume,
+                pairingRate: config.pairingRate,
+                bonus: pairing.bonus,
+                dailyCap: pairing.dailyCap,
+                paid,
+                flushed: pairing.flushed,
+                carryLeft: pairing.carryLeft,
+                carryRight: pairing.carryRight,
+                transactionId,
+                timestamp: now,
+            });
+
+            accountsPaid++;
+            totalPaid += paid;
+            totalFlushed += pairing.flushed;
+        }
+
+        // 5. More accounts left - continue in a fresh transaction
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.binary.pairingBonus.distributeBinaryBonuses, {
+                date,
+                cursor: page.continueCursor,
+                startedAt,
+                accountsPaid,
+                totalPaid,
+                totalFlushed,
+            });
+            return;
+        }
+
+        await ctx.db.insert("cron_logs", {
+            jobName: "distribute-binary-bonuses",
+            status: "success",
+            message: `Binary bonus ${date}: paid ${totalPaid.toFixed(2)} to ${accountsPaid} accounts, ${totalFlushed.toFixed(2)} flushed by daily caps`,
+            timestamp: Date.now(),
+            totalCommissionsDistributed: totalPaid,
+            executionTimeMs: Date.now() - startedAt,
+        });
+    },
+});
+
+/**
+ * Get binary bonus summary for an account
+ * Leg volumes, unpaired volume and the most recent daily pairings
+ */
+export const getBinaryBonusSummary = query({
+    args: {
+        accountId: v.id("accounts"),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const account = await ctx.db.get(args.accountId);
+        if (!account) return null;
+
+        const config = await getBinaryBonusConfig(ctx);
+        const payouts = await ctx.db
+            .query("binary_payouts")
+            .withIndex("by_accountId", (q) => q.eq("accountId", args.accountId))
+            .order("desc")
+            .take(args.limit ?? 30);
+
+        return {
+            isEnabled: config.enabled,
+            pairingRate: config.pairingRate,
+            dailyCap: config.dailyCaps[account.currentRank] ?? null,
+            leftLegVolume: account.leftLegVolume || 0,
+            rightLegVolume: account.rightLegVolume || 0,
+            leftPairingVolume: account.leftPairingVolume || 0,
+            rightPairingVolume: account.rightPairingVolume || 0,
+            recentPaid: payouts.reduce((sum, p) => sum + p.paid, 0),
+            recentFlushed: payouts.reduce((sum, p) => sum + p.flushed, 0),
+            payouts,
+        };
+    },
+});
+
+/**
+ * Get the binary bonus config (Admin)
+ */
+export const getBinaryBonusSettings = query({
+    args: {},
+    handler: async (ctx) => {
+        return await getBinaryBonusConfig(ctx);
+    },
+});
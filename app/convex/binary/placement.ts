@@ -0,0 +1,183 @@
+import { query, MutationCtx, QueryCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { createError, ErrorCodes } from "../errors";
+
+/**
+ * Binary Placement
+ * Decides where a new member is placed in their sponsor's binary tree:
+ * - balanced       Fill the sponsor's tree top to bottom, left to right (BFS)
+ * - weak_leg       Spill over inside the sponsor's leg with less volume (balanced when the legs are even)
+ * - extreme_left   Bottom of the sponsor's outer left edge
+ * - extreme_right  Bottom of the sponsor's outer right edge
+ * - left_leg       Sponsor-chosen leg: spill over inside the sponsor's left leg
+ * - right_leg      Sponsor-chosen leg: spill over inside the sponsor's right leg
+ *
+ * The global strategy is the placement_strategy config; a sponsor can choose the leg for
+ * their own referral code (referralPlacement on the account), which takes precedence.
+ * Works on both trees - accounts and legacy users share the leftLegId/rightLegId shape.
+ */
+
+export const PLACEMENT_STRATEGIES = [
+    "balanced",
+    "weak_leg",
+    "extreme_left",
+    "extreme_right",
+    "left_leg",
+    "right_leg",
+] as const;
+
+export type PlacementStrategy = (typeof PLACEMENT_STRATEGIES)[number];
+
+export const placementStrategyValidator = v.union(
+    v.literal("balanced"),
+    v.literal("weak_leg"),
+    v.literal("extreme_left"),
+    v.literal("extreme_right"),
+    v.literal("left_leg"),
+    v.literal("right_leg")
+);
+
+// Strategies a sponsor can choose for their referral code
+export const referralPlacementValidator = v.union(
+    v.literal("left_leg"),
+    v.literal("right_leg"),
+    v.literal("weak_leg")
+);
+
+type TreeNodeId = Id<"accounts"> | Id<"users">;
+type TreeNode = Doc<"accounts"> | Doc<"users">;
+type LegPosition = "left" | "right";
+
+// Deepest outer edge walked before the tree is treated as corrupt (a leg chain that loops)
+const MAX_OUTER_EDGE_DEPTH = 10_000;
+
+/**
+ * Whether a value is a known placement strategy
+ */
+export function isPlacementStrategy(value: unknown): value is PlacementStrategy {
+    return typeof value === "string" && (PLACEMENT_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Get the strategy to place a member joining with a referral code
+ * The sponsor's chosen placement wins, then the placement_strategy config, then balanced.
+ */
+export async function getPlacementStrategy(
+    ctx: QueryCtx | MutationCtx,
+    referralCode?: string
+): Promise<PlacementStrategy> {
+    if (referralCode) {
+        const sponsor = await ctx.db
+            .query("accounts")
+            .withIndex("by_referralCode", (q) => q.eq("referralCode", referralCode))
+            .first();
+        if (sponsor?.referralPlacement) return sponsor.referralPlacement;
+    }
+
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "placement_strategy"))
+        .unique();
+
+    return isPlacementStrategy(config?.value) ? config.value : "balanced";
+}
+
+/**
+ * First empty spot under rootId, top to bottom, left to right
+ */
+async function findSpillover(ctx: QueryCtx | MutationCtx, rootId: TreeNodeId) {
+    const queue: TreeNodeId[] = [rootId];
+
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const node = await ctx.db.get(currentId);
+        if (!node) continue;
+
+        if (!node.leftLegId) return { parentId: currentId, position: "left" as const };
+        if (!node.rightLegId) return { parentId: currentId, position: "right" as const };
+
+        queue.push(node.leftLegId);
+        queue.push(node.rightLegId);
+    }
+
+    // Should not happen in a tree
+    return { parentId: rootId, position: "left" as const };
+}
+
+/**
+ * Bottom of the outer edge on one side of rootId
+ * Throws when the edge revisits a node or runs past MAX_OUTER_EDGE_DEPTH.
+ */
+async function findOuterEdge(ctx: QueryCtx | MutationCtx, rootId: TreeNodeId, side: LegPosition) {
+    const legField = side === "left" ? "leftLegId" : "rightLegId";
+    const visited = new Set<TreeNodeId>();
+    let currentId = rootId;
+
+    while (visited.size < MAX_OUTER_EDGE_DEPTH) {
+        visited.add(currentId);
+        const node = await ctx.db.get(currentId);
+        const legId = node?.[legField];
+        if (!legId) return { parentId: currentId, position: side };
+        if (visited.has(legId)) break;
+        currentId = legId;
+    }
+
+    throw createError(
+        ErrorCodes.INTERNAL_ERROR,
+        `Binary tree ${side} edge under ${rootId} loops or exceeds ${MAX_OUTER_EDGE_DEPTH} levels`
+    );
+}
+
+/**
+ * Spill over inside one of the sponsor's legs (directly under the sponsor when the leg is empty)
+ */
+async function findInLeg(ctx: QueryCtx | MutationCtx, sponsor: TreeNode, side: LegPosition) {
+    const legId = side === "left" ? sponsor.leftLegId : sponsor.rightLegId;
+    if (!legId) return { parentId: sponsor._id, position: side };
+    return await findSpillover(ctx, legId);
+}
+
+/**
+ * Find where to place a new member under their sponsor
+ */
+export async function findBinaryPlacement(
+    ctx: QueryCtx | MutationCtx,
+    sponsorId: TreeNodeId,
+    strategy: PlacementStrategy
+): Promise<{ parentId: TreeNodeId; position: LegPosition }> {
+    const sponsor = await ctx.db.get(sponsorId);
+    if (!sponsor) return { parentId: sponsorId, position: "left" };
+
+    switch (strategy) {
+        case "extreme_left":
+            return await findOuterEdge(ctx, sponsorId, "left");
+        case "extreme_right":
+            return await findOuterEdge(ctx, sponsorId, "right");
+        case "left_leg":
+            return await findInLeg(ctx, sponsor, "left");
+        case "right_leg":
+            return await findInLeg(ctx, sponsor, "right");
+        case "weak_leg": {
+            // Leg volumes are tracked on accounts (binary/legVolumes.ts); legacy users are always even
+            const leftVolume = ("leftLegVolume" in sponsor && sponsor.leftLegVolume) || 0;
+            const rightVolume = ("rightLegVolume" in sponsor && sponsor.rightLegVolume) || 0;
+            if (leftVolume !== rightVolume) {
+                return await findInLeg(ctx, sponsor, leftVolume < rightVolume ? "left" : "right");
+            }
+            return await findSpillover(ctx, sponsorId);
+        }
+        default:
+            return await findSpillover(ctx, sponsorId);
+    }
+}
+
+/**
+ * Get the global placement strategy (Admin)
+ */
+export const getGlobalPlacementStrategy = query({
+    args: {},
+    handler: async (ctx) => {
+        return await getPlacementStrategy(ctx);
+    },
+});
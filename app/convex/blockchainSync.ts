@@ -1,6 +1,8 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { createError, ErrorCodes } from "./errors";
+import { LEDGER_ACCOUNTS, postMemberCredit } from "./ledger";
+import { adjustBalanceFields, fromMicros, rawAmountToMicros, toMicros } from "./money";
 
 /**
  * Initialize or get blockchain sync state
@@ -145,14 +147,25 @@ export const logDeposit = mutation({
             };
         }
 
+        // Credit the exact on-chain amount (amountRaw in the network's token decimals)
+        const networkConfig = await ctx.db
+            .query("blockchain_networks")
+            .withIndex("by_network", (q) => q.eq("network", args.network))
+            .first();
+        const amountMicros = networkConfig
+            ? rawAmountToMicros(args.amountRaw, networkConfig.decimals)
+            : toMicros(args.amount);
+        const amount = fromMicros(amountMicros);
+
         // Log the deposit
         const depositId = await ctx.db.insert("deposit_logs", {
             userId: args.userId,
             txHash: args.txHash,
             fromAddress: args.fromAddress.toLowerCase(),
             toAddress: args.toAddress.toLowerCase(),
-            amount: args.amount,
+            amount,
             amountRaw: args.amountRaw,
+            amountMicros,
             blockNumber: args.blockNumber,
             timestamp: Date.now(),
             status: "confirmed",
@@ -163,14 +176,13 @@ export const logDeposit = mutation({
         // Update user's wallet balance
         const user = await ctx.db.get(args.userId);
         if (user) {
-            await ctx.db.patch(args.userId, {
-                walletBalance: user.walletBalance + args.amount,
-            });
+            await ctx.db.patch(args.userId, adjustBalanceFields(user, amountMicros));
 
             // Create transaction record
             await ctx.db.insert("transactions", {
                 userId: args.userId,
-                amount: args.amount,
+                amount,
+                amountMicros,
                 type: "deposit",
                 referenceId: args.txHash,
                 description: `Blockchain deposit from ${args.fromAddress.substring(0, 10)}...`,
@@ -178,15 +190,21 @@ export const logDeposit = mutation({
                 status: "approved",
             });
 
+            await postMemberCredit(ctx, args.userId, amount, LEDGER_ACCOUNTS.HOT_WALLET, {
+                type: "deposit",
+                description: `Blockchain deposit from ${args.fromAddress.substring(0, 10)}...`,
+                referenceId: args.txHash,
+            });
+
             // Create notification
             await ctx.db.insert("notifications", {
                 userId: args.userId,
                 type: "earnings",
                 title: "Deposit Received",
-                message: `You received $${args.amount.toFixed(2)} USDT from blockchain deposit`,
+                message: `You received $${amount.toFixed(2)} USDT from blockchain deposit`,
                 data: {
                     txHash: args.txHash,
-                    amount: args.amount,
+                    amount,
                     fromAddress: args.fromAddress,
                 },
                 read: false,
@@ -3,6 +3,10 @@ import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
 import { createError, ErrorCodes, isValidAmount } from "./errors";
 import { notify } from "./notifications";
+import { creditAccount } from "./crediting";
+import { LEDGER_ACCOUNTS, memberLedgerAccount, postJournal, postMemberDebit } from "./ledger";
+import { addMoney, adjustBalanceFields, balanceFields, fromMicros, hasSufficientBalance, memberBalanceMicros, subtractMoney, toMicros } from "./money";
+import schema from "./schema";
 
 /**
  * BellCoin Stable (BLS) System
@@ -10,27 +14,6 @@ import { notify } from "./notifications";
  * Users can swap BLS to USDT instantly
  */
 
-// ==================== HELPER FUNCTIONS ====================
-
-/**
- * Helper function to round currency amounts to 2 decimal places for safe comparison
- */
-function roundToTwoDecimals(value: number): number {
-    return Math.round(value * 100) / 100;
-}
-
-/**
- * Helper function to safely check if balance is sufficient (accounting for floating-point precision)
- * Uses epsilon tolerance to handle floating-point precision issues
- */
-function hasSufficientBalance(balance: number, amount: number): boolean {
-    const EPSILON = 0.001; // Allow 0.001 BLS tolerance for floating-point precision
-    const roundedBalance = roundToTwoDecimals(balance);
-    const roundedAmount = roundToTwoDecimals(amount);
-    // Check if balance is sufficient with epsilon tolerance
-    return roundedBalance + EPSILON >= roundedAmount;
-}
-
 // ==================== CONFIGURATION ====================
 
 /**
@@ -245,7 +228,7 @@ export const creditBLS = internalMutation({
         amount: v.number(),
         description: v.string(),
         referenceId: v.optional(v.string()),
-        transactionType: v.optional(v.string()),
+        transactionType: v.optional(schema.tables.transactions.validator.fields.type),
     },
     handler: async (ctx, args) => {
         if (!isValidAmount(args.amount, 0)) {
@@ -257,46 +240,20 @@ export const creditBLS = internalMutation({
             throw createError(ErrorCodes.VALIDATION_ERROR, "Either accountId or userId must be provided");
         }
 
-        // Try to get as account first, then user
-        let account: any = null;
-        if (args.accountId) {
-            account = await ctx.db.get(args.accountId);
-            if (account && !("loginId" in account)) {
-                account = null; // Not an account
-            }
-        }
-
-        if (!account && args.userId) {
-            // Try as user
-            account = await ctx.db.get(args.userId);
-        }
-
-        if (!account) {
-            throw createError(ErrorCodes.USER_NOT_FOUND);
-        }
-
-        // Check if account has blsBalance field (accounts and users both have it)
-        const currentBalance = account.blsBalance || 0;
-        const newBalance = currentBalance + args.amount;
-
-        await ctx.db.patch(targetId, {
-            blsBalance: newBalance,
-        });
-
-        // Log transaction - use transactionType if provided, otherwise default to "bls_earned"
+        // Credit via the shared crediting service (balance + ledger entry)
+        // Use transactionType if provided, otherwise default to "bls_earned"
         // This ensures earnings are properly categorized for the earnings page
-        const transactionType = args.transactionType || "bls_earned";
-        await ctx.db.insert("transactions", {
-            accountId: args.accountId || undefined,
-            userId: args.userId || undefined,  // Keep for backward compatibility
+        await creditAccount(ctx, {
+            recipientId: targetId,
             amount: args.amount,
-            type: transactionType as any, // Use the provided type so earnings page can categorize correctly
-            referenceId: args.referenceId,
+            type: args.transactionType ?? "bls_earned",
             description: args.description,
-            timestamp: Date.now(),
+            referenceId: args.referenceId,
+            currency: "BLS",
         });
 
-        return { success: true, newBalance };
+        const account = await ctx.db.get(targetId);
+        return { success: true, newBalance: account?.blsBalance || 0 };
     },
 });
 
@@ -318,15 +275,21 @@ export const deductBLS = internalMutation({
             throw createError(ErrorCodes.USER_NOT_FOUND);
         }
 
-        const currentBalance = user.blsBalance || 0;
-        if (!hasSufficientBalance(currentBalance, args.amount)) {
+        const amountMicros = toMicros(args.amount);
+        const amount = fromMicros(amountMicros);
+        const currentBalanceMicros = memberBalanceMicros(user, "BLS");
+        if (currentBalanceMicros < amountMicros) {
             throw createError(ErrorCodes.INSUFFICIENT_BALANCE, "Insufficient BLS balance");
         }
 
-        const newBalance = currentBalance - args.amount;
+        const newBalance = fromMicros(currentBalanceMicros - amountMicros);
 
-        await ctx.db.patch(args.userId, {
-            blsBalance: newBalance,
+        await ctx.db.patch(args.userId, balanceFields(currentBalanceMicros - amountMicros, "BLS"));
+
+        await postMemberDebit(ctx, args.userId, amount, LEDGER_ACCOUNTS.ADJUSTMENTS, {
+            type: "bls_deducted",
+            description: `Deducted ${amount.toFixed(2)} BLS`,
+            currency: "BLS",
         });
 
         return { success: true, newBalance };
@@ -391,15 +354,12 @@ export const swapBLSToUSDT = mutation({
             throw createError(ErrorCodes.USER_NOT_FOUND);
         }
 
-        // Check BLS balance using safe floating-point comparison
-        const currentBLSBalance = account.blsBalance || 0;
+        // Check BLS balance (exact, in micro-units)
+        const currentBLSBalance = fromMicros(memberBalanceMicros(account, "BLS"));
         if (!hasSufficientBalance(currentBLSBalance, args.blsAmount)) {
-            // Enhanced error message with detailed values for debugging
-            const roundedBalance = roundToTwoDecimals(currentBLSBalance);
-            const roundedAmount = roundToTwoDecimals(args.blsAmount);
             throw createError(
-                ErrorCodes.INSUFFICIENT_BALANCE, 
-                `Insufficient BLS balance. Balance: ${currentBLSBalance.toFixed(6)} (rounded: ${roundedBalance.toFixed(2)}), Amount: ${args.blsAmount.toFixed(6)} (rounded: ${roundedAmount.toFixed(2)})`
+                ErrorCodes.INSUFFICIENT_BALANCE,
+                `Insufficient BLS balance. Balance: ${currentBLSBalance.toFixed(6)}, Amount: ${args.blsAmount.toFixed(6)}`
             );
         }
 
@@ -407,29 +367,30 @@ export const swapBLSToUSDT = mutation({
         if (!config.conversionRate || config.conversionRate <= 0) {
             throw createError(ErrorCodes.VALIDATION_ERROR, "Invalid conversion rate configured. Please contact support.");
         }
-        const usdtAmount = args.blsAmount * config.conversionRate;
+        const blsAmountMicros = toMicros(args.blsAmount);
+        const usdtAmountMicros = Math.floor(blsAmountMicros * config.conversionRate);
+        const blsAmount = fromMicros(blsAmountMicros);
+        const usdtAmount = fromMicros(usdtAmountMicros);
 
         // Determine if we're working with account or user
         const isAccount = args.accountId !== undefined;
         const idType = isAccount ? "account" : "user";
 
         // Deduct BLS
-        await ctx.db.patch(targetId, {
-            blsBalance: currentBLSBalance - args.blsAmount,
-        });
+        await ctx.db.patch(targetId, adjustBalanceFields(account, -blsAmountMicros, "BLS"));
 
         // Credit USDT
-        const newUSDTBalance = (account.walletBalance || 0) + usdtAmount;
-        await ctx.db.patch(targetId, {
-            walletBalance: newUSDTBalance,
-        });
+        const newUSDTBalance = fromMicros(memberBalanceMicros(account) + usdtAmountMicros);
+        await ctx.db.patch(targetId, adjustBalanceFields(account, usdtAmountMicros));
 
         // Create swap request record
         const swapRequestId = await ctx.db.insert("blsSwapRequests", {
             accountId: args.accountId || undefined,
             userId: args.userId || undefined,  // Keep for backward compatibility
-            blsAmount: args.blsAmount,
+            blsAmount: blsAmount,
             usdtAmount: usdtAmount,
+            blsAmountMicros,
+            usdtAmountMicros,
             status: "completed",
             timestamp: Date.now(),
             completedAt: Date.now(),
@@ -442,10 +403,11 @@ export const swapBLSToUSDT = mutation({
         await ctx.db.insert("transactions", {
             accountId: args.accountId || undefined,
             userId: args.userId || undefined,  // Keep for backward compatibility
-            amount: -args.blsAmount,
+            amount: -blsAmount,
+            amountMicros: -blsAmountMicros,
             type: "bls_swap",
             referenceId: swapRequestIdString,
-            description: `Swapped ${args.blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
+            description: `Swapped ${blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
             timestamp: Date.now(),
         });
 
@@ -454,12 +416,26 @@ export const swapBLSToUSDT = mutation({
             accountId: args.accountId || undefined,
             userId: args.userId || undefined,  // Keep for backward compatibility
             amount: usdtAmount,
+            amountMicros: usdtAmountMicros,
             type: "deposit",
             referenceId: swapRequestIdString,
             description: `Received ${usdtAmount.toFixed(2)} USDT from BLS swap`,
             timestamp: Date.now(),
         });
 
+        // BLS goes into the conversion account, USDT comes out of it
+        await postJournal(ctx, {
+            type: "bls_swap",
+            description: `Swapped ${blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
+            referenceId: swapRequestIdString,
+            entries: [
+                { ledgerAccount: memberLedgerAccount(targetId, "BLS"), currency: "BLS", debit: blsAmount },
+                { ledgerAccount: LEDGER_ACCOUNTS.BLS_CONVERSION, currency: "BLS", credit: blsAmount },
+                { ledgerAccount: LEDGER_ACCOUNTS.BLS_CONVERSION, currency: "USDT", debit: usdtAmount },
+                { ledgerAccount: memberLedgerAccount(targetId, "USDT"), currency: "USDT", credit: usdtAmount },
+            ],
+        });
+
         // Notify user or account
         await notify(
             ctx,
@@ -467,10 +443,10 @@ export const swapBLSToUSDT = mutation({
             idType,
             "earnings",
             "BLS Swap Completed",
-            `You successfully swapped ${args.blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
+            `You successfully swapped ${blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
             "ArrowRightLeft",
             {
-                blsAmount: args.blsAmount,
+                blsAmount: blsAmount,
                 usdtAmount: usdtAmount,
                 swapRequestId: swapRequestId,
             }
@@ -479,11 +455,11 @@ export const swapBLSToUSDT = mutation({
         return {
             success: true,
             swapRequestId,
-            blsAmount: args.blsAmount,
+            blsAmount: blsAmount,
             usdtAmount: usdtAmount,
-            newBLSBalance: currentBLSBalance - args.blsAmount,
+            newBLSBalance: subtractMoney(currentBLSBalance, blsAmount),
             newUSDTBalance: newUSDTBalance,
-            message: `Successfully swapped ${args.blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
+            message: `Successfully swapped ${blsAmount.toFixed(2)} BLS to ${usdtAmount.toFixed(2)} USDT`,
         };
     },
 });
@@ -578,8 +554,8 @@ export const getBLSStats = query({
         // Get total swaps
         const swaps = await ctx.db.query("blsSwapRequests").collect();
         const totalSwaps = swaps.length;
-        const totalBLSSwapped = swaps.reduce((sum, swap) => sum + swap.blsAmount, 0);
-        const totalUSDTCredited = swaps.reduce((sum, swap) => sum + swap.usdtAmount, 0);
+        const totalBLSSwapped = swaps.reduce((sum, swap) => addMoney(sum, swap.blsAmount), 0);
+        const totalUSDTCredited = swaps.reduce((sum, swap) => addMoney(sum, swap.usdtAmount), 0);
 
         return {
             isEnabled: config?.isEnabled || false,
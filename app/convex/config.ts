@@ -13,18 +13,40 @@ export const DEFAULT_RANK_RULES = [
     { rank: "V9", minTeamVolume: 30000000, minDirectReferrals: 5, requiredRankDirects: { count: 2, rank: "V8" }, commissionRate: 60 },
 ];
 
+// earlyUnstakePenalties: % of principal withheld on early unstake, by full days served
+// (the entry with the highest minDaysServed <= days served applies)
 export const DEFAULT_STAKING_CYCLES = [
-    { days: 7, dailyRate: 0.45 },
-    { days: 30, dailyRate: 0.60 },
-    { days: 90, dailyRate: 0.75 },
-    { days: 360, dailyRate: 1.00 },
+    { days: 7, dailyRate: 0.45, earlyUnstakePenalties: [{ minDaysServed: 0, penaltyPercent: 10 }] },
+    { days: 30, dailyRate: 0.60, earlyUnstakePenalties: [{ minDaysServed: 0, penaltyPercent: 20 }, { minDaysServed: 15, penaltyPercent: 10 }] },
+    { days: 90, dailyRate: 0.75, earlyUnstakePenalties: [{ minDaysServed: 0, penaltyPercent: 25 }, { minDaysServed: 30, penaltyPercent: 15 }, { minDaysServed: 60, penaltyPercent: 5 }] },
+    { days: 360, dailyRate: 1.00, earlyUnstakePenalties: [{ minDaysServed: 0, penaltyPercent: 30 }, { minDaysServed: 90, penaltyPercent: 20 }, { minDaysServed: 180, penaltyPercent: 10 }, { minDaysServed: 270, penaltyPercent: 5 }] },
 ];
 
-export const DEFAULT_COMMISSION_RATES = {
+// Used for cycles configured without their own earlyUnstakePenalties schedule
+export const DEFAULT_EARLY_UNSTAKE_PENALTIES = [{ minDaysServed: 0, penaltyPercent: 20 }];
+
+// Referral bonus levels: "L<level>" -> % of the referral's daily yield
+export const DEFAULT_COMMISSION_RATES: Record<string, number> = {
     L1: 15, // 15% of Daily Yield
     L2: 10, // 10% of Daily Yield
 };
 
+export const MAX_REFERRAL_BONUS_LEVELS = 10;
+
+/**
+ * Convert a commission_rates config value ({ L1: 15, L2: 10, ... }) into per-level rates
+ * Falls back to DEFAULT_COMMISSION_RATES when the config is missing or has no valid levels
+ */
+export function parseCommissionRates(value: unknown): Array<{ level: number; rate: number }> {
+    const parse = (rates: object) => Object.entries(rates)
+        .map(([key, rate]: [string, unknown]) => ({ level: Number(/^L(\d+)$/.exec(key)?.[1]), rate: Number(rate) }))
+        .filter((l) => l.level >= 1 && l.level <= MAX_REFERRAL_BONUS_LEVELS && isFinite(l.rate) && l.rate >= 0)
+        .sort((a, b) => a.level - b.level);
+
+    const levels = value && typeof value === "object" ? parse(value) : [];
+    return levels.length > 0 ? levels : parse(DEFAULT_COMMISSION_RATES);
+}
+
 export const initializeDefaults = mutation({
     args: {},
     handler: async (ctx) => {
@@ -137,39 +159,31 @@ export const initializeBRankCapping = mutation({
 });
 
 /**
- * Initialize Unilevel Active Directs for All Users
+ * Initialize Unilevel Active Directs for All Accounts and Users
  * Run: npx convex run config:initializeUnilevelData
  */
 export const initializeUnilevelData = mutation({
     args: {},
     handler: async (ctx) => {
-        const { calculateActiveDirects } = await import("./unilevel/activeDirectsCalculator");
-        const { calculateUnlockedLevels } = await import("./unilevel/commissionRates");
+        const { updateActiveDirects } = await import("./unilevel/activeDirectsCalculator");
 
+        const accounts = await ctx.db.query("accounts").collect();
         const users = await ctx.db.query("users").collect();
         let updatedCount = 0;
 
-        for (const user of users) {
-            // Calculate active directs
-            const activeDirects = await calculateActiveDirects(ctx, user._id);
-            const unlockedLevels = calculateUnlockedLevels(activeDirects);
-
-            // Update user
-            await ctx.db.patch(user._id, {
-                activeDirectReferrals: activeDirects,
-                unlockedLevels: unlockedLevels,
-                lastUnlockUpdate: Date.now(),
-            });
+        for (const member of [...accounts, ...users]) {
+            // Calculate and store active directs / unlocked levels
+            const { activeDirects, unlockedLevels } = await updateActiveDirects(ctx, member._id);
 
             updatedCount++;
             if (activeDirects > 0) {
-                console.log(`User ${user.name}: ${activeDirects} active directs, ${unlockedLevels} levels unlocked`);
+                console.log(`${member.name}: ${activeDirects} active directs, ${unlockedLevels} levels unlocked`);
             }
         }
 
         return {
             success: true,
-            message: `Initialized unilevel data for ${updatedCount} users`,
+            message: `Initialized unilevel data for ${updatedCount} accounts and users`,
             updatedCount,
         };
     },
@@ -1,5 +1,7 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { parseCommissionRates } from "./config";
+import { getUnilevelPlan } from "./unilevel/commissionRates";
 
 /**
  * Configuration Management
@@ -48,6 +50,48 @@ export const setConfig = mutation({
     },
 });
 
+/**
+ * Get referral bonus levels and rates (% of daily yield per level)
+ */
+export const getCommissionRates = query({
+    args: {},
+    handler: async (ctx) => {
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q) => q.eq("key", "commission_rates"))
+            .first();
+
+        return parseCommissionRates(config?.value);
+    },
+});
+
+/**
+ * Get the active unilevel plan (rates per level, unlock rule)
+ */
+export const getActiveUnilevelPlan = query({
+    args: {},
+    handler: async (ctx) => {
+        return await getUnilevelPlan(ctx);
+    },
+});
+
+/**
+ * Get the current unilevel plan and its previous versions, newest first (Admin)
+ */
+export const getUnilevelPlanSettings = query({
+    args: {},
+    handler: async (ctx) => {
+        const plan = await getUnilevelPlan(ctx);
+        const history = await ctx.db
+            .query("unilevel_plan_history")
+            .withIndex("by_version")
+            .order("desc")
+            .take(10);
+
+        return { plan, history };
+    },
+});
+
 /**
  * Get minimum withdrawal amount
  */
@@ -255,8 +299,8 @@ export const toggleReferralBonuses = mutation({
                 type: "system",
                 title: newState ? "✅ Referral Bonuses Enabled" : "🔒 Referral Bonuses Disabled",
                 message: newState 
-                    ? "L1 and L2 referral bonuses have been enabled. You can now earn commissions from your referral network."
-                    : "L1 and L2 referral bonuses have been disabled. Unilevel commissions continue to be available.",
+                    ? "Referral bonuses have been enabled. You can now earn commissions from your referral network."
+                    : "Referral bonuses have been disabled. Unilevel commissions continue to be available.",
                 icon: newState ? "✅" : "🔒",
                 read: false,
                 createdAt: now,
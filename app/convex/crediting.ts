@@ -0,0 +1,120 @@
+import { MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { createError, ErrorCodes, isValidAmount } from "./errors";
+import { notify } from "./notifications";
+import { LEDGER_ACCOUNTS, postMemberCredit } from "./ledger";
+import { adjustBalanceFields, fromMicros, toMicros } from "./money";
+
+/**
+ * Crediting Service
+ * Single place that pays money to an account (or legacy user):
+ * - Picks the currency (BLS when the BLS system is enabled, otherwise USDT)
+ * - Updates the matching balance (blsBalance / walletBalance)
+ * - Writes the transaction against accountId for accounts and userId for legacy users
+ * - Posts the matching double-entry journal (platform rewards -> member wallet)
+ * - Sends the recipient's notification, worded for the currency actually paid
+ */
+
+export type PayoutCurrency = "USDT" | "BLS";
+
+type TransactionType = Doc<"transactions">["type"];
+
+export type CreditArgs = {
+    recipientId: Id<"accounts"> | Id<"users">;
+    amount: number;
+    type: TransactionType;
+    // Transaction type used when paid in BLS (defaults to type)
+    blsType?: TransactionType;
+    description: string;
+    referenceId?: string;
+    timestamp?: number;
+    // Commission metadata copied onto the transaction
+    metadata?: {
+        commissionLevel?: number;
+        commissionRate?: number;
+        sourceStakeId?: Id<"stakes">;
+        sourceAccountId?: Id<"accounts">;
+        sourceUserId?: Id<"users">;
+    };
+    // Force a currency (e.g. principal returns are always USDT)
+    currency?: PayoutCurrency;
+    notification?: (currency: PayoutCurrency) => {
+        type: string;
+        title: string;
+        message: string;
+        icon: string;
+        data?: Record<string, unknown>;
+    };
+};
+
+/**
+ * Get the currency payouts are currently made in
+ */
+export async function getPayoutCurrency(ctx: QueryCtx | MutationCtx): Promise<PayoutCurrency> {
+    const blsConfig = await ctx.db.query("blsConfig").first();
+    return blsConfig?.isEnabled ? "BLS" : "USDT";
+}
+
+/**
+ * Format an amount for display in the given currency ("$1.50" / "1.50 BLS")
+ */
+export function formatPayoutAmount(amount: number, currency: PayoutCurrency): string {
+    return currency === "BLS" ? `${amount.toFixed(2)} BLS` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Credit an account or legacy user
+ * Returns the currency paid and the transaction id
+ */
+export async function creditAccount(ctx: MutationCtx, args: CreditArgs) {
+    if (!isValidAmount(args.amount, 0)) {
+        throw createError(ErrorCodes.VALIDATION_ERROR, "Credit amount must be greater than 0");
+    }
+
+    const recipient = await ctx.db.get(args.recipientId);
+    if (!recipient) {
+        throw createError(ErrorCodes.USER_NOT_FOUND);
+    }
+    const isAccount = "loginId" in recipient;
+
+    const currency = args.currency ?? await getPayoutCurrency(ctx);
+
+    // Pay whole micros only
+    const amountMicros = toMicros(args.amount);
+    const amount = fromMicros(amountMicros);
+
+    // 1. Update balance
+    await ctx.db.patch(args.recipientId, adjustBalanceFields(recipient, amountMicros, currency));
+
+    // 2. Transaction log
+    const type = currency === "BLS" ? (args.blsType ?? args.type) : args.type;
+    const timestamp = args.timestamp ?? Date.now();
+    const transactionId = await ctx.db.insert("transactions", {
+        accountId: isAccount ? (args.recipientId as Id<"accounts">) : undefined,
+        userId: isAccount ? undefined : (args.recipientId as Id<"users">),
+        amount,
+        amountMicros,
+        type,
+        referenceId: args.referenceId,
+        description: args.description,
+        timestamp,
+        ...args.metadata,
+    });
+
+    // 3. Ledger journal
+    await postMemberCredit(ctx, args.recipientId, amount, LEDGER_ACCOUNTS.REWARDS, {
+        type,
+        description: args.description,
+        referenceId: args.referenceId,
+        timestamp,
+        currency,
+    });
+
+    // 4. Notification
+    if (args.notification) {
+        const n = args.notification(currency);
+        await notify(ctx, args.recipientId, isAccount ? "account" : "user", n.type, n.title, n.message, n.icon, n.data);
+    }
+
+    return { currency, transactionId };
+}
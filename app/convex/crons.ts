@@ -6,7 +6,8 @@ const crons = cronJobs();
 crons.daily(
     "distribute-daily-rewards",
     { hourUTC: 0, minuteUTC: 0 }, // Run at midnight UTC
-    api.rewards.distributeDailyRewards
+    internal.rewards.distributeDailyRewards,
+    {}
 );
 
 // Multi-network deposit listener - runs every 60 seconds to check for blockchain deposits
@@ -37,4 +38,28 @@ crons.daily(
     api.presale.unlockVestedStakes
 );
 
+// Binary pairing bonus - runs daily after the reward distribution (no-op while disabled)
+crons.daily(
+    "distribute-binary-bonuses",
+    { hourUTC: 1, minuteUTC: 0 },
+    internal.binary.pairingBonus.distributeBinaryBonuses,
+    {}
+);
+
+// Rank grace periods - runs daily, applies downgrades whose grace period has expired
+crons.daily(
+    "process-rank-grace-periods",
+    { hourUTC: 0, minuteUTC: 30 },
+    internal.ranks.processRankGracePeriods,
+    {}
+);
+
+// Ledger reconciliation - runs daily, flags stored balances that drifted from the ledger
+crons.daily(
+    "reconcile-ledger",
+    { hourUTC: 2, minuteUTC: 0 },
+    internal.ledger.reconcileLedger,
+    {}
+);
+
 export default crons;
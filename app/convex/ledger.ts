@@ -0,0 +1,387 @@
+import { internalMutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { fromMicros, memberBalanceMicros, toMicros } from "./money";
+
+/**
+ * Double-Entry Ledger
+ * Every movement of member money is recorded as a journal whose entries balance
+ * (total debits = total credits, per currency). The stored balances on
+ * accounts/users stay the fast path for reads; the ledger is the record they are
+ * reconciled against (see reconcileLedger). Each ledger account's running balance is
+ * kept in ledger_balances for fast reads; reconciling recomputes balances from the entries.
+ *
+ * Ledger accounts:
+ * - member:<id>:<currency>      Member wallet sub-accounts (liability - credit balance)
+ * - platform:hot_wallet         On-chain funds held by the platform (asset - debit balance)
+ * - platform:liability          Principal locked in stakes, owed back to members (liability)
+ * - platform:pending_withdrawals Withdrawals requested but not yet approved (liability)
+ * - platform:fees               Withdrawal fees and unstake penalties (income)
+ * - platform:presale            Presale node sales (income)
+ * - platform:rewards            Yield, bonuses and commissions paid to members (expense)
+ * - platform:bls_conversion     Clearing account for BLS <-> USDT swaps
+ * - platform:adjustments        Opening balances and manual balance adjustments (equity)
+ */
+
+export type LedgerCurrency = "USDT" | "BLS";
+
+export const LEDGER_ACCOUNTS = {
+    HOT_WALLET: "platform:hot_wallet",
+    PLATFORM_LIABILITY: "platform:liability",
+    PENDING_WITHDRAWALS: "platform:pending_withdrawals",
+    FEES: "platform:fees",
+    PRESALE: "platform:presale",
+    REWARDS: "platform:rewards",
+    BLS_CONVERSION: "platform:bls_conversion",
+    ADJUSTMENTS: "platform:adjustments",
+} as const;
+
+// Accounts whose balance grows with debits; every other account grows with credits
+const DEBIT_NORMAL_ACCOUNTS: string[] = [LEDGER_ACCOUNTS.HOT_WALLET, LEDGER_ACCOUNTS.REWARDS];
+
+// Members checked per scheduled reconciliation batch (each member's entries are summed)
+const RECONCILE_BATCH_SIZE = 25;
+
+export type LedgerEntry = {
+    ledgerAccount: string;
+    currency?: LedgerCurrency; // Defaults to USDT
+    debit?: number;
+    credit?: number;
+};
+
+/**
+ * Ledger account of a member's wallet in one currency
+ */
+export function memberLedgerAccount(id: Id<"accounts"> | Id<"users">, currency: LedgerCurrency = "USDT"): string {
+    return `member:${id}:${currency}`;
+}
+
+/**
+ * Write a balanced journal
+ * Throws when debits and credits differ for any currency - callers run inside the
+ * mutation that moves the money, so an unbalanced journal rolls the whole change back.
+ */
+export async function postJournal(
+    ctx: MutationCtx,
+    journal: {
+        type: string;
+        description: string;
+        referenceId?: string;
+        timestamp?: number;
+        entries: LedgerEntry[];
+    }
+): Promise<Id<"ledger_journals"> | null> {
+    const entries = journal.entries
+        .map((e) => ({ ...e, currency: e.currency ?? "USDT", debit: e.debit || 0, credit: e.credit || 0 }))
+        .filter((e) => e.debit !== 0 || e.credit !== 0);
+    if (entries.length === 0) return null;
+
+    // 1. Check the journal balances per currency (exact, in micro-units)
+    const net = new Map<string, number>();
+    for (const e of entries) {
+        if (e.debit < 0 || e.credit < 0) {
+            throw new Error(`Ledger entry for ${e.ledgerAccount} has a negative amount`);
+        }
+        net.set(e.currency, (net.get(e.currency) || 0) + toMicros(e.debit) - toMicros(e.credit));
+    }
+    for (const [currency, differenceMicros] of net) {
+        if (differenceMicros !== 0) {
+            throw new Error(`Unbalanced ${currency} journal "${journal.type}": debits and credits differ by ${fromMicros(differenceMicros)}`);
+        }
+    }
+
+    // 2. Write the journal and its entries
+    const timestamp = journal.timestamp ?? Date.now();
+    const journalId = await ctx.db.insert("ledger_journals", {
+        type: journal.type,
+        description: journal.description,
+        referenceId: journal.referenceId,
+        timestamp,
+    });
+
+    for (const e of entries) {
+        await ctx.db.insert("ledger_entries", {
+            journalId,
+            ledgerAccount: e.ledgerAccount,
+            currency: e.currency,
+            debit: e.debit,
+            credit: e.credit,
+            timestamp,
+        });
+        await addToRunningBalance(ctx, e.ledgerAccount, e.currency, toMicros(e.credit) - toMicros(e.debit), timestamp);
+    }
+
+    return journalId;
+}
+
+/**
+ * Sum a ledger account's entries in one currency (credits - debits, in micro-units)
+ */
+async function sumLedgerEntries(
+    ctx: QueryCtx | MutationCtx,
+    ledgerAccount: string,
+    currency: LedgerCurrency
+): Promise<number> {
+    const entries = await ctx.db
+        .query("ledger_entries")
+        .withIndex("by_ledgerAccount_currency", (q) => q.eq("ledgerAccount", ledgerAccount).eq("currency", currency))
+        .collect();
+
+    return entries.reduce((sum, e) => sum + toMicros(e.credit) - toMicros(e.debit), 0);
+}
+
+/**
+ * Add a just-written entry to its ledger account's running balance
+ * An account without a running balance yet (entries from before ledger_balances) is
+ * seeded once from its entries, which already include this one.
+ */
+async function addToRunningBalance(
+    ctx: MutationCtx,
+    ledgerAccount: string,
+    currency: LedgerCurrency,
+    amountMicros: number,
+    timestamp: number
+) {
+    const balance = await ctx.db
+        .query("ledger_balances")
+        .withIndex("by_ledgerAccount_currency", (q) => q.eq("ledgerAccount", ledgerAccount).eq("currency", currency))
+        .unique();
+
+    if (balance) {
+        await ctx.db.patch(balance._id, { balanceMicros: balance.balanceMicros + amountMicros, updatedAt: timestamp });
+    } else {
+        await ctx.db.insert("ledger_balances", {
+            ledgerAccount,
+            currency,
+            balanceMicros: await sumLedgerEntries(ctx, ledgerAccount, currency),
+            updatedAt: timestamp,
+        });
+    }
+}
+
+/**
+ * Record money moving from a platform account into a member wallet
+ * (Dr platform account / Cr member)
+ */
+export async function postMemberCredit(
+    ctx: MutationCtx,
+    memberId: Id<"accounts"> | Id<"users">,
+    amount: number,
+    from: string,
+    journal: { type: string; description: string; referenceId?: string; timestamp?: number; currency?: LedgerCurrency }
+) {
+    return await postJournal(ctx, {
+        ...journal,
+        entries: [
+            { ledgerAccount: from, currency: journal.currency, debit: amount },
+            { ledgerAccount: memberLedgerAccount(memberId, journal.currency), currency: journal.currency, credit: amount },
+        ],
+    });
+}
+
+/**
+ * Record money moving from a member wallet into a platform account
+ * (Dr member / Cr platform account)
+ */
+export async function postMemberDebit(
+    ctx: MutationCtx,
+    memberId: Id<"accounts"> | Id<"users">,
+    amount: number,
+    to: string,
+    journal: { type: string; description: string; referenceId?: string; timestamp?: number; currency?: LedgerCurrency }
+) {
+    return await postJournal(ctx, {
+        ...journal,
+        entries: [
+            { ledgerAccount: memberLedgerAccount(memberId, journal.currency), currency: journal.currency, debit: amount },
+            { ledgerAccount: to, currency: journal.currency, credit: amount },
+        ],
+    });
+}
+
+/**
+ * Get a ledger account's balance from its running balance
+ * (summed from its entries when none has been written yet)
+ * Reported in the account's normal direction (member wallets: credits - debits)
+ */
+export async function getLedgerBalance(
+    ctx: QueryCtx | MutationCtx,
+    ledgerAccount: string,
+    currency: LedgerCurrency = "USDT"
+): Promise<number> {
+    const balance = await ctx.db
+        .query("ledger_balances")
+        .withIndex("by_ledgerAccount_currency", (q) => q.eq("ledgerAccount", ledgerAccount).eq("currency", currency))
+        .unique();
+
+    const balanceMicros = balance ? balance.balanceMicros : await sumLedgerEntries(ctx, ledgerAccount, currency);
+    return fromMicros(DEBIT_NORMAL_ACCOUNTS.includes(ledgerAccount) ? -balanceMicros : balanceMicros);
+}
+
+/**
+ * Reconcile stored member balances against the ledger
+ * Pages through accounts, then legacy users, scheduling its own continuation.
+ * Each member wallet's balance is recomputed from its ledger entries:
+ * - A stored balance that differs raises a critical ledger_drift admin alert
+ *   (one unread alert per member at a time)
+ * - A running balance (ledger_balances) that differs is reset to the entries' sum
+ * The totals are written to cron_logs when the last page is done.
+ *
+ * openBalances: instead of flagging drift, post it as an opening balance journal.
+ * Run once when the ledger is introduced so balances that predate it are carried over:
+ *   npx convex run ledger:reconcileLedger '{"openBalances": true}'
+ */
+export const reconcileLedger = internalMutation({
+    args: {
+        table: v.optional(v.union(v.literal("accounts"), v.literal("users"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        openBalances: v.optional(v.boolean()),
+        startedAt: v.optional(v.number()),
+        membersChecked: v.optional(v.number()),
+        drifted: v.optional(v.number()),
+        runningBalancesCorrected: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const table = args.table ?? "accounts";
+        const startTime = Date.now();
+        const startedAt = args.startedAt ?? startTime;
+        let membersChecked = args.membersChecked ?? 0;
+        let drifted = args.drifted ?? 0;
+        let runningBalancesCorrected = args.runningBalancesCorrected ?? 0;
+
+        // 1. Next page of members
+        const page = table === "accounts"
+            ? await ctx.db.query("accounts").paginate({ cursor: args.cursor ?? null, numItems: RECONCILE_BATCH_SIZE })
+            : await ctx.db.query("users").paginate({ cursor: args.cursor ?? null, numItems: RECONCILE_BATCH_SIZE });
+        const members: Array<Doc<"accounts"> | Doc<"users">> = page.page;
+
+        for (const member of members) {
+            membersChecked++;
+            const balances: Record<LedgerCurrency, number> = {
+                USDT: fromMicros(memberBalanceMicros(member, "USDT")),
+                BLS: fromMicros(memberBalanceMicros(member, "BLS")),
+            };
+
+            for (const currency of ["USDT", "BLS"] as LedgerCurrency[]) {
+                const ledgerAccount = memberLedgerAccount(member._id, currency);
+
+                // 2. Recompute the wallet from its entries (member wallets are credit-normal)
+                const entriesMicros = await sumLedgerEntries(ctx, ledgerAccount, currency);
+                const runningBalance = await ctx.db
+                    .query("ledger_balances")
+                    .withIndex("by_ledgerAccount_currency", (q) => q.eq("ledgerAccount", ledgerAccount).eq("currency", currency))
+                    .unique();
+                if (runningBalance && runningBalance.balanceMicros !== entriesMicros) {
+                    await ctx.db.patch(runningBalance._id, { balanceMicros: entriesMicros, updatedAt: startTime });
+                    runningBalancesCorrected++;
+                }
+
+                const ledgerBalance = fromMicros(entriesMicros);
+                const drift = fromMicros(toMicros(balances[currency]) - entriesMicros);
+                if (drift === 0) continue;
+
+                // 3a. Carry the stored balance over into the ledger
+                if (args.openBalances) {
+                    await postJournal(ctx, {
+                        type: "opening_balance",
+                        description: `Opening ${currency} balance`,
+                        referenceId: member._id,
+                        timestamp: startTime,
+                        entries: drift > 0
+                            ? [
+                                { ledgerAccount: LEDGER_ACCOUNTS.ADJUSTMENTS, currency, debit: drift },
+                                { ledgerAccount, currency, credit: drift },
+                            ]
+                            : [
+                                { ledgerAccount, currency, debit: -drift },
+                                { ledgerAccount: LEDGER_ACCOUNTS.ADJUSTMENTS, currency, credit: -drift },
+                            ],
+                    });
+                    continue;
+                }
+
+                // 3b. Flag the drift
+                drifted++;
+                const existingAlert = await ctx.db
+                    .query("admin_alerts")
+                    .withIndex("by_isRead", (q) => q.eq("isRead", false))
+                    .filter((q) =>
+                        q.and(
+                            q.eq(q.field("type"), "ledger_drift"),
+                            q.eq(q.field("data.ledgerAccount"), ledgerAccount)
+                        )
+                    )
+                    .first();
+                if (existingAlert) continue;
+
+                await ctx.db.insert("admin_alerts", {
+                    type: "ledger_drift",
+                    severity: "critical",
+                    title: "Balance Drift Detected",
+                    message: `${member.name || ("email" in member ? member.email : "") || member._id} has a stored ${currency} balance of ${balances[currency].toFixed(6)} but the ledger shows ${ledgerBalance.toFixed(6)} (drift ${drift.toFixed(6)}).`,
+                    data: {
+                        memberId: member._id,
+                        memberType: table === "accounts" ? "account" : "user",
+                        ledgerAccount,
+                        currency,
+                        storedBalance: balances[currency],
+                        ledgerBalance,
+                        drift,
+                    },
+                    isRead: false,
+                    createdAt: startTime,
+                });
+            }
+        }
+
+        // 4. Continue with the next page, then with legacy users, then record the report
+        const report = { membersChecked, drifted, runningBalancesCorrected };
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.ledger.reconcileLedger, {
+                table,
+                cursor: page.continueCursor,
+                openBalances: args.openBalances,
+                startedAt,
+                ...report,
+            });
+        } else if (table === "accounts") {
+            await ctx.scheduler.runAfter(0, internal.ledger.reconcileLedger, {
+                table: "users",
+                cursor: null,
+                openBalances: args.openBalances,
+                startedAt,
+                ...report,
+            });
+        } else {
+            await ctx.db.insert("cron_logs", {
+                jobName: "reconcile-ledger",
+                status: "success",
+                message: `Ledger reconciliation: ${membersChecked} members checked, ${drifted} drifted balance(s), ${runningBalancesCorrected} running balance(s) corrected`,
+                timestamp: Date.now(),
+                executionTimeMs: Date.now() - startedAt,
+            });
+        }
+
+        return { table, ...report, isDone: page.isDone && table === "users" };
+    },
+});
+
+/**
+ * Get platform ledger balances (Admin)
+ * Each platform account's balance per currency, read from its running balance
+ */
+export const getPlatformLedgerBalances = query({
+    args: {},
+    handler: async (ctx) => {
+        const balances = [];
+        for (const ledgerAccount of Object.values(LEDGER_ACCOUNTS)) {
+            balances.push({
+                ledgerAccount,
+                usdt: await getLedgerBalance(ctx, ledgerAccount, "USDT"),
+                bls: await getLedgerBalance(ctx, ledgerAccount, "BLS"),
+            });
+        }
+        return balances;
+    },
+});
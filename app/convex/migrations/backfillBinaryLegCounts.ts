@@ -0,0 +1,69 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { updateBinaryLegCounts } from "../binary/legVolumes";
+
+/**
+ * Migration: recount binary leg member counts (accounts.leftLegCount / rightLegCount)
+ *
+ * Counts are kept up to date when accounts are placed (see binary/legVolumes.ts);
+ * this recounts them for accounts placed before that, or after a tree repair.
+ * Two passes, each paging through accounts and scheduling its own continuation:
+ * 1. reset - zero every account's counts
+ * 2. count - add each placed account to all of its ancestors' counts
+ *
+ * Safe to re-run (the reset pass starts from scratch):
+ *   npx convex run migrations/backfillBinaryLegCounts:backfillBinaryLegCounts
+ */
+
+const RESET_BATCH_SIZE = 200;
+// Each account walks its whole upline, so count in smaller batches
+const COUNT_BATCH_SIZE = 25;
+
+export const backfillBinaryLegCounts = internalMutation({
+    args: {
+        phase: v.optional(v.union(v.literal("reset"), v.literal("count"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        counted: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const phase = args.phase ?? "reset";
+        let counted = args.counted ?? 0;
+
+        const page = await ctx.db
+            .query("accounts")
+            .paginate({
+                cursor: args.cursor ?? null,
+                numItems: phase === "reset" ? RESET_BATCH_SIZE : COUNT_BATCH_SIZE,
+            });
+
+        for (const account of page.page) {
+            if (phase === "reset") {
+                await ctx.db.patch(account._id, { leftLegCount: 0, rightLegCount: 0 });
+            } else if (account.parentId) {
+                await updateBinaryLegCounts(ctx, account._id);
+                counted++;
+            }
+        }
+
+        // Next page of this pass, then the count pass
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillBinaryLegCounts.backfillBinaryLegCounts, {
+                phase,
+                cursor: page.continueCursor,
+                counted,
+            });
+        } else if (phase === "reset") {
+            console.log("Binary leg count backfill: reset done");
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillBinaryLegCounts.backfillBinaryLegCounts, {
+                phase: "count",
+                cursor: null,
+                counted,
+            });
+        } else {
+            console.log(`Binary leg count backfill complete: ${counted} placed accounts counted`);
+        }
+
+        return { phase, counted, isDone: page.isDone && phase === "count" };
+    },
+});
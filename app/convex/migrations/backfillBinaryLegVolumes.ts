@@ -0,0 +1,80 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { updateBinaryLegVolumes } from "../binary/legVolumes";
+
+/**
+ * Migration: recompute binary leg volumes (accounts.leftLegVolume / rightLegVolume)
+ *
+ * Leg volumes are kept up to date on stake lifecycle events (see binary/legVolumes.ts);
+ * this recomputes them from the active stakes, for accounts that staked before leg
+ * volumes were tracked or after drift was logged. Unpaired pairing volume is left as is.
+ * Two passes, each paging and scheduling its own continuation:
+ * 1. reset - zero every account's leg volumes
+ * 2. stakes - add each active account stake's principal to all of its ancestors' legs
+ *
+ * Safe to re-run (the reset pass starts from scratch):
+ *   npx convex run migrations/backfillBinaryLegVolumes:backfillBinaryLegVolumes
+ */
+
+const RESET_BATCH_SIZE = 200;
+// Each stake walks its owner's whole upline, so add in smaller batches
+const STAKE_BATCH_SIZE = 25;
+
+export const backfillBinaryLegVolumes = internalMutation({
+    args: {
+        phase: v.optional(v.union(v.literal("reset"), v.literal("stakes"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        stakesCounted: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const phase = args.phase ?? "reset";
+        let stakesCounted = args.stakesCounted ?? 0;
+        let isDone: boolean;
+        let continueCursor: string;
+
+        if (phase === "reset") {
+            const page = await ctx.db
+                .query("accounts")
+                .paginate({ cursor: args.cursor ?? null, numItems: RESET_BATCH_SIZE });
+
+            for (const account of page.page) {
+                await ctx.db.patch(account._id, { leftLegVolume: 0, rightLegVolume: 0 });
+            }
+            ({ isDone, continueCursor } = page);
+        } else {
+            const page = await ctx.db
+                .query("stakes")
+                .withIndex("by_status", (q) => q.eq("status", "active"))
+                .paginate({ cursor: args.cursor ?? null, numItems: STAKE_BATCH_SIZE });
+
+            for (const stake of page.page) {
+                // Legacy user stakes are not in the account placement tree
+                if (!stake.accountId) continue;
+                await updateBinaryLegVolumes(ctx, stake.accountId, stake.amount);
+                stakesCounted++;
+            }
+            ({ isDone, continueCursor } = page);
+        }
+
+        // Next page of this pass, then the stakes pass
+        if (!isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillBinaryLegVolumes.backfillBinaryLegVolumes, {
+                phase,
+                cursor: continueCursor,
+                stakesCounted,
+            });
+        } else if (phase === "reset") {
+            console.log("Binary leg volume backfill: reset done");
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillBinaryLegVolumes.backfillBinaryLegVolumes, {
+                phase: "stakes",
+                cursor: null,
+                stakesCounted,
+            });
+        } else {
+            console.log(`Binary leg volume backfill complete: ${stakesCounted} active stakes counted`);
+        }
+
+        return { phase, stakesCounted, isDone: isDone && phase === "stakes" };
+    },
+});
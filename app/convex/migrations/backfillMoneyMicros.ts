@@ -0,0 +1,154 @@
+import { internalMutation, MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { Doc } from "../_generated/dataModel";
+import { memberBalanceMicros, rawAmountToMicros, toMicros } from "../money";
+
+/**
+ * Migration: backfill integer micro-unit amounts (see money.ts)
+ *
+ * Sets the *Micros fields on rows written before they existed:
+ * - stakes.amountMicros, transactions.amountMicros
+ * - withdrawals.amountMicros / feeMicros / netAmountMicros
+ * - deposit_logs.amountMicros (exact, from amountRaw and the network's token decimals)
+ * - blsSwapRequests.blsAmountMicros / usdtAmountMicros
+ * - accounts / users walletBalanceMicros / blsBalanceMicros
+ *
+ * Pages through each table and schedules its own continuation. Rows that already
+ * have micros are left untouched, so it is safe to run more than once:
+ *   npx convex run migrations/backfillMoneyMicros:backfillMoneyMicros
+ */
+
+const TABLES = ["stakes", "transactions", "withdrawals", "deposit_logs", "blsSwapRequests", "accounts", "users"] as const;
+
+type MicrosTable = (typeof TABLES)[number];
+
+const BATCH_SIZE = 200;
+
+/**
+ * Patch one page of a table with the micros fields getPatch returns (null: row already done)
+ */
+async function backfillPage<T extends MicrosTable>(
+    ctx: MutationCtx,
+    table: T,
+    cursor: string | null,
+    getPatch: (row: Doc<T>) => Partial<Doc<T>> | null
+) {
+    const page = await ctx.db
+        .query(table)
+        .paginate({ cursor, numItems: BATCH_SIZE });
+
+    let updated = 0;
+    for (const row of page.page) {
+        const patch = getPatch(row);
+        if (patch) {
+            await ctx.db.patch(row._id, patch);
+            updated++;
+        }
+    }
+
+    return { updated, isDone: page.isDone, continueCursor: page.continueCursor };
+}
+
+export const backfillMoneyMicros = internalMutation({
+    args: {
+        table: v.optional(v.string()),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        updated: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const table = (args.table ?? TABLES[0]) as MicrosTable;
+        if (!TABLES.includes(table)) {
+            throw new Error(`Unknown table "${table}"`);
+        }
+        const cursor = args.cursor ?? null;
+
+        let page: Awaited<ReturnType<typeof backfillPage>>;
+        switch (table) {
+            case "withdrawals":
+                page = await backfillPage(ctx, table, cursor, (row) => {
+                    if (row.amountMicros !== undefined) return null;
+                    const amountMicros = toMicros(row.amount);
+                    const feeMicros = toMicros(row.fee || 0);
+                    return {
+                        amountMicros,
+                        feeMicros,
+                        netAmountMicros: row.netAmount !== undefined ? toMicros(row.netAmount) : amountMicros - feeMicros,
+                    };
+                });
+                break;
+            case "blsSwapRequests":
+                page = await backfillPage(ctx, table, cursor, (row) =>
+                    row.blsAmountMicros === undefined
+                        ? { blsAmountMicros: toMicros(row.blsAmount), usdtAmountMicros: toMicros(row.usdtAmount) }
+                        : null
+                );
+                break;
+            case "deposit_logs": {
+                // Token decimals per network, for exact deposit amounts
+                const decimalsByNetwork = new Map<string, number>();
+                const networks = await ctx.db.query("blockchain_networks").collect();
+                for (const network of networks) {
+                    decimalsByNetwork.set(network.network, network.decimals);
+                }
+
+                page = await backfillPage(ctx, table, cursor, (row) => {
+                    if (row.amountMicros !== undefined) return null;
+                    const decimals = decimalsByNetwork.get(row.network);
+                    return {
+                        amountMicros: decimals !== undefined && row.amountRaw
+                            ? rawAmountToMicros(row.amountRaw, decimals)
+                            : toMicros(row.amount),
+                    };
+                });
+                break;
+            }
+            case "accounts":
+                page = await backfillPage(ctx, table, cursor, (row) =>
+                    row.walletBalanceMicros === undefined || row.blsBalanceMicros === undefined
+                        ? { walletBalanceMicros: memberBalanceMicros(row, "USDT"), blsBalanceMicros: memberBalanceMicros(row, "BLS") }
+                        : null
+                );
+                break;
+            case "users":
+                page = await backfillPage(ctx, table, cursor, (row) =>
+                    row.walletBalanceMicros === undefined || row.blsBalanceMicros === undefined
+                        ? { walletBalanceMicros: memberBalanceMicros(row, "USDT"), blsBalanceMicros: memberBalanceMicros(row, "BLS") }
+                        : null
+                );
+                break;
+            case "stakes":
+                page = await backfillPage(ctx, table, cursor, (row) =>
+                    row.amountMicros === undefined ? { amountMicros: toMicros(row.amount) } : null
+                );
+                break;
+            case "transactions":
+                page = await backfillPage(ctx, table, cursor, (row) =>
+                    row.amountMicros === undefined ? { amountMicros: toMicros(row.amount) } : null
+                );
+                break;
+        }
+        const updated = (args.updated ?? 0) + page.updated;
+
+        // Next page of this table, then the next table
+        const nextTable = TABLES[TABLES.indexOf(table) + 1];
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillMoneyMicros.backfillMoneyMicros, {
+                table,
+                cursor: page.continueCursor,
+                updated,
+            });
+        } else if (nextTable) {
+            console.log(`Money micros backfill: ${table} done`);
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillMoneyMicros.backfillMoneyMicros, {
+                table: nextTable,
+                cursor: null,
+                updated,
+            });
+        } else {
+            console.log(`Money micros backfill complete: ${updated} rows updated`);
+        }
+
+        return { table, updated, isDone: page.isDone && !nextTable };
+    },
+});
@@ -0,0 +1,74 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+
+/**
+ * Migration: record ranks reached before achievement rewards existed
+ *
+ * Rank achievement rewards (rankAchievements.ts) are paid the first time an account
+ * reaches a rank. Without this, an account already at B3 would be paid for B3 after a
+ * demotion and re-promotion. Records each account's current rank and every rank in its
+ * rank_history as achieved, unpaid (reward 0). Pages through accounts, scheduling its
+ * own continuation.
+ *
+ * Safe to re-run (ranks already recorded are skipped):
+ *   npx convex run migrations/backfillRankAchievements:backfillRankAchievements
+ */
+
+const BATCH_SIZE = 100;
+
+export const backfillRankAchievements = internalMutation({
+    args: {
+        cursor: v.optional(v.union(v.string(), v.null())),
+        recorded: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        let recorded = args.recorded ?? 0;
+        const now = Date.now();
+
+        const page = await ctx.db
+            .query("accounts")
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const account of page.page) {
+            // 1. Ranks the account has held
+            const history = await ctx.db
+                .query("rank_history")
+                .withIndex("by_accountId", (q) => q.eq("accountId", account._id))
+                .collect();
+
+            const ranks = new Set(history.map((h) => h.newRank));
+            ranks.add(account.currentRank);
+            ranks.delete("B0");
+
+            // 2. Record the ones not recorded yet
+            for (const rank of ranks) {
+                const existing = await ctx.db
+                    .query("rank_achievements")
+                    .withIndex("by_accountId_rank", (q) => q.eq("accountId", account._id).eq("rank", rank))
+                    .first();
+                if (existing) continue;
+
+                await ctx.db.insert("rank_achievements", {
+                    accountId: account._id,
+                    rank,
+                    reward: 0,
+                    paid: 0,
+                    achievedAt: now,
+                });
+                recorded++;
+            }
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillRankAchievements.backfillRankAchievements, {
+                cursor: page.continueCursor,
+                recorded,
+            });
+        } else {
+            console.log(`Rank achievement backfill complete: ${recorded} ranks recorded`);
+        }
+
+        return { recorded, isDone: page.isDone };
+    },
+});
@@ -0,0 +1,104 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { getRunDate } from "../rewardRuns";
+import { distributeUnilevelCommissions } from "../unilevel/commissionDistributor";
+
+/**
+ * Migration: pay unilevel commissions missed on account stakes
+ *
+ * The unilevel distributor used to only walk legacy users, so yield paid on stakes held
+ * by an account (no userId) never paid unilevel commissions. This pages through the
+ * historical yield transactions ("yield", then "bls_earned") and distributes commissions
+ * for every daily / final yield of an account-only stake, reported under the yield's date
+ * (the " - YYYY-MM-DD" description suffix, or the day it was paid for older transactions).
+ * Level unlocks are evaluated with today's active directs.
+ *
+ * A yield is skipped when its reward_payouts row is already marked unilevelPaid, or when
+ * commission_history already holds a commission for the stake and date, so it is safe to
+ * re-run:
+ *   npx convex run migrations/backfillUnilevelCommissions:backfillUnilevelCommissions
+ */
+
+// Each yield walks the whole unilevel upline, so keep batches small
+const BATCH_SIZE = 25;
+
+const YIELD_DATE_SUFFIX = / - (\d{4}-\d{2}-\d{2})$/;
+
+export const backfillUnilevelCommissions = internalMutation({
+    args: {
+        type: v.optional(v.union(v.literal("yield"), v.literal("bls_earned"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        yieldsProcessed: v.optional(v.number()),
+        totalPaid: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const type = args.type ?? "yield";
+        let yieldsProcessed = args.yieldsProcessed ?? 0;
+        let totalPaid = args.totalPaid ?? 0;
+
+        const page = await ctx.db
+            .query("transactions")
+            .withIndex("by_type", (q) => q.eq("type", type))
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const transaction of page.page) {
+            // 1. Yield of an account-only stake (BLS rewards also credit commissions as bls_earned)
+            if (!transaction.referenceId || transaction.amount <= 0) continue;
+            if (!/^(Daily yield|Final pro-rated yield)/.test(transaction.description)) continue;
+
+            const stakeId = ctx.db.normalizeId("stakes", transaction.referenceId);
+            const stake = stakeId ? await ctx.db.get(stakeId) : null;
+            // Legacy user stakes were already paid by the old distributor
+            if (!stake?.accountId || stake.userId) continue;
+
+            const yieldDate = transaction.description.match(YIELD_DATE_SUFFIX)?.[1] ?? getRunDate(transaction.timestamp);
+
+            // 2. Already paid by the account-aware distributor?
+            const payout = await ctx.db
+                .query("reward_payouts")
+                .withIndex("by_stakeId_date", (q) => q.eq("stakeId", stake._id).eq("date", yieldDate))
+                .first();
+            if (payout?.unilevelPaid) continue;
+
+            const existingCommission = await ctx.db
+                .query("commission_history")
+                .withIndex("by_sourceStakeId_date", (q) => q.eq("sourceStakeId", stake._id).eq("date", yieldDate))
+                .first();
+            if (existingCommission) continue;
+
+            // 3. Distribute and mark the day's payout (when the reward run recorded one)
+            const paid = await distributeUnilevelCommissions(ctx, stake._id, transaction.amount, yieldDate);
+            if (payout) {
+                await ctx.db.patch(payout._id, {
+                    unilevelPaid: true,
+                    commissionsAmount: payout.commissionsAmount + paid,
+                });
+            }
+
+            yieldsProcessed++;
+            totalPaid += paid;
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillUnilevelCommissions.backfillUnilevelCommissions, {
+                type,
+                cursor: page.continueCursor,
+                yieldsProcessed,
+                totalPaid,
+            });
+        } else if (type === "yield") {
+            // USDT yield done - continue with yield paid in BLS
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillUnilevelCommissions.backfillUnilevelCommissions, {
+                type: "bls_earned",
+                cursor: null,
+                yieldsProcessed,
+                totalPaid,
+            });
+        } else {
+            console.log(`Unilevel commission backfill complete: ${yieldsProcessed} yields, ${totalPaid.toFixed(2)} paid`);
+        }
+
+        return { type, yieldsProcessed, totalPaid, isDone: page.isDone && type === "bls_earned" };
+    },
+});
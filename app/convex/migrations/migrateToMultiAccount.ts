@@ -101,6 +101,7 @@ export const migrateToMultiAccount = internalMutation({
                         teamVolume: user.teamVolume,
                         directReferralsCount: user.directReferralsCount,
                         walletBalance: user.walletBalance,
+                        walletBalanceMicros: user.walletBalanceMicros,
                         depositAddress: user.depositAddress,
                         depositAddressLinkedAt: user.depositAddressLinkedAt,
                         activeDirectReferrals: user.activeDirectReferrals,
@@ -108,6 +109,7 @@ export const migrateToMultiAccount = internalMutation({
                         lastUnlockUpdate: user.lastUnlockUpdate,
                         totalBRankBonusReceived: user.totalBRankBonusReceived,
                         blsBalance: user.blsBalance,
+                        blsBalanceMicros: user.blsBalanceMicros,
                         createdAt: user.createdAt,
                     });
                     console.log(`Created account for ${user.email}`);
@@ -0,0 +1,67 @@
+import { internalMutation } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { updateActiveDirects } from "../unilevel/activeDirectsCalculator";
+
+/**
+ * Repair: recompute every member's cached active directs and unlocked levels
+ *
+ * activeDirectReferrals / unlockedLevels are adjusted incrementally on stake lifecycle
+ * events (unilevel/activeDirectsCalculator.ts). This recounts them from scratch - for
+ * accounts first, then legacy users - fixing any drift, and is scheduled after a unilevel
+ * plan change so unlockedLevels follow the new unlock rule. Pages through members,
+ * scheduling its own continuation.
+ *
+ * Safe to re-run:
+ *   npx convex run migrations/repairActiveDirects:repairActiveDirects
+ */
+
+// Each member scans all of their directs, so keep batches small
+const BATCH_SIZE = 50;
+
+export const repairActiveDirects = internalMutation({
+    args: {
+        table: v.optional(v.union(v.literal("accounts"), v.literal("users"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        membersProcessed: v.optional(v.number()),
+        corrected: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const table = args.table ?? "accounts";
+        let membersProcessed = args.membersProcessed ?? 0;
+        let corrected = args.corrected ?? 0;
+
+        const page = await ctx.db
+            .query(table)
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const member of page.page) {
+            const { activeDirects, unlockedLevels } = await updateActiveDirects(ctx, member._id);
+            if (member.activeDirectReferrals !== activeDirects || member.unlockedLevels !== unlockedLevels) {
+                corrected++;
+            }
+            membersProcessed++;
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.repairActiveDirects.repairActiveDirects, {
+                table,
+                cursor: page.continueCursor,
+                membersProcessed,
+                corrected,
+            });
+        } else if (table === "accounts") {
+            // Accounts done - continue with legacy users
+            await ctx.scheduler.runAfter(0, internal.migrations.repairActiveDirects.repairActiveDirects, {
+                table: "users",
+                cursor: null,
+                membersProcessed,
+                corrected,
+            });
+        } else {
+            console.log(`Active directs repair complete: ${membersProcessed} members, ${corrected} corrected`);
+        }
+
+        return { table, membersProcessed, corrected, isDone: page.isDone && table === "users" };
+    },
+});
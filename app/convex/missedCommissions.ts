@@ -0,0 +1,139 @@
+import { query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { formatReportingDate } from "./unilevel/commissionRates";
+
+/**
+ * Missed Commissions ("flush")
+ * Commissions a member would have earned but was not paid, with the reason:
+ * - level_locked  Unilevel level not unlocked yet (not enough active directs)
+ * - inactive      Unilevel commission while the member had no / too little active stake
+ * - cap_reached   Over the B-Rank bonus cap (or the binary daily cap)
+ * - payout_cap    Over the global payout cap (unilevel, referral, B-Rank and binary)
+ *
+ * Stored as one row per member, month, type, reason and level, so the table grows with
+ * members rather than payouts. Binary pairing over the daily cap is already kept on
+ * binary_payouts (flushed) and is read from there by the report.
+ */
+
+export type MissedCommissionType = Doc<"missed_commissions">["type"];
+export type MissedCommissionReason = Doc<"missed_commissions">["reason"];
+
+/**
+ * Add a missed amount to the member's monthly total for its type, reason and level
+ */
+export async function recordMissedCommission(
+    ctx: MutationCtx,
+    recipientId: Id<"accounts"> | Id<"users">,
+    missed: {
+        type: MissedCommissionType;
+        reason: MissedCommissionReason;
+        amount: number;
+        level?: number;
+        timestamp?: number;
+    }
+) {
+    if (missed.amount <= 0) return;
+
+    const recipient = await ctx.db.get(recipientId);
+    if (!recipient) return;
+    const isAccount = "loginId" in recipient;
+
+    const timestamp = missed.timestamp ?? Date.now();
+    const { month } = formatReportingDate(timestamp);
+
+    const existing = isAccount
+        ? await ctx.db
+            .query("missed_commissions")
+            .withIndex("by_accountId_month", (q) => q.eq("accountId", recipientId as Id<"accounts">).eq("month", month))
+            .filter((q) => q.and(
+                q.eq(q.field("type"), missed.type),
+                q.eq(q.field("reason"), missed.reason),
+                q.eq(q.field("level"), missed.level)
+            ))
+            .first()
+        : await ctx.db
+            .query("missed_commissions")
+            .withIndex("by_userId_month", (q) => q.eq("userId", recipientId as Id<"users">).eq("month", month))
+            .filter((q) => q.and(
+                q.eq(q.field("type"), missed.type),
+                q.eq(q.field("reason"), missed.reason),
+                q.eq(q.field("level"), missed.level)
+            ))
+            .first();
+
+    if (existing) {
+        await ctx.db.patch(existing._id, {
+            amount: existing.amount + missed.amount,
+            count: existing.count + 1,
+            lastMissedAt: timestamp,
+        });
+    } else {
+        await ctx.db.insert("missed_commissions", {
+            accountId: isAccount ? (recipientId as Id<"accounts">) : undefined,
+            userId: isAccount ? undefined : (recipientId as Id<"users">),
+            month,
+            type: missed.type,
+            reason: missed.reason,
+            level: missed.level,
+            amount: missed.amount,
+            count: 1,
+            lastMissedAt: timestamp,
+        });
+    }
+}
+
+/**
+ * Get what an account missed in a month, largest amount first
+ * month: "YYYY-MM" (defaults to the current month)
+ */
+export const getMissedCommissionReport = query({
+    args: {
+        accountId: v.id("accounts"),
+        month: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const month = args.month ?? formatReportingDate(Date.now()).month;
+
+        // 1. Recorded misses (unilevel, referral, B-Rank, payout cap)
+        const rows = await ctx.db
+            .query("missed_commissions")
+            .withIndex("by_accountId_month", (q) => q.eq("accountId", args.accountId).eq("month", month))
+            .collect();
+
+        const items: Array<{
+            type: MissedCommissionType;
+            reason: MissedCommissionReason;
+            level?: number;
+            amount: number;
+            count: number;
+        }> = rows.map((r) => ({ type: r.type, reason: r.reason, level: r.level, amount: r.amount, count: r.count }));
+
+        // 2. Binary pairing over the daily cap (binary/pairingBonus.ts)
+        const binaryPayouts = await ctx.db
+            .query("binary_payouts")
+            .withIndex("by_accountId_date", (q) =>
+                q.eq("accountId", args.accountId).gte("date", `${month}-01`).lte("date", `${month}-31`)
+            )
+            .collect();
+        const flushed = binaryPayouts.filter((p) => p.flushed > 0);
+        if (flushed.length > 0) {
+            const flushedAmount = flushed.reduce((sum, p) => sum + p.flushed, 0);
+            const binaryItem = items.find((i) => i.type === "binary" && i.reason === "cap_reached");
+            if (binaryItem) {
+                binaryItem.amount += flushedAmount;
+                binaryItem.count += flushed.length;
+            } else {
+                items.push({ type: "binary", reason: "cap_reached", amount: flushedAmount, count: flushed.length });
+            }
+        }
+
+        items.sort((a, b) => b.amount - a.amount);
+
+        return {
+            month,
+            total: items.reduce((sum, i) => sum + i.amount, 0),
+            items,
+        };
+    },
+});
@@ -0,0 +1,99 @@
+/**
+ * Money Tests
+ *
+ * Tests the integer micro-unit helpers in money.ts:
+ * 1. Float <-> micros conversion and exact arithmetic
+ * 2. Percentages round down to whole micros
+ * 3. Member balances read and patch the micros fields (float fallback before the backfill)
+ * 4. On-chain amounts and display formatting
+ */
+
+import { describe, expect, test } from "vitest";
+import {
+    addMoney,
+    adjustBalanceFields,
+    balanceFields,
+    formatMicros,
+    fromMicros,
+    hasSufficientBalance,
+    memberBalanceMicros,
+    percentOfMicros,
+    rawAmountToMicros,
+    roundMoney,
+    subtractMoney,
+    toMicros,
+} from "./money";
+
+describe("Micros conversion", () => {
+    test("should convert amounts to whole micros", () => {
+        expect(toMicros(1.5)).toBe(1_500_000);
+        expect(toMicros(0.1 + 0.2)).toBe(300_000);
+        expect(toMicros(1.0000004)).toBe(1_000_000);
+        expect(toMicros(1.0000006)).toBe(1_000_001);
+        expect(toMicros(NaN)).toBe(0);
+        expect(fromMicros(2_500_000)).toBe(2.5);
+    });
+
+    test("should round to micro precision", () => {
+        expect(roundMoney(1.23456789)).toBe(1.234568);
+        expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    });
+
+    test("should add and subtract exactly", () => {
+        expect(addMoney(0.1, 0.2)).toBe(0.3);
+        expect(addMoney(0.1, 0.2, 0.3)).toBe(0.6);
+        expect(addMoney()).toBe(0);
+        expect(subtractMoney(0.3, 0.1)).toBe(0.2);
+        expect(subtractMoney(1, 1.5)).toBe(-0.5);
+    });
+
+    test("should round percentages down to whole micros", () => {
+        expect(percentOfMicros(1_000_000, 15)).toBe(150_000);
+        expect(percentOfMicros(333_333, 10)).toBe(33_333);
+        expect(percentOfMicros(1, 50)).toBe(0);
+    });
+
+    test("should compare balances at micro precision", () => {
+        expect(hasSufficientBalance(0.3, 0.1 + 0.2)).toBe(true);
+        expect(hasSufficientBalance(10, 10.000001)).toBe(false);
+    });
+});
+
+describe("Member balances", () => {
+    test("should prefer the micros field and fall back to the float", () => {
+        expect(memberBalanceMicros({ walletBalance: 4, walletBalanceMicros: 5_000_000 })).toBe(5_000_000);
+        expect(memberBalanceMicros({ walletBalance: 2.5 })).toBe(2_500_000);
+        expect(memberBalanceMicros({ walletBalance: 2.5, blsBalance: 1 }, "BLS")).toBe(1_000_000);
+        expect(memberBalanceMicros({})).toBe(0);
+    });
+
+    test("should derive the float field from the micros", () => {
+        expect(balanceFields(1_500_000)).toEqual({ walletBalance: 1.5, walletBalanceMicros: 1_500_000 });
+        expect(balanceFields(1_500_000, "BLS")).toEqual({ blsBalance: 1.5, blsBalanceMicros: 1_500_000 });
+    });
+
+    test("should adjust a balance by a delta", () => {
+        expect(adjustBalanceFields({ walletBalance: 10 }, -2_500_000)).toEqual({ walletBalance: 7.5, walletBalanceMicros: 7_500_000 });
+        expect(adjustBalanceFields({ blsBalanceMicros: 1 }, 2, "BLS")).toEqual({ blsBalance: 0.000003, blsBalanceMicros: 3 });
+    });
+});
+
+describe("On-chain amounts and formatting", () => {
+    test("should convert raw token amounts, truncating extra decimals", () => {
+        expect(rawAmountToMicros("1500000", 6)).toBe(1_500_000);
+        expect(rawAmountToMicros("1234567890123456789", 18)).toBe(1_234_567);
+        expect(rawAmountToMicros("15", 0)).toBe(15_000_000);
+    });
+
+    test("should format micros for display", () => {
+        expect(formatMicros(1_234_500_000, "USDT")).toBe("$1,234.50");
+        expect(formatMicros(1_234_500_000, "BLS")).toBe("1,234.50 BLS");
+        expect(formatMicros(1_234_567)).toBe("1.23");
+        expect(formatMicros(1_234_567, undefined, { decimals: 4 })).toBe("1.2346");
+        expect(formatMicros(-2_500_000, "USDT")).toBe("-$2.50");
+    });
+
+    test("should not show a sign on amounts that round to zero", () => {
+        expect(formatMicros(-1, "USDT")).toBe("$0.00");
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Money
+ * Amounts are handled as integer micro-units (1 USDT / 1 BLS = 1,000,000 micros) so sums
+ * and balance checks are exact. Rows that store money carry the integer value in a
+ * *Micros field; the matching float field (amount, walletBalance, ...) is derived from it
+ * with fromMicros and kept for existing readers.
+ *
+ * Member balances work the same way: walletBalanceMicros / blsBalanceMicros are
+ * authoritative and walletBalance / blsBalance are derived from them (memberBalanceMicros
+ * falls back to the float for rows the backfill has not reached yet).
+ *
+ * Pure functions only - shared by Convex functions and the UI (see lib/money.ts).
+ */
+
+export const MICROS_PER_UNIT = 1_000_000;
+
+export type MoneyCurrency = "USDT" | "BLS";
+
+export type MemberBalances = {
+    walletBalance?: number;
+    walletBalanceMicros?: number;
+    blsBalance?: number;
+    blsBalanceMicros?: number;
+};
+
+/**
+ * Convert a float amount to integer micros (rounded to the nearest micro)
+ */
+export function toMicros(amount: number): number {
+    return Math.round((amount || 0) * MICROS_PER_UNIT);
+}
+
+/**
+ * Convert integer micros to a float amount
+ */
+export function fromMicros(micros: number): number {
+    return micros / MICROS_PER_UNIT;
+}
+
+/**
+ * Round a float amount to micro precision
+ */
+export function roundMoney(amount: number): number {
+    return fromMicros(toMicros(amount));
+}
+
+/**
+ * Add float amounts exactly (result rounded to micro precision)
+ */
+export function addMoney(...amounts: number[]): number {
+    return fromMicros(amounts.reduce((sum, amount) => sum + toMicros(amount), 0));
+}
+
+/**
+ * Subtract b from a exactly (result rounded to micro precision)
+ */
+export function subtractMoney(a: number, b: number): number {
+    return fromMicros(toMicros(a) - toMicros(b));
+}
+
+/**
+ * Apply a percentage to an amount, rounded down to whole micros (never pays out more than the rate)
+ */
+export function percentOfMicros(micros: number, percent: number): number {
+    return Math.floor((micros * percent) / 100);
+}
+
+/**
+ * Whether a balance covers an amount - exact at micro precision
+ */
+export function hasSufficientBalance(balance: number, amount: number): boolean {
+    return toMicros(balance) >= toMicros(amount);
+}
+
+/**
+ * A member's balance in one currency, in micros
+ */
+export function memberBalanceMicros(member: MemberBalances, currency: MoneyCurrency = "USDT"): number {
+    return currency === "BLS"
+        ? member.blsBalanceMicros ?? toMicros(member.blsBalance || 0)
+        : member.walletBalanceMicros ?? toMicros(member.walletBalance || 0);
+}
+
+/**
+ * Fields to patch to set a member's balance to micros (the float is derived from them)
+ */
+export function balanceFields(micros: number, currency: MoneyCurrency = "USDT") {
+    return currency === "BLS"
+        ? { blsBalance: fromMicros(micros), blsBalanceMicros: micros }
+        : { walletBalance: fromMicros(micros), walletBalanceMicros: micros };
+}
+
+/**
+ * Fields to patch to add deltaMicros (negative to subtract) to a member's balance
+ */
+export function adjustBalanceFields(member: MemberBalances, deltaMicros: number, currency: MoneyCurrency = "USDT") {
+    return balanceFields(memberBalanceMicros(member, currency) + deltaMicros, currency);
+}
+
+/**
+ * Convert an on-chain raw token amount (base units as a string) to micros
+ * Token decimals above 6 are truncated, never rounded up.
+ */
+export function rawAmountToMicros(amountRaw: string, decimals: number): number {
+    const raw = BigInt(amountRaw);
+    const micros = decimals >= 6
+        ? raw / BigInt(10) ** BigInt(decimals - 6)
+        : raw * BigInt(10) ** BigInt(6 - decimals);
+    return Number(micros);
+}
+
+/**
+ * Format micros for display ("$1,234.50" / "1,234.50 BLS", or "1,234.50" without a currency)
+ * Negative zero is shown as 0.
+ */
+export function formatMicros(
+    micros: number,
+    currency?: MoneyCurrency,
+    options: { decimals?: number } = {}
+): string {
+    const decimals = options.decimals ?? 2;
+    const value = fromMicros(micros) || 0;
+    const text = Math.abs(value).toLocaleString("en-US", {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+    });
+    const sign = value < 0 && text.replace(/[0.,]/g, "") !== "" ? "-" : "";
+    if (currency === "BLS") return `${sign}${text} BLS`;
+    if (currency === "USDT") return `${sign}$${text}`;
+    return `${sign}${text}`;
+}
@@ -0,0 +1,147 @@
+import { query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { getUserActiveStakeTotal } from "./rankHelpers";
+import { notify } from "./notifications";
+
+/**
+ * Global Payout Cap
+ * Optional platform-wide rule: an account's lifetime earnings (yield, referral bonuses,
+ * B-Rank bonuses and unilevel commissions) may not exceed N × its active principal.
+ * Configured in the payout_cap config ({ enabled, multiplier }), disabled by default.
+ *
+ * Like the B-Rank cap, the cap grows when the account stakes more and payouts resume.
+ */
+
+export const DEFAULT_PAYOUT_CAP = { enabled: false, multiplier: 3 };
+
+export type PayoutCapConfig = { enabled: boolean; multiplier: number };
+
+/**
+ * Get the payout cap config
+ */
+export async function getPayoutCapConfig(ctx: QueryCtx | MutationCtx): Promise<PayoutCapConfig> {
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "payout_cap"))
+        .first();
+
+    return { ...DEFAULT_PAYOUT_CAP, ...(config?.value || {}) };
+}
+
+/**
+ * Get payout cap status for an account or user
+ * alreadyReceived adds earnings not yet written (used by the reward simulation)
+ */
+export async function getPayoutCapStatus(
+    ctx: QueryCtx | MutationCtx,
+    id: Id<"accounts"> | Id<"users">,
+    options: { config?: PayoutCapConfig; alreadyReceived?: number } = {}
+) {
+    const config = options.config ?? await getPayoutCapConfig(ctx);
+    const recipient = await ctx.db.get(id);
+    const totalReceived = (recipient?.totalEarningsReceived || 0) + (options.alreadyReceived || 0);
+
+    if (!config.enabled) {
+        return {
+            isEnabled: false,
+            multiplier: config.multiplier,
+            totalActiveStake: 0,
+            currentCap: 0,
+            totalReceived,
+            remainingCap: Infinity,
+            isCapReached: false,
+        };
+    }
+
+    const totalActiveStake = await getUserActiveStakeTotal(ctx, id);
+    const currentCap = totalActiveStake * config.multiplier;
+    const remainingCap = Math.max(0, currentCap - totalReceived);
+
+    return {
+        isEnabled: true,
+        multiplier: config.multiplier,
+        totalActiveStake,
+        currentCap,
+        totalReceived,
+        remainingCap,
+        isCapReached: remainingCap <= 0,
+    };
+}
+
+/**
+ * Apply the payout cap to an amount about to be credited to an account or user
+ * Returns the amount that may be paid and adds it to the recipient's lifetime earnings.
+ * Call right before crediting; a return value of 0 means nothing should be paid.
+ */
+export async function applyPayoutCap(
+    ctx: MutationCtx,
+    id: Id<"accounts"> | Id<"users">,
+    amount: number
+): Promise<number> {
+    if (amount <= 0) return 0;
+
+    const recipient = await ctx.db.get(id);
+    if (!recipient) return 0;
+
+    const status = await getPayoutCapStatus(ctx, id);
+    const allowed = Math.min(amount, status.remainingCap);
+
+    // Lifetime earnings are tracked even while the cap is disabled, so enabling it is accurate
+    if (allowed > 0) {
+        await ctx.db.patch(id, {
+            totalEarningsReceived: (recipient.totalEarningsReceived || 0) + allowed,
+        });
+    }
+
+    // Notify once, on the payout that reaches the cap
+    if (status.isEnabled && status.remainingCap > 0 && allowed >= status.remainingCap) {
+        await notify(
+            ctx,
+            id,
+            "loginId" in recipient ? "account" : "user",
+            "system",
+            "Earnings Cap Reached",
+            `You've reached your earnings cap of $${status.currentCap.toFixed(2)} (${status.multiplier}x your active stake). Stake more to increase your cap and continue earning!`,
+            "Info",
+            {
+                cap: status.currentCap,
+                totalReceived: status.totalReceived + allowed,
+                totalActiveStake: status.totalActiveStake,
+                multiplier: status.multiplier,
+            }
+        );
+    }
+
+    return allowed;
+}
+
+/**
+ * Get payout cap information for a user or account
+ * Returns current cap, total received, remaining cap, etc.
+ */
+export const getPayoutCapInfo = query({
+    args: {
+        accountId: v.optional(v.union(v.id("accounts"), v.id("users"))),
+        userId: v.optional(v.id("users")), // Legacy support
+    },
+    handler: async (ctx, args) => {
+        const targetId = args.accountId || args.userId;
+        if (!targetId) {
+            throw new Error("Either accountId or userId must be provided");
+        }
+        const status = await getPayoutCapStatus(ctx, targetId);
+        // Infinity does not serialize - report no remaining cap when the rule is off
+        return { ...status, remainingCap: status.isEnabled ? status.remainingCap : null };
+    },
+});
+
+/**
+ * Get the payout cap config (Admin)
+ */
+export const getPayoutCapSettings = query({
+    args: {},
+    handler: async (ctx) => {
+        return await getPayoutCapConfig(ctx);
+    },
+});
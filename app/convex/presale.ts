@@ -1,6 +1,9 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { LEDGER_ACCOUNTS, postMemberDebit } from "./ledger";
+import { adjustBalanceFields, memberBalanceMicros, toMicros } from "./money";
+import { syncReferrerActiveDirects } from "./unilevel/activeDirectsCalculator";
 
 // --- Configuration ---
 
@@ -165,27 +168,33 @@ export const purchaseNode = mutation({
         if (!user) throw new Error("User not found");
 
         const totalCost = quantity * config.pricePerNode;
-        if (user.walletBalance < totalCost) {
+        if (memberBalanceMicros(user) < toMicros(totalCost)) {
             throw new Error(`Insufficient wallet balance. Required: $${totalCost}, Available: $${user.walletBalance}`);
         }
 
         // --- Atomic Transaction Execution ---
 
         // A. Deduct Balance
-        await ctx.db.patch(userId, {
-            walletBalance: user.walletBalance - totalCost,
-        });
+        await ctx.db.patch(userId, adjustBalanceFields(user, -toMicros(totalCost)));
 
         // B. Create Transaction Record
         const txId = await ctx.db.insert("transactions", {
             userId,
             amount: -totalCost,
+            amountMicros: -toMicros(totalCost),
             type: "deposit", // Using deposit type for deduction as per schema, or could add specific type if needed
             description: `Presale Purchase: ${quantity} Node(s)`,
             timestamp: now,
             status: "approved",
         });
 
+        await postMemberDebit(ctx, userId, totalCost, LEDGER_ACCOUNTS.PRESALE, {
+            type: "presale_purchase",
+            description: `Presale Purchase: ${quantity} Node(s)`,
+            referenceId: txId,
+            timestamp: now,
+        });
+
         // C. Create Presale Order
         const orderId = await ctx.db.insert("presaleOrders", {
             userId,
@@ -276,6 +285,7 @@ export const claimStakes = mutation({
             const newStakeId = await ctx.db.insert("stakes", {
                 userId,
                 amount: stake.nodeAmount,
+                amountMicros: toMicros(stake.nodeAmount),
                 cycleDays: config.stakingCycleDays,
                 dailyRate: config.stakingDailyRate,
                 startDate: now,
@@ -283,6 +293,9 @@ export const claimStakes = mutation({
                 status: "active",
             });
 
+            // Update referrer's active directs count (for Unilevel unlock)
+            await syncReferrerActiveDirects(ctx, userId, "activated");
+
             // Update presale stake record
             await ctx.db.patch(stake._id, {
                 status: "claimed",
@@ -0,0 +1,72 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import type { RankRule } from "./ranks";
+import { applyPayoutCap } from "./payoutCap";
+import { creditAccount, formatPayoutAmount } from "./crediting";
+
+/**
+ * Rank Achievement Rewards
+ * One-time reward for the first time an account ever reaches a rank, configured per rank
+ * as achievementReward on the rank rules (USDT amount, paid in BLS when BLS is enabled).
+ *
+ * Every rank an account reaches is recorded in rank_achievements, rewarded or not, so a
+ * rank is never paid twice - not after a demotion and re-promotion, nor when a reward is
+ * configured for a rank the account already held.
+ */
+
+/**
+ * Record (and pay) the ranks an account reached for the first time
+ * ranksReached: rules of every rank passed by a promotion (a jump from B1 to B3 reaches B2 and B3)
+ */
+export async function grantRankAchievements(
+    ctx: MutationCtx,
+    account: Doc<"accounts">,
+    ranksReached: RankRule[]
+) {
+    const now = Date.now();
+
+    for (const rule of ranksReached) {
+        // 1. Only the first time
+        const existing = await ctx.db
+            .query("rank_achievements")
+            .withIndex("by_accountId_rank", (q) => q.eq("accountId", account._id).eq("rank", rule.rank))
+            .first();
+        if (existing) continue;
+
+        // 2. Pay through the shared crediting flow (global payout cap applies)
+        const reward = rule.achievementReward || 0;
+        const paid = await applyPayoutCap(ctx, account._id, reward);
+        let currency;
+        let transactionId;
+        if (paid > 0) {
+            const credit = await creditAccount(ctx, {
+                recipientId: account._id,
+                amount: paid,
+                type: "rank_achievement",
+                description: `${rule.rank} Rank Achievement Reward`,
+                referenceId: rule.rank,
+                timestamp: now,
+                notification: (currency) => ({
+                    type: "rank",
+                    title: "Rank Achievement Reward",
+                    message: `You earned a one-time reward of ${formatPayoutAmount(paid, currency)} for reaching ${rule.rank}!`,
+                    icon: "Gift",
+                    data: { rank: rule.rank, amount: paid, currency },
+                }),
+            });
+            currency = credit.currency;
+            transactionId = credit.transactionId;
+        }
+
+        // 3. Record the achievement
+        await ctx.db.insert("rank_achievements", {
+            accountId: account._id,
+            rank: rule.rank,
+            reward,
+            paid,
+            currency,
+            transactionId,
+            achievedAt: now,
+        });
+    }
+}
@@ -1,6 +1,7 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
 import { getUserBRankCapInfo } from "./rankHelpers";
+import { getAccountRankProgress, getRankGracePeriod } from "./ranks";
 
 /**
  * Get B-Rank cap information for a user or account
@@ -31,3 +32,87 @@ export const getMyBRankCapInfo = query({
         throw new Error("Authentication not implemented");
     },
 });
+
+/**
+ * Get an account's rank changes, newest first
+ * Each entry has the old and new rank, why it changed and the volumes at the time.
+ */
+export const getRankHistory = query({
+    args: {
+        accountId: v.optional(v.id("accounts")),
+        userId: v.optional(v.id("users")), // Legacy support
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const limit = args.limit ?? 50;
+        if (args.accountId) {
+            return await ctx.db
+                .query("rank_history")
+                .withIndex("by_accountId", (q) => q.eq("accountId", args.accountId))
+                .order("desc")
+                .take(limit);
+        }
+        if (args.userId) {
+            return await ctx.db
+                .query("rank_history")
+                .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+                .order("desc")
+                .take(limit);
+        }
+        return [];
+    },
+});
+
+/**
+ * Get the most recent rank changes across all members (Admin)
+ */
+export const getRecentRankChanges = query({
+    args: {
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("rank_history")
+            .withIndex("by_timestamp")
+            .order("desc")
+            .take(args.limit ?? 100);
+    },
+});
+
+/**
+ * Get the rank grace period config (Admin)
+ */
+export const getRankGracePeriodSettings = query({
+    args: {},
+    handler: async (ctx) => {
+        return await getRankGracePeriod(ctx);
+    },
+});
+
+/**
+ * Get an account's progress towards its next rank
+ * Includes the pending downgrade when the current rank is at risk (grace period).
+ */
+export const getRankProgress = query({
+    args: {
+        accountId: v.id("accounts"),
+    },
+    handler: async (ctx, args) => {
+        const account = await ctx.db.get(args.accountId);
+        if (!account) return null;
+
+        const progress = await getAccountRankProgress(ctx, account);
+
+        let atRisk = null;
+        if (account.rankAtRiskSince !== undefined) {
+            const grace = await getRankGracePeriod(ctx);
+            atRisk = {
+                since: account.rankAtRiskSince,
+                downgradeTo: account.rankAtRiskRank ?? null,
+                expiresAt: account.rankAtRiskSince + grace.days * 24 * 60 * 60 * 1000,
+            };
+        }
+
+        return { ...progress, atRisk };
+    },
+});
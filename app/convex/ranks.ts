@@ -1,6 +1,8 @@
-import { MutationCtx } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { notify } from "./notifications";
+import { grantRankAchievements } from "./rankAchievements";
 
 // Helper to get rank weight for comparison
 function getRankWeight(rank: string): number {
@@ -8,8 +10,332 @@ function getRankWeight(rank: string): number {
     return ranks.indexOf(rank);
 }
 
+export type RankChangeReason = Doc<"rank_history">["reason"];
+
+export type RankRule = {
+    rank: string;
+    minTeamVolume: number;
+    minDirectReferrals: number;
+    requiredRankDirects?: { count: number; rank: string };
+    // Only directs with an active stake count towards minDirectReferrals and the structure requirement
+    activeDirectsOnly?: boolean;
+    // Max % of minTeamVolume a single direct's leg may contribute (e.g. 50) - unset means uncapped
+    maxLegContributionPercent?: number;
+    // One-time reward (USDT) the first time an account reaches this rank (see rankAchievements.ts)
+    achievementReward?: number;
+};
+
+// Grace period before a member who stops qualifying is downgraded (disabled by default)
+export const DEFAULT_RANK_GRACE_PERIOD = {
+    enabled: false,
+    days: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expired grace periods processed per scheduled batch
+const GRACE_BATCH_SIZE = 100;
+
+/**
+ * Get the rank grace period config
+ */
+export async function getRankGracePeriod(ctx: QueryCtx | MutationCtx): Promise<typeof DEFAULT_RANK_GRACE_PERIOD> {
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "rank_grace_period"))
+        .first();
+
+    return { ...DEFAULT_RANK_GRACE_PERIOD, ...(config?.value || {}) };
+}
+
+/**
+ * Get the rank rules, highest rank first
+ * Loaded once per evaluation pass and shared by every account it checks.
+ */
+export async function getRankRules(ctx: QueryCtx | MutationCtx): Promise<RankRule[]> {
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "rank_rules"))
+        .unique();
+
+    const rules: RankRule[] = [...(config?.value || [])];
+    rules.sort((a, b) => getRankWeight(b.rank) - getRankWeight(a.rank));
+    return rules;
+}
+
+/**
+ * Whether a team volume change can change an account's rank
+ * True when the volume crosses a rank's threshold, or reaches a rank whose rule depends on
+ * more than the total (active directs, leg caps) - below those, the rank cannot change
+ * unless a direct's rank changed.
+ */
+function mayChangeRank(fromVolume: number, toVolume: number, rules: RankRule[]): boolean {
+    const low = Math.min(fromVolume, toVolume);
+    const high = Math.max(fromVolume, toVolume);
+    return rules.some((rule) =>
+        (rule.minTeamVolume > low && rule.minTeamVolume <= high) ||
+        ((rule.activeDirectsOnly || hasLegCap(rule)) && rule.minTeamVolume <= high)
+    );
+}
+
+function hasLegCap(rule: RankRule): boolean {
+    return !!rule.maxLegContributionPercent && rule.maxLegContributionPercent > 0 && rule.maxLegContributionPercent < 100;
+}
+
+/**
+ * Team volume that counts towards a rule with a leg cap
+ * Personal volume counts in full; each direct's leg counts up to maxLegContributionPercent of minTeamVolume.
+ */
+function getQualifyingVolume(account: Doc<"accounts">, directReferrals: Doc<"accounts">[], rule: RankRule): number {
+    if (!hasLegCap(rule)) return account.teamVolume;
+
+    const legCap = (rule.minTeamVolume * rule.maxLegContributionPercent!) / 100;
+    const legsTotal = directReferrals.reduce((sum, d) => sum + (d.teamVolume || 0), 0);
+    const personalVolume = Math.max(0, account.teamVolume - legsTotal);
+
+    return directReferrals.reduce(
+        (sum, d) => sum + Math.min(d.teamVolume || 0, legCap),
+        personalVolume
+    );
+}
+
+/**
+ * Work out the highest rank an account qualifies for (nothing is written)
+ * Direct referrals (and which of them are active) are only loaded once a rule's
+ * volume requirement is met.
+ */
+async function evaluateRank(ctx: MutationCtx, account: Doc<"accounts">, rules: RankRule[]) {
+    let directReferrals: Doc<"accounts">[] | null = null;
+    let activeDirectReferrals: Doc<"accounts">[] | null = null;
+
+    // Check each rank requirement from highest to lowest
+    for (const rule of rules) {
+        if (account.teamVolume < rule.minTeamVolume) continue;
+
+        directReferrals ??= await ctx.db
+            .query("accounts")
+            .withIndex("by_referrerId", (q) => q.eq("referrerId", account._id))
+            .collect();
+
+        // Leg cap: no single direct's leg carries more than its share of the volume
+        const qualifyingVolume = getQualifyingVolume(account, directReferrals, rule);
+        if (qualifyingVolume < rule.minTeamVolume) continue;
+
+        // Count direct referrals (only those with active stakes when the rule says so)
+        if (rule.activeDirectsOnly) {
+            activeDirectReferrals ??= await getActiveDirectReferrals(ctx, directReferrals);
+        }
+        const countedDirects = rule.activeDirectsOnly ? activeDirectReferrals! : directReferrals;
+
+        if (countedDirects.length < rule.minDirectReferrals) continue;
+
+        // Check structure requirement (for B2+)
+        // Example: To reach B2, need 2 directs who are B1+
+        let qualifiedDirects: number | undefined;
+        if (rule.requiredRankDirects && rule.requiredRankDirects.count > 0) {
+            const requiredRank = rule.requiredRankDirects.rank;
+            qualifiedDirects = countedDirects.filter((d) =>
+                getRankWeight(d.currentRank) >= getRankWeight(requiredRank)
+            ).length;
+
+            if (qualifiedDirects < rule.requiredRankDirects.count) continue;
+        }
+
+        // Found highest rank that account qualifies for
+        return { rank: rule.rank, directReferrals: countedDirects.length, qualifiedDirects, qualifyingVolume };
+    }
+
+    return { rank: "B0", directReferrals: directReferrals?.length, qualifiedDirects: undefined, qualifyingVolume: undefined };
+}
+
+/**
+ * Progress towards the next rank in rank_rules (nothing is written)
+ * Each requirement of the next rank with the account's current figure, counted the way
+ * evaluateRank counts it (leg cap, active directs). nextRank is null at the top rank.
+ */
+export async function getAccountRankProgress(ctx: QueryCtx | MutationCtx, account: Doc<"accounts">) {
+    // Lowest rank first
+    const rules = (await getRankRules(ctx)).reverse();
+    const currentIndex = rules.findIndex((r) => r.rank === account.currentRank);
+    const nextRule = rules[currentIndex + 1];
+    if (!nextRule) return { currentRank: account.currentRank, nextRank: null, requirements: [], progressPercent: 100 };
+
+    const directReferrals = await ctx.db
+        .query("accounts")
+        .withIndex("by_referrerId", (q) => q.eq("referrerId", account._id))
+        .collect();
+    const countedDirects = nextRule.activeDirectsOnly
+        ? await getActiveDirectReferrals(ctx, directReferrals)
+        : directReferrals;
+
+    const requirements: Array<{
+        type: "team_volume" | "direct_referrals" | "qualified_directs";
+        label: string;
+        current: number;
+        required: number;
+        met: boolean;
+    }> = [];
+
+    const qualifyingVolume = getQualifyingVolume(account, directReferrals, nextRule);
+    requirements.push({
+        type: "team_volume",
+        label: hasLegCap(nextRule)
+            ? `Team volume (max ${nextRule.maxLegContributionPercent}% per leg)`
+            : "Team volume",
+        current: qualifyingVolume,
+        required: nextRule.minTeamVolume,
+        met: qualifyingVolume >= nextRule.minTeamVolume,
+    });
+
+    requirements.push({
+        type: "direct_referrals",
+        label: nextRule.activeDirectsOnly ? "Active direct referrals" : "Direct referrals",
+        current: countedDirects.length,
+        required: nextRule.minDirectReferrals,
+        met: countedDirects.length >= nextRule.minDirectReferrals,
+    });
+
+    if (nextRule.requiredRankDirects && nextRule.requiredRankDirects.count > 0) {
+        const requiredRank = nextRule.requiredRankDirects.rank;
+        const qualifiedDirects = countedDirects.filter((d) =>
+            getRankWeight(d.currentRank) >= getRankWeight(requiredRank)
+        ).length;
+        requirements.push({
+            type: "qualified_directs",
+            label: `Directs at ${requiredRank} or higher`,
+            current: qualifiedDirects,
+            required: nextRule.requiredRankDirects.count,
+            met: qualifiedDirects >= nextRule.requiredRankDirects.count,
+        });
+    }
+
+    // Overall progress: average of each requirement's progress (capped at 100% each)
+    const progressPercent = (requirements.reduce(
+        (sum, r) => sum + (r.required > 0 ? Math.min(r.current / r.required, 1) : 1),
+        0
+    ) / requirements.length) * 100;
+
+    return { currentRank: account.currentRank, nextRank: nextRule.rank, requirements, progressPercent };
+}
+
+/**
+ * Re-evaluate an account's rank and apply any change
+ * Records the change in rank_history and notifies the account.
+ * With the grace period enabled, a downgrade is held back: the account is marked
+ * "at risk" and keeps its rank until the window expires or it requalifies.
+ * Returns true when the rank changed.
+ */
+async function applyRankEvaluation(
+    ctx: MutationCtx,
+    account: Doc<"accounts">,
+    rules: RankRule[],
+    reason: RankChangeReason
+): Promise<boolean> {
+    const evaluation = await evaluateRank(ctx, account, rules);
+    const oldRank = account.currentRank;
+    const newRank = evaluation.rank;
+
+    // 1. Still qualifies - clear any pending downgrade
+    if (getRankWeight(newRank) >= getRankWeight(oldRank) && account.rankAtRiskSince !== undefined) {
+        await ctx.db.patch(account._id, { rankAtRiskSince: undefined, rankAtRiskRank: undefined });
+        if (newRank === oldRank) {
+            await notify(
+                ctx,
+                account._id,
+                "account",
+                "rank",
+                "Rank Secured",
+                `You meet the requirements for ${oldRank} again. Your rank is no longer at risk.`,
+                "Award",
+                { rank: oldRank }
+            );
+        }
+    }
+    if (newRank === oldRank) return false;
+
+    // 2. Downgrade - hold it back during the grace period
+    if (getRankWeight(newRank) < getRankWeight(oldRank)) {
+        const grace = await getRankGracePeriod(ctx);
+        if (grace.enabled && grace.days > 0) {
+            const now = Date.now();
+            const atRiskSince = account.rankAtRiskSince ?? now;
+            const expiresAt = atRiskSince + grace.days * DAY_MS;
+
+            if (now < expiresAt) {
+                if (account.rankAtRiskSince === undefined) {
+                    await ctx.db.patch(account._id, { rankAtRiskSince: now, rankAtRiskRank: newRank });
+                    await notify(
+                        ctx,
+                        account._id,
+                        "account",
+                        "rank",
+                        "Rank at Risk",
+                        `You no longer meet the requirements for ${oldRank}. Requalify by ${new Date(expiresAt).toISOString().slice(0, 10)} to keep it, otherwise your rank will change to ${newRank}.`,
+                        "Info",
+                        { rank: oldRank, qualifiedRank: newRank, expiresAt }
+                    );
+                } else if (account.rankAtRiskRank !== newRank) {
+                    await ctx.db.patch(account._id, { rankAtRiskRank: newRank });
+                }
+                return false;
+            }
+
+            reason = "grace_period_expired";
+        }
+    }
+
+    // 3. Apply the change
+    await ctx.db.patch(account._id, {
+        currentRank: newRank,
+        rankAtRiskSince: undefined,
+        rankAtRiskRank: undefined,
+    });
+
+    await ctx.db.insert("rank_history", {
+        accountId: account._id,
+        oldRank,
+        newRank,
+        reason,
+        teamVolume: account.teamVolume,
+        leftLegVolume: account.leftLegVolume,
+        rightLegVolume: account.rightLegVolume,
+        qualifyingVolume: evaluation.qualifyingVolume,
+        directReferrals: evaluation.directReferrals,
+        qualifiedDirects: evaluation.qualifiedDirects,
+        timestamp: Date.now(),
+    });
+
+    // Notify account of rank change
+    const isUpgrade = getRankWeight(newRank) > getRankWeight(oldRank);
+    await notify(
+        ctx,
+        account._id,
+        "account",
+        "rank",
+        isUpgrade ? "Rank Advancement!" : "Rank Update",
+        isUpgrade
+            ? `Congratulations! You've been promoted to ${newRank}! 🎉`
+            : `Your rank has been updated to ${newRank}.`,
+        isUpgrade ? "Award" : "Info",
+        { oldRank, newRank, isUpgrade }
+    );
+
+    // 4. One-time rewards for every rank passed on the way up
+    if (isUpgrade) {
+        const ranksReached = rules
+            .filter((r) => r.rank === newRank || (getRankWeight(r.rank) > getRankWeight(oldRank) && getRankWeight(r.rank) < getRankWeight(newRank)))
+            .reverse();
+        await grantRankAchievements(ctx, account, ranksReached);
+    }
+
+    return true;
+}
+
 /**
  * Update team volume for all uplines when a stake is created or expires
+ * Ranks are only re-checked where they can change (see mayChangeRank), and for referrers
+ * of accounts whose rank just changed (structure requirement). Changes to an account's
+ * directs are re-checked by updateRankForDirects.
  * @param ctx - Mutation context
  * @param accountId - Account whose stake changed (new system)
  * @param amount - Amount to add (positive) or subtract (negative)
@@ -18,29 +344,39 @@ export async function updateTeamVolume(ctx: MutationCtx, accountId: Id<"accounts
     let currentAccount = await ctx.db.get(accountId);
     if (!currentAccount) return;
 
-    // 1. Update Account's Own Volume (Total Volume = Personal + Team)
-    const newPersonalVolume = Math.max(0, (currentAccount.teamVolume || 0) + amount);
-    await ctx.db.patch(currentAccount._id, { teamVolume: newPersonalVolume });
+    const rules = await getRankRules(ctx);
+
+    // Apply the volume change to one account and re-check its rank if it could have changed
+    const applyVolume = async (account: Doc<"accounts">, downlineRankChanged: boolean) => {
+        // Ensure volume doesn't go below 0
+        const oldVolume = account.teamVolume || 0;
+        const newVolume = Math.max(0, oldVolume + amount);
+        await ctx.db.patch(account._id, { teamVolume: newVolume });
 
-    // Check for Rank Update for the account themselves
-    await updateRank(ctx, currentAccount._id);
+        const volumeAffectsRank = mayChangeRank(oldVolume, newVolume, rules);
+        if (!volumeAffectsRank && !downlineRankChanged) return false;
+
+        return await applyRankEvaluation(
+            ctx,
+            { ...account, teamVolume: newVolume },
+            rules,
+            volumeAffectsRank ? "team_volume" : "downline_rank"
+        );
+    };
+
+    // 1. Update Account's Own Volume (Total Volume = Personal + Team)
+    let rankChanged = await applyVolume(currentAccount, false);
 
     // 2. Traverse up the referral tree
     let depth = 0;
     const MAX_DEPTH = 50; // Reasonable limit for unilevel structure
 
     while (currentAccount && currentAccount.referrerId && depth < MAX_DEPTH) {
-        const referrer: any = await ctx.db.get(currentAccount.referrerId);
+        const referrer: Doc<"accounts"> | null = await ctx.db.get(currentAccount.referrerId);
         if (!referrer) break;
 
-        // Update volume
-        // Ensure volume doesn't go below 0
-        const newVolume = Math.max(0, (referrer.teamVolume || 0) + amount);
-        await ctx.db.patch(referrer._id, { teamVolume: newVolume });
-
-        // Check for Rank Update (Upgrade or Downgrade)
-        // This is crucial for dynamic rank management
-        await updateRank(ctx, referrer._id);
+        // My rank change might affect my referrer's structure requirement
+        rankChanged = await applyVolume(referrer, rankChanged);
 
         // Move up the tree
         currentAccount = referrer;
@@ -52,128 +388,112 @@ export async function updateTeamVolume(ctx: MutationCtx, accountId: Id<"accounts
  * Update user's rank based on current conditions
  * This function implements DYNAMIC RANK logic:
  * - Upgrades when conditions are met
- * - Downgrades immediately when conditions are no longer met
+ * - Downgrades when conditions are no longer met (after the grace period, when enabled)
  * 
  * Rank Requirements:
  * 1. Minimum Team Volume (accumulative stakes from all downlines)
- * 2. Minimum Direct Referrals count
+ * 2. Minimum Direct Referrals count (optionally only directs with active stakes)
  * 3. Structure Requirement (for B2+): Minimum 2 direct referrals who achieved previous rank
+ * 4. Optional leg cap: each direct's leg counts towards the volume up to a % of the requirement
  * 
  * Example for B2:
  * - Team Volume: $10,000
  * - Direct Referrals: 5
  * - Structure: 2 of the 5 directs must be B1 or higher
+ *
+ * A change is propagated up the referral tree only as far as referrers' ranks keep changing.
  */
-export async function updateRank(ctx: MutationCtx, accountId: Id<"accounts">) {
-    const account = await ctx.db.get(accountId);
-    if (!account) return;
-
-    const config = await ctx.db
-        .query("configs")
-        .withIndex("by_key", (q) => q.eq("key", "rank_rules"))
-        .unique();
+export async function updateRank(
+    ctx: MutationCtx,
+    accountId: Id<"accounts">,
+    reason: RankChangeReason = "recalculation"
+) {
+    const rules = await getRankRules(ctx);
 
-    const rules = config?.value || [];
-    // Sort rules by difficulty (highest rank first) to find the max rank met
-    rules.sort((a: any, b: any) => getRankWeight(b.rank) - getRankWeight(a.rank));
-
-    let newRank = "B0";
-
-    // Get Direct Referrals for structure check
-    const directReferrals = await ctx.db
-        .query("accounts")
-        .withIndex("by_referrerId", (q) => q.eq("referrerId", accountId))
-        .collect();
-
-    // Count active direct referrals (those with active stakes)
-    // For now, we count all direct referrals
-    // Future enhancement: Only count those with active stakes
-    const activeDirectsCount = directReferrals.length;
-
-    // Check each rank requirement from highest to lowest
-    for (const rule of rules) {
-        const volumeMet = account.teamVolume >= rule.minTeamVolume;
-        const directsMet = activeDirectsCount >= rule.minDirectReferrals;
+    let account = await ctx.db.get(accountId);
+    let changed = account ? await applyRankEvaluation(ctx, account, rules, reason) : false;
 
-        let structureMet = true;
-
-        // Check structure requirement (for B2+)
-        // Example: To reach B2, need 2 directs who are B1+
-        if (rule.requiredRankDirects && rule.requiredRankDirects.count > 0) {
-            const requiredRank = rule.requiredRankDirects.rank;
-            const requiredCount = rule.requiredRankDirects.count;
-
-            // Count how many direct referrals have achieved the required rank or higher
-            const qualifiedDirects = directReferrals.filter(d =>
-                getRankWeight(d.currentRank) >= getRankWeight(requiredRank)
-            ).length;
-
-            if (qualifiedDirects < requiredCount) {
-                structureMet = false;
-            }
-        }
-
-        // All conditions must be met
-        if (volumeMet && directsMet && structureMet) {
-            newRank = rule.rank;
-            break; // Found highest rank that account qualifies for
-        }
+    // Propagate change up the tree
+    // Example: If I downgrade from B1 to B0, my referrer might lose B2 qualification
+    let depth = 0;
+    while (changed && account?.referrerId && depth < 50) {
+        account = await ctx.db.get(account.referrerId);
+        if (!account) break;
+        changed = await applyRankEvaluation(ctx, account, rules, "downline_rank");
+        depth++;
     }
+}
 
-    // Update rank if it changed (upgrade or downgrade)
-    if (newRank !== account.currentRank) {
-        const oldRank = account.currentRank;
-        await ctx.db.patch(accountId, { currentRank: newRank });
-
-        // Notify account of rank change
-        const isUpgrade = getRankWeight(newRank) > getRankWeight(oldRank);
-        await notify(
-            ctx,
-            accountId,
-            "account",
-            "rank",
-            isUpgrade ? "Rank Advancement!" : "Rank Update",
-            isUpgrade
-                ? `Congratulations! You've been promoted to ${newRank}! 🎉`
-                : `Your rank has been updated to ${newRank}.`,
-            isUpgrade ? "Award" : "Info",
-            { oldRank, newRank, isUpgrade }
-        );
-
-        // Propagate change up the tree
-        // This is important because my rank change might affect my referrer's structure requirement
-        // Example: If I downgrade from B1 to B0, my referrer might lose B2 qualification
-        if (account.referrerId) {
-            // We don't need to update volume, just check rank
-            await updateRank(ctx, account.referrerId);
-        }
+/**
+ * Re-check an account's rank after its direct referrals changed
+ * A new direct, or a direct whose first stake opened / last stake closed, can meet (or
+ * stop meeting) minDirectReferrals and the structure requirement without any team volume
+ * change, so updateTeamVolume alone does not pick it up. Changes propagate up the tree.
+ * activityOnly: only a direct's active status changed, which only affects activeDirectsOnly rules.
+ */
+export async function updateRankForDirects(
+    ctx: MutationCtx,
+    accountId: Id<"accounts">,
+    options: { activityOnly?: boolean } = {}
+) {
+    if (options.activityOnly) {
+        const rules = await getRankRules(ctx);
+        if (!rules.some((rule) => rule.activeDirectsOnly)) return;
     }
+
+    await updateRank(ctx, accountId, "direct_referrals");
 }
 
 /**
- * Get active direct referrals count (those with active stakes)
- * This is a more strict check for "active referrals"
+ * Get the direct referrals that have at least one active stake
  */
-async function getActiveDirectReferralsCount(ctx: MutationCtx, accountId: Id<"accounts">): Promise<number> {
-    const directReferrals = await ctx.db
-        .query("accounts")
-        .withIndex("by_referrerId", (q) => q.eq("referrerId", accountId))
-        .collect();
-
-    let activeCount = 0;
+async function getActiveDirectReferrals(ctx: QueryCtx | MutationCtx, directReferrals: Doc<"accounts">[]): Promise<Doc<"accounts">[]> {
+    const active: Doc<"accounts">[] = [];
 
     for (const referral of directReferrals) {
         // Check if this referral has any active stakes
-        const activeStakes = await ctx.db
+        const activeStake = await ctx.db
             .query("stakes")
             .withIndex("by_accountId", (q) => q.eq("accountId", referral._id))
             .filter((q) => q.eq(q.field("status"), "active"))
-            .collect();
+            .first();
 
-        if (activeStakes.length > 0) {
-            activeCount++;
+        if (activeStake) {
+            active.push(referral);
         }
     }
 
-    return activeCount;
+    return active;
 }
+
+/**
+ * Apply downgrades whose grace period has expired
+ * Runs daily. Each expired account is re-evaluated: it is downgraded if it still falls
+ * short, or cleared if it requalified in the meantime (and the change propagates up).
+ * Schedules another batch while expired accounts remain.
+ */
+export const processRankGracePeriods = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const grace = await getRankGracePeriod(ctx);
+        const expiredBefore = Date.now() - grace.days * DAY_MS;
+
+        // With the grace period switched off, every pending downgrade is due
+        const expired = await ctx.db
+            .query("accounts")
+            .withIndex("by_rankAtRiskSince", (q) =>
+                grace.enabled ? q.gt("rankAtRiskSince", 0).lte("rankAtRiskSince", expiredBefore) : q.gt("rankAtRiskSince", 0)
+            )
+            .take(GRACE_BATCH_SIZE);
+
+        for (const account of expired) {
+            await updateRank(ctx, account._id);
+        }
+
+        if (expired.length === GRACE_BATCH_SIZE) {
+            await ctx.scheduler.runAfter(0, internal.ranks.processRankGracePeriods, {});
+        }
+
+        return { processed: expired.length };
+    },
+});
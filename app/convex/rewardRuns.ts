@@ -0,0 +1,238 @@
+import { internalMutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { createError, ErrorCodes } from "./errors";
+
+/**
+ * Reward Runs
+ * Per-day ledger for the daily reward distributor:
+ * - One reward_runs row per UTC date
+ * - One reward_payouts row per stake per yield day (catch-up days get their own rows)
+ * A stake with a "paid" row for a date is never paid again for that date,
+ * so a run that is triggered twice or fails halfway can safely be resumed.
+ */
+
+// ==================== HELPERS ====================
+
+/**
+ * Get the UTC run date ("YYYY-MM-DD") for a timestamp
+ */
+export function getRunDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().split("T")[0];
+}
+
+/**
+ * Get the run for a date, creating it if needed.
+ * Re-starting an existing run bumps its attempt counter and puts it back into "running".
+ */
+export async function startRewardRun(ctx: MutationCtx, date: string): Promise<Doc<"reward_runs">> {
+    const now = Date.now();
+    const existing = await ctx.db
+        .query("reward_runs")
+        .withIndex("by_date", (q) => q.eq("date", date))
+        .first();
+
+    if (existing) {
+        if (existing.status !== "completed") {
+            await ctx.db.patch(existing._id, {
+                status: "running",
+                startedAt: now,
+                attempts: existing.attempts + 1,
+            });
+        }
+        return (await ctx.db.get(existing._id))!;
+    }
+
+    const runId = await ctx.db.insert("reward_runs", {
+        date,
+        status: "running",
+        startedAt: now,
+        attempts: 1,
+        batchesProcessed: 0,
+        stakesProcessed: 0,
+        stakesExpired: 0,
+        stakesSkipped: 0,
+        stakesFailed: 0,
+        yieldDaysPaid: 0,
+        totalYieldDistributed: 0,
+        totalCommissionsDistributed: 0,
+    });
+
+    return (await ctx.db.get(runId))!;
+}
+
+/**
+ * Get the daily payout ledger row for a stake on a date (if any)
+ * The pro-rated final-day row is guarded by the stake's status instead.
+ */
+export async function getStakePayout(ctx: MutationCtx, stakeId: Id<"stakes">, date: string) {
+    return await ctx.db
+        .query("reward_payouts")
+        .withIndex("by_stakeId_date", (q) => q.eq("stakeId", stakeId).eq("date", date))
+        .filter((q) => q.neq(q.field("kind"), "final"))
+        .first();
+}
+
+/**
+ * Record the outcome of paying a stake for a date.
+ * The date is the yield day being paid, which differs from the run date when catching up missed days.
+ * Updates the existing row (daily or final) when a previously failed payout is retried.
+ */
+export async function recordStakePayout(
+    ctx: MutationCtx,
+    run: Doc<"reward_runs">,
+    stake: Doc<"stakes">,
+    date: string,
+    result: {
+        status: "paid" | "failed";
+        kind?: "daily" | "final";
+        yieldAmount: number;
+        commissionsAmount: number;
+        error?: string;
+    }
+) {
+    const kind = result.kind ?? "daily";
+    const existing = kind === "daily"
+        ? await getStakePayout(ctx, stake._id, date)
+        : await ctx.db
+            .query("reward_payouts")
+            .withIndex("by_stakeId_date", (q) => q.eq("stakeId", stake._id).eq("date", date))
+            .filter((q) => q.eq(q.field("kind"), "final"))
+            .first();
+    const row = {
+        runId: run._id,
+        date,
+        stakeId: stake._id,
+        accountId: stake.accountId,
+        userId: stake.userId,
+        kind,
+        status: result.status,
+        yieldAmount: result.yieldAmount,
+        commissionsAmount: result.commissionsAmount,
+        unilevelPaid: result.status === "paid",
+        error: result.error,
+        updatedAt: Date.now(),
+    };
+
+    if (existing) {
+        await ctx.db.replace(existing._id, row);
+    } else {
+        await ctx.db.insert("reward_payouts", row);
+    }
+}
+
+/**
+ * Add a processed batch's totals to the run
+ */
+export async function addRewardRunBatch(
+    ctx: MutationCtx,
+    runId: Id<"reward_runs">,
+    totals: {
+        stakesProcessed: number;
+        stakesExpired: number;
+        stakesSkipped: number;
+        yieldDaysPaid: number;
+        totalYield: number;
+        totalCommissions: number;
+        lastError?: string;
+    }
+) {
+    const run = await ctx.db.get(runId);
+    if (!run) return;
+
+    await ctx.db.patch(runId, {
+        batchesProcessed: run.batchesProcessed + 1,
+        stakesProcessed: run.stakesProcessed + totals.stakesProcessed,
+        stakesExpired: run.stakesExpired + totals.stakesExpired,
+        stakesSkipped: run.stakesSkipped + totals.stakesSkipped,
+        yieldDaysPaid: (run.yieldDaysPaid ?? 0) + totals.yieldDaysPaid,
+        totalYieldDistributed: run.totalYieldDistributed + totals.totalYield,
+        totalCommissionsDistributed: run.totalCommissionsDistributed + totals.totalCommissions,
+        lastError: totals.lastError ?? run.lastError,
+    });
+}
+
+/**
+ * Set the run's final status once every batch has been processed
+ * A run with failed payouts stays resumable as "partial"
+ */
+export async function finishRewardRun(ctx: MutationCtx, runId: Id<"reward_runs">): Promise<Doc<"reward_runs"> | null> {
+    const run = await ctx.db.get(runId);
+    if (!run) return null;
+
+    const failedPayouts = await ctx.db
+        .query("reward_payouts")
+        .withIndex("by_runId_status", (q) => q.eq("runId", runId).eq("status", "failed"))
+        .collect();
+
+    await ctx.db.patch(runId, {
+        status: failedPayouts.length > 0 ? "partial" : "completed",
+        completedAt: Date.now(),
+        stakesFailed: failedPayouts.length,
+    });
+
+    return await ctx.db.get(runId);
+}
+
+// ==================== ADMIN ====================
+
+/**
+ * Get recent reward runs (Admin)
+ */
+export const getRewardRuns = query({
+    args: { limit: v.optional(v.number()) },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("reward_runs")
+            .order("desc")
+            .take(args.limit || 30);
+    },
+});
+
+/**
+ * Get a reward run with its failed payouts (Admin)
+ */
+export const getRewardRunDetails = query({
+    args: { date: v.string() },
+    handler: async (ctx, args) => {
+        const run = await ctx.db
+            .query("reward_runs")
+            .withIndex("by_date", (q) => q.eq("date", args.date))
+            .first();
+        if (!run) return null;
+
+        const failedPayouts = await ctx.db
+            .query("reward_payouts")
+            .withIndex("by_runId_status", (q) => q.eq("runId", run._id).eq("status", "failed"))
+            .collect();
+
+        return { ...run, failedPayouts };
+    },
+});
+
+/**
+ * Resume a reward run that did not complete (Admin)
+ * Only stakes without a "paid" payout for the date are processed.
+ *   npx convex run rewardRuns:resumeRewardRun '{"date": "YYYY-MM-DD"}'
+ */
+export const resumeRewardRun = internalMutation({
+    args: { date: v.string() },
+    handler: async (ctx, args) => {
+        const run = await ctx.db
+            .query("reward_runs")
+            .withIndex("by_date", (q) => q.eq("date", args.date))
+            .first();
+
+        if (!run) {
+            throw createError(ErrorCodes.VALIDATION_ERROR, `No reward run found for ${args.date}`);
+        }
+        if (run.status === "completed") {
+            throw createError(ErrorCodes.VALIDATION_ERROR, `Reward run for ${args.date} is already completed`);
+        }
+
+        await ctx.scheduler.runAfter(0, internal.rewards.distributeDailyRewards, { date: args.date });
+
+        return { success: true, message: `Reward run for ${args.date} resumed` };
+    },
+});
@@ -0,0 +1,230 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { getRunDate } from "./rewardRuns";
+import { parseCommissionRates } from "./config";
+import { getPayoutCapConfig, getPayoutCapStatus } from "./payoutCap";
+import { calculateReferralBonuses, calculateVRankBonus } from "./rewards";
+import { calculateUnilevelCommissions } from "./unilevel/commissionDistributor";
+
+/**
+ * Reward Simulation
+ * Read-only dry run of distributeDailyRewards: what would be paid for one yield day,
+ * per account and per bonus type, using the same calculations as the distributor.
+ * Config overrides let admins see the impact of a plan change before saving it.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Active stakes simulated per page (each walks its referral and unilevel upline)
+const SIMULATION_PAGE_SIZE = 100;
+
+type SimulatedPayee = {
+    id: string;
+    type: "account" | "user";
+    name: string;
+    yield: number;
+    referralL1: number;
+    referralL2: number;
+    bRank: number;
+    unilevel: number;
+    total: number;
+};
+
+/**
+ * Simulate the daily reward run for a date (Admin)
+ * Nothing is written. Covers currently active stakes that earn on the date, one page of
+ * active stakes per call like the real run: call again with continueCursor (and the
+ * returned received / bRankReceived, so caps count earlier pages) until isDone, and add
+ * up the pages' totals and payees.
+ *
+ * Overrides:
+ * - stakingCycles: dailyRate per cycle length, applied to existing stakes of that length
+ * - rankRules: replaces rank_rules for B-Rank bonus rates and caps
+ * - unilevelRates: % of the yield per level like the unilevel plan (e.g. { "1": 3 }), replaces its rates
+ * - referralBonusesEnabled: replaces the referral_bonuses_enabled toggle
+ * - commissionRates: referral bonus levels (e.g. { L1: 15, L2: 10 }), replaces commission_rates
+ * - payoutCap: replaces the payout_cap config ({ enabled, multiplier })
+ */
+export const simulateDailyRewards = query({
+    args: {
+        date: v.optional(v.string()), // "YYYY-MM-DD" (UTC) - defaults to today
+        cursor: v.optional(v.union(v.string(), v.null())),
+        numItems: v.optional(v.number()),
+        // Simulated so far per payee id in earlier pages (payout cap / B-Rank cap)
+        received: v.optional(v.record(v.string(), v.number())),
+        bRankReceived: v.optional(v.record(v.string(), v.number())),
+        overrides: v.optional(v.object({
+            stakingCycles: v.optional(v.array(v.object({
+                days: v.number(),
+                dailyRate: v.number(),
+            }))),
+            rankRules: v.optional(v.array(v.any())),
+            unilevelRates: v.optional(v.record(v.string(), v.number())),
+            referralBonusesEnabled: v.optional(v.boolean()),
+            commissionRates: v.optional(v.record(v.string(), v.number())),
+            payoutCap: v.optional(v.object({
+                enabled: v.boolean(),
+                multiplier: v.number(),
+            })),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const date = args.date ?? getRunDate(Date.now());
+        const dayStart = Date.parse(`${date}T00:00:00.000Z`);
+        if (isNaN(dayStart)) {
+            throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+        }
+        const dayEnd = dayStart + DAY_MS;
+        const overrides = args.overrides ?? {};
+
+        // Percent, as stored in the unilevel plan - the distributor takes fractions
+        const unilevelRates = overrides.unilevelRates
+            ? Object.fromEntries(Object.entries(overrides.unilevelRates).map(([level, rate]) => {
+                if (!isFinite(rate) || rate < 0 || rate > 100) {
+                    throw new Error("Unilevel rates must be between 0 and 100%");
+                }
+                return [Number(level), rate / 100];
+            }))
+            : undefined;
+
+        const referralRates = overrides.commissionRates
+            ? parseCommissionRates(overrides.commissionRates)
+            : undefined;
+
+        const payoutCap = overrides.payoutCap ?? await getPayoutCapConfig(ctx);
+
+        const blsConfig = await ctx.db.query("blsConfig").first();
+        const currency = blsConfig?.isEnabled ? "BLS" : "USDT";
+
+        // 1. Next page of stakes that earn yield on the date
+        const page = await ctx.db
+            .query("stakes")
+            .withIndex("by_status", (q) => q.eq("status", "active"))
+            .paginate({ cursor: args.cursor ?? null, numItems: args.numItems ?? SIMULATION_PAGE_SIZE });
+        const stakes = page.page.filter((s) => s.startDate < dayEnd && s.endDate > dayStart);
+
+        type Payable = Doc<"accounts"> | Doc<"users">;
+        const received: Record<string, number> = { ...(args.received ?? {}) };
+        const payees = new Map<string, SimulatedPayee>();
+        const getPayee = (doc: Payable): SimulatedPayee => {
+            let payee = payees.get(doc._id);
+            if (!payee) {
+                payee = {
+                    id: doc._id,
+                    type: "loginId" in doc ? "account" : "user",
+                    name: doc.name || ("email" in doc ? doc.email : "") || "Unknown",
+                    yield: 0,
+                    referralL1: 0,
+                    referralL2: 0,
+                    bRank: 0,
+                    unilevel: 0,
+                    total: 0,
+                };
+                payees.set(doc._id, payee);
+            }
+            return payee;
+        };
+
+        // B-Rank bonuses simulated so far per sponsor, so caps are applied across stakes
+        const simulatedBRank = new Map<string, number>(Object.entries(args.bRankReceived ?? {}));
+        let cappedAmount = 0;
+
+        // Apply the global payout cap, counting what the payee has already been simulated to earn
+        const applyCap = async (doc: Payable, amount: number) => {
+            let allowed = amount;
+            if (payoutCap.enabled && amount > 0) {
+                const status = await getPayoutCapStatus(ctx, doc._id, {
+                    config: payoutCap,
+                    alreadyReceived: received[doc._id],
+                });
+                allowed = Math.min(amount, status.remainingCap);
+                cappedAmount += amount - allowed;
+            }
+            received[doc._id] = (received[doc._id] || 0) + allowed;
+            return allowed;
+        };
+
+        for (const stake of stakes) {
+            const stakerId = stake.accountId || stake.userId;
+            if (!stakerId) continue;
+            const staker = await ctx.db.get(stakerId);
+            if (!staker) continue;
+
+            // 2. Yield
+            const cycle = overrides.stakingCycles?.find((c) => c.days === stake.cycleDays);
+            const dailyRate = cycle ? cycle.dailyRate : stake.dailyRate;
+            const dailyYield = await applyCap(staker, (stake.amount * dailyRate) / 100);
+
+            const stakerPayee = getPayee(staker);
+            stakerPayee.yield += dailyYield;
+            stakerPayee.total += dailyYield;
+
+            // 3. Referral Bonuses (L1 direct, L2 and deeper levels indirect)
+            const referralBonuses = await calculateReferralBonuses(ctx, stakerId, dailyYield, {
+                enabled: overrides.referralBonusesEnabled,
+                rates: referralRates,
+            });
+            for (const bonus of referralBonuses) {
+                const commission = await applyCap(bonus.referrer, bonus.commission);
+                const payee = getPayee(bonus.referrer);
+                if (bonus.level === 1) payee.referralL1 += commission;
+                else payee.referralL2 += commission;
+                payee.total += commission;
+            }
+
+            // 4. B-Rank Bonus
+            const sponsorId = staker.referrerId;
+            const vrankBonus = await calculateVRankBonus(ctx, stakerId, dailyYield, {
+                rankRules: overrides.rankRules,
+                alreadyReceived: sponsorId ? simulatedBRank.get(sponsorId) : 0,
+            });
+            if (vrankBonus && vrankBonus.actualBonus > 0) {
+                const bonus = await applyCap(vrankBonus.directReferrer, vrankBonus.actualBonus);
+                const payee = getPayee(vrankBonus.directReferrer);
+                payee.bRank += bonus;
+                payee.total += bonus;
+                simulatedBRank.set(payee.id, (simulatedBRank.get(payee.id) || 0) + bonus);
+            }
+
+            // 5. Unilevel Commissions
+            const { commissions: unilevelCommissions } = await calculateUnilevelCommissions(ctx, stake, dailyYield, unilevelRates);
+            for (const commission of unilevelCommissions) {
+                const uplineUser = await ctx.db.get(commission.recipientId);
+                if (!uplineUser) continue;
+                const amount = await applyCap(uplineUser, commission.commission);
+                const payee = getPayee(uplineUser);
+                payee.unilevel += amount;
+                payee.total += amount;
+            }
+        }
+
+        const results = Array.from(payees.values()).sort((a, b) => b.total - a.total);
+        const totals = results.reduce(
+            (sum, p) => ({
+                yield: sum.yield + p.yield,
+                referralL1: sum.referralL1 + p.referralL1,
+                referralL2: sum.referralL2 + p.referralL2,
+                bRank: sum.bRank + p.bRank,
+                unilevel: sum.unilevel + p.unilevel,
+                total: sum.total + p.total,
+            }),
+            { yield: 0, referralL1: 0, referralL2: 0, bRank: 0, unilevel: 0, total: 0 }
+        );
+
+        return {
+            date,
+            currency,
+            overridden: Object.entries(overrides).filter(([, value]) => value !== undefined).map(([key]) => key),
+            stakesSimulated: stakes.length,
+            totals,
+            cappedAmount, // Withheld by the global payout cap
+            payees: results,
+            // Pass back for the next page
+            received,
+            bRankReceived: Object.fromEntries(simulatedBRank),
+            continueCursor: page.continueCursor,
+            isDone: page.isDone,
+        };
+    },
+});
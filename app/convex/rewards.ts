@@ -1,302 +1,778 @@
-import { mutation, internalMutation } from "./_generated/server";
+import { internalAction, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { v } from "convex/values";
-import { updateTeamVolume, updateRank } from "./ranks";
+import { Doc, Id } from "./_generated/dataModel";
+import { updateTeamVolume } from "./ranks";
+import { updateBinaryLegVolumes } from "./binary/legVolumes";
 import { notify } from "./notifications";
+import { applyPayoutCap } from "./payoutCap";
+import { creditAccount } from "./crediting";
+import { recordMissedCommission } from "./missedCommissions";
+import { getUserActiveStakeTotal } from "./rankHelpers";
+import { LEDGER_ACCOUNTS, postJournal, postMemberCredit } from "./ledger";
+import { adjustBalanceFields, fromMicros, toMicros } from "./money";
+import { DEFAULT_STAKING_CYCLES, parseCommissionRates } from "./config";
+import {
+    getRunDate,
+    startRewardRun,
+    getStakePayout,
+    recordStakePayout,
+    addRewardRunBatch,
+    finishRewardRun,
+} from "./rewardRuns";
+
+
+// Stakes processed per scheduled batch (keeps each mutation well inside Convex limits)
+const REWARD_BATCH_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Missed days paid per stake per run - a longer backlog is worked off over the following runs
+const MAX_CATCH_UP_DAYS = 7;
 
-
-export const distributeDailyRewards = mutation({
-    args: {},
-    handler: async (ctx) => {
+/**
+ * Distribute daily rewards for all active stakes
+ *
+ * Every invocation belongs to the reward run for its UTC date (see rewardRuns.ts):
+ * - A completed run is never paid again (duplicate cron trigger / manual re-run)
+ * - Stakes already marked "paid" for the date are skipped, so a partial run resumes safely
+ * - Each stake's outcome is recorded in reward_payouts
+ *
+ * The stakes themselves are processed by processRewardBatch, which pages through
+ * active stakes, settles each in its own transaction and schedules its own continuation
+ * until all have been handled.
+ */
+export const distributeDailyRewards = internalMutation({
+    args: {
+        date: v.optional(v.string()), // "YYYY-MM-DD" (UTC) - defaults to today
+    },
+    handler: async (ctx, args) => {
         const startTime = Date.now();
-        let stakesProcessed = 0;
-        let stakesExpired = 0;
-        let totalYield = 0;
-        let totalCommissions = 0;
-        let errors: string[] = [];
-
-        try {
-            // 1. Get Active Stakes
-            const stakes = await ctx.db
-                .query("stakes")
-                .withIndex("by_status", (q) => q.eq("status", "active"))
-                .collect();
-
-            const now = Date.now();
-
-            for (const stake of stakes) {
-                try {
-                    // Check if stake is expired
-                    if (now > stake.endDate) {
-                        await ctx.db.patch(stake._id, { status: "completed" });
-                        stakesExpired++;
-
-                        // When a stake expires, we need to update team volumes and ranks
-                        const stakerId = stake.accountId || stake.userId;
-                        if (stakerId) {
-                            const staker = await ctx.db.get(stakerId);
-                            if (staker) {
-                                // Subtract the stake amount from team volume
-                                // updateTeamVolume expects accountId, so use accountId if available
-                                if (stake.accountId) {
-                                    await updateTeamVolume(ctx, stake.accountId, -stake.amount);
-                                } else if (stake.userId) {
-                                    // For legacy userId, we'd need to find the account, but for now skip
-                                    // TODO: Handle legacy userId case properly
-                                }
-
-                                // NEW: Update referrer's active directs count (for Unilevel unlock)
-                                // updateActiveDirects expects userId, so skip if referrerId is accountId
-                                // TODO: updateActiveDirects needs to support accountId
-                                if (staker.referrerId && "loginId" in staker) {
-                                    // This is a user, not an account
-                                    const { updateActiveDirects } = await import("./unilevel/activeDirectsCalculator");
-                                    await updateActiveDirects(ctx, staker.referrerId as any);
-                                }
-                            }
-                        }
-                        continue;
-                    }
-
-                    // 2. Calculate Yield
-                    const dailyYield = (stake.amount * stake.dailyRate) / 100;
-                    totalYield += dailyYield;
-
-                    // Update Staker Wallet
-                    const stakerId = stake.accountId || stake.userId;
-                    if (!stakerId) continue;
-                    const staker = await ctx.db.get(stakerId);
-                    if (staker) {
-                        // Determine if staker is an account or user
-                        const isAccount = stake.accountId !== undefined;
-                        const stakerIdType = isAccount ? "account" : "user";
-
-                        // Check if BLS system is enabled
-                        const blsConfig = await ctx.db.query("blsConfig").first();
-                        const isBLSEnabled = blsConfig?.isEnabled || false;
-
-                        if (isBLSEnabled) {
-                            // Credit BLS instead of USDT (creditBLS creates the transaction record)
-                            // Note: transactionType is omitted so it defaults to "bls_earned" in creditBLS
-                            await ctx.runMutation(internal.bls.creditBLS, {
-                                accountId: stake.accountId || undefined,
-                                userId: stake.userId || undefined,
-                                amount: dailyYield,
-                                description: `Daily yield for $${stake.amount} stake (${stake.cycleDays} days)`,
-                                referenceId: stake._id,
-                                // transactionType omitted - defaults to "bls_earned" in creditBLS
-                            });
-
-                            // Notify user of daily earnings in BLS
-                            await notify(
-                                ctx,
-                                staker._id,
-                                stakerIdType,
-                                "earnings",
-                                "Daily Yield Credited (BLS)",
-                                `You earned ${dailyYield.toFixed(2)} BLS from your ${stake.cycleDays}-day stake! Swap to USDT anytime.`,
-                                "DollarSign",
-                                { amount: dailyYield, stakeId: stake._id, currency: "BLS" }
-                            );
-                        } else {
-                            // Credit USDT directly (existing behavior)
-                            // Use stakerId consistently (could be accountId or userId)
-                            await ctx.db.insert("transactions", {
-                                accountId: stake.accountId || undefined,
-                                userId: stake.userId || undefined,
-                                amount: dailyYield,
-                                type: "yield",
-                                referenceId: stake._id,
-                                description: `Daily yield for $${stake.amount} stake (${stake.cycleDays} days)`,
-                                timestamp: now,
-                            });
-
-                            await ctx.db.patch(staker._id, { walletBalance: (staker.walletBalance || 0) + dailyYield });
-
-                            // Notify user of daily earnings
-                            await notify(
-                                ctx,
-                                staker._id,
-                                stakerIdType,
-                                "earnings",
-                                "Daily Yield Credited",
-                                `You earned $${dailyYield.toFixed(2)} from your ${stake.cycleDays}-day stake!`,
-                                "DollarSign",
-                                { amount: dailyYield, stakeId: stake._id }
-                            );
-                        }
-                    }
-
-                    // 3. Distribute Commissions (Referral Bonuses)
-                    // Use stakerId (computed earlier) instead of stake.userId to handle accountId-only stakes
-                    const commissionsDistributed = await distributeReferralBonuses(ctx, stakerId, dailyYield, now, stake._id);
-                    totalCommissions += commissionsDistributed;
-
-                    // 4. Distribute B-Rank Bonuses
-                    // Use stakerId (computed earlier) instead of stake.userId to handle accountId-only stakes
-                    const vrankBonus = await distributeVRankBonuses(ctx, stakerId, dailyYield, now, stake._id);
-                    totalCommissions += vrankBonus;
-
-                    // 5. NEW: Distribute Unilevel Commissions (10 levels)
-                    const { distributeUnilevelCommissions } = await import("./unilevel/commissionDistributor");
-                    await distributeUnilevelCommissions(ctx, stake._id, dailyYield);
-
-                    // Update last yield date
-                    await ctx.db.patch(stake._id, { lastYieldDate: now });
-                    stakesProcessed++;
-                } catch (error: any) {
-                    errors.push(`Stake ${stake._id}: ${error.message}`);
-                }
-            }
-
-            const executionTime = Date.now() - startTime;
+        const runDate = args.date || getRunDate(startTime);
+        const run = await startRewardRun(ctx, runDate);
 
-            // Log successful execution
+        if (run.status === "completed") {
             await ctx.db.insert("cron_logs", {
                 jobName: "distribute-daily-rewards",
                 status: "success",
-                message: `Processed ${stakesProcessed} stakes, ${stakesExpired} expired`,
-                timestamp: now,
-                stakesProcessed,
-                stakesExpired,
-                totalYieldDistributed: totalYield,
-                totalCommissionsDistributed: totalCommissions,
-                executionTimeMs: executionTime,
-                details: errors.length > 0 ? `Errors: ${errors.join("; ")}` : undefined,
+                message: `Reward run for ${runDate} already completed - nothing to do`,
+                timestamp: startTime,
+                stakesProcessed: 0,
+                stakesExpired: 0,
+                totalYieldDistributed: 0,
+                totalCommissionsDistributed: 0,
+                executionTimeMs: Date.now() - startTime,
             });
+            return;
+        }
 
-        } catch (error: any) {
-            const executionTime = Date.now() - startTime;
+        await ctx.scheduler.runAfter(0, internal.rewards.processRewardBatch, {
+            runId: run._id,
+            cursor: null,
+        });
+    },
+});
 
-            // Log failed execution
-            await ctx.db.insert("cron_logs", {
-                jobName: "distribute-daily-rewards",
-                status: "failed",
-                message: error.message || "Unknown error",
-                timestamp: Date.now(),
-                stakesProcessed,
-                stakesExpired,
-                totalYieldDistributed: totalYield,
-                totalCommissionsDistributed: totalCommissions,
-                executionTimeMs: executionTime,
-                details: `Error: ${error.stack || error.message}`,
-            });
+/**
+ * Process one page of active stakes for a reward run
+ * Each stake is settled in its own mutation (settleStake), so a stake that throws has
+ * all of its writes rolled back and is recorded as failed by a mutation that pays nothing.
+ * Schedules the next page, or finalizes the run and writes its cron_logs entry after the last one.
+ */
+export const processRewardBatch = internalAction({
+    args: {
+        runId: v.id("reward_runs"),
+        cursor: v.union(v.string(), v.null()),
+    },
+    handler: async (ctx, args): Promise<void> => {
+        // 1. Get the next page of Active Stakes
+        const batch: { stakeIds: Id<"stakes">[]; continueCursor: string; isDone: boolean } | null =
+            await ctx.runQuery(internal.rewards.getRewardBatch, { runId: args.runId, cursor: args.cursor });
+        if (!batch) return;
+
+        const totals = {
+            stakesProcessed: 0,
+            stakesExpired: 0,
+            stakesSkipped: 0,
+            yieldDaysPaid: 0,
+            totalYield: 0,
+            totalCommissions: 0,
+        };
+        let lastError: string | undefined;
+        const now = Date.now();
+
+        // 2. Settle each stake - a failure only affects that stake
+        for (const stakeId of batch.stakeIds) {
+            try {
+                const settlement: StakeSettlement = await ctx.runMutation(internal.rewards.settleStake, {
+                    runId: args.runId,
+                    stakeId,
+                    now,
+                });
+                if (settlement.daysPaid > 0) totals.stakesProcessed++;
+                if (settlement.matured) totals.stakesExpired++;
+                totals.yieldDaysPaid += settlement.daysPaid;
+                totals.stakesSkipped += settlement.daysSkipped;
+                totals.totalYield += settlement.yieldAmount;
+                totals.totalCommissions += settlement.commissionsAmount;
+            } catch (error: any) {
+                // Nothing was written - the stake stays active and is retried when the run resumes
+                lastError = `Stake ${stakeId}: ${error.message}`;
+                await ctx.runMutation(internal.rewards.recordStakeFailure, {
+                    runId: args.runId,
+                    stakeId,
+                    error: error.message,
+                });
+            }
+        }
 
-            throw error;
+        // 3. Add the totals and continue (or finalize the run)
+        await ctx.runMutation(internal.rewards.finishRewardBatch, {
+            runId: args.runId,
+            ...totals,
+            lastError,
+            cursor: batch.isDone ? null : batch.continueCursor,
+        });
+    },
+});
+
+type StakeSettlement = {
+    daysPaid: number;
+    daysSkipped: number;
+    yieldAmount: number;
+    commissionsAmount: number;
+    matured: boolean;
+};
+
+/**
+ * Get the ids of the next page of active stakes for a running reward run
+ */
+export const getRewardBatch = internalQuery({
+    args: {
+        runId: v.id("reward_runs"),
+        cursor: v.union(v.string(), v.null()),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get(args.runId);
+        if (!run || run.status !== "running") return null;
+
+        const page = await ctx.db
+            .query("stakes")
+            .withIndex("by_status", (q) => q.eq("status", "active"))
+            .paginate({ cursor: args.cursor, numItems: REWARD_BATCH_SIZE });
+
+        return {
+            stakeIds: page.page.map((stake) => stake._id),
+            continueCursor: page.continueCursor,
+            isDone: page.isDone,
+        };
+    },
+});
+
+/**
+ * Pay every day a stake is owed and settle it once it has matured
+ * Runs as one transaction: if anything throws, nothing for the stake is paid or recorded.
+ */
+export const settleStake = internalMutation({
+    args: {
+        runId: v.id("reward_runs"),
+        stakeId: v.id("stakes"),
+        now: v.number(),
+    },
+    handler: async (ctx, args): Promise<StakeSettlement> => {
+        const settlement: StakeSettlement = { daysPaid: 0, daysSkipped: 0, yieldAmount: 0, commissionsAmount: 0, matured: false };
+
+        const run = await ctx.db.get(args.runId);
+        const stake = await ctx.db.get(args.stakeId);
+        // Unstaked or settled since the page was read
+        if (!run || run.status !== "running" || !stake || stake.status !== "active") return settlement;
+
+        // Pay every full day owed since lastYieldDate (capped at endDate)
+        const paid = await settleStakeYield(ctx, run, stake, args.now);
+        settlement.daysPaid = paid.daysPaid;
+        settlement.daysSkipped = paid.daysSkipped;
+        settlement.yieldAmount = paid.yieldAmount;
+        settlement.commissionsAmount = paid.commissionsAmount;
+
+        // Settle the stake once it has ended and every full day has been paid
+        const fullDaysOutstanding = stake.endDate - paid.lastYieldDate >= DAY_MS;
+        if (args.now > stake.endDate && !fullDaysOutstanding) {
+            const maturity = await settleMaturedStake(ctx, run, stake, paid.lastYieldDate, args.now);
+            settlement.yieldAmount += maturity.yieldAmount;
+            settlement.commissionsAmount += maturity.commissionsAmount;
+            settlement.matured = true;
         }
+
+        return settlement;
     },
 });
 
 /**
- * Distribute Referral Bonuses (L1 and L2)
- * L1 (Direct Referral): 15% of referral stake yield
- * L2 (Indirect Referral): 10% of referral stake yield
+ * Record a stake whose settlement threw as failed for the run
+ * The failure is recorded against the first day the stake is owed (or its final
+ * pro-rated day when only the maturity remains), so the run stays resumable.
  */
-async function distributeReferralBonuses(ctx: any, stakerId: any, yieldAmount: number, now: number, stakeId: any): Promise<number> {
-    // Check if referral bonuses are enabled
-    const referralBonusesConfig = await ctx.db
-        .query("configs")
-        .withIndex("by_key", (q: any) => q.eq("key", "referral_bonuses_enabled"))
+export const recordStakeFailure = internalMutation({
+    args: {
+        runId: v.id("reward_runs"),
+        stakeId: v.id("stakes"),
+        error: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get(args.runId);
+        const stake = await ctx.db.get(args.stakeId);
+        if (!run || !stake) return;
+
+        const lastYieldDate = stake.lastYieldDate ?? stake.startDate;
+        const finalDayOnly = stake.endDate - lastYieldDate < DAY_MS;
+        await recordStakePayout(ctx, run, stake, getRunDate(finalDayOnly ? stake.endDate : lastYieldDate + DAY_MS), {
+            status: "failed",
+            kind: finalDayOnly ? "final" : "daily",
+            yieldAmount: 0,
+            commissionsAmount: 0,
+            error: args.error,
+        });
+    },
+});
+
+/**
+ * Add a processed batch's totals to the run, then schedule the next page
+ * (cursor set) or finalize the run and log the aggregated totals
+ */
+export const finishRewardBatch = internalMutation({
+    args: {
+        runId: v.id("reward_runs"),
+        stakesProcessed: v.number(),
+        stakesExpired: v.number(),
+        stakesSkipped: v.number(),
+        yieldDaysPaid: v.number(),
+        totalYield: v.number(),
+        totalCommissions: v.number(),
+        lastError: v.optional(v.string()),
+        cursor: v.union(v.string(), v.null()),
+    },
+    handler: async (ctx, args) => {
+        const { runId, cursor, ...totals } = args;
+        await addRewardRunBatch(ctx, runId, totals);
+
+        // 1. More stakes left - continue in a fresh action
+        if (cursor !== null) {
+            await ctx.scheduler.runAfter(0, internal.rewards.processRewardBatch, { runId, cursor });
+            return;
+        }
+
+        // 2. Last batch - finalize the run and log the aggregated totals
+        const finished = await finishRewardRun(ctx, runId);
+        if (!finished) return;
+
+        const cronLogId = await ctx.db.insert("cron_logs", {
+            jobName: "distribute-daily-rewards",
+            status: "success",
+            message: `Run ${finished.date} (attempt ${finished.attempts}): paid ${finished.yieldDaysPaid ?? 0} yield days across ${finished.stakesProcessed} stakes, ${finished.stakesExpired} matured, ${finished.stakesSkipped} days already paid in ${finished.batchesProcessed} batches`,
+            timestamp: Date.now(),
+            stakesProcessed: finished.stakesProcessed,
+            stakesExpired: finished.stakesExpired,
+            totalYieldDistributed: finished.totalYieldDistributed,
+            totalCommissionsDistributed: finished.totalCommissionsDistributed,
+            executionTimeMs: Date.now() - finished.startedAt,
+            details: finished.stakesFailed > 0
+                ? `${finished.stakesFailed} stakes failed (run is resumable). Last error: ${finished.lastError}`
+                : undefined,
+        });
+
+        await ctx.db.patch(runId, { cronLogId });
+    },
+});
+
+/**
+ * Settle a stake that has reached its endDate
+ * 1. Pay the pro-rated yield for the final partial day (lastYieldDate → endDate)
+ * 2. Return the principal to the owner's wallet with a stake_matured transaction (or renew it)
+ * 3. Mark the stake completed and update team volumes, ranks and active directs
+ * 4. Notify the owner
+ * Must run inside a transaction that fails as a whole (settleStake): the stake is only
+ * flipped to "completed" once its principal has been returned, so it is never settled twice
+ * and never closed without paying the principal.
+ */
+async function settleMaturedStake(
+    ctx: MutationCtx,
+    run: Doc<"reward_runs">,
+    stake: Doc<"stakes">,
+    lastYieldDate: number,
+    now: number
+): Promise<{ yieldAmount: number; commissionsAmount: number }> {
+    // Re-read - compounding earlier in this batch may have grown the principal
+    const matured = await ctx.db.get(stake._id);
+    if (!matured) return { yieldAmount: 0, commissionsAmount: 0 };
+    stake = matured;
+
+    const stakerId = stake.accountId || stake.userId;
+    if (!stakerId) return { yieldAmount: 0, commissionsAmount: 0 };
+
+    // 1. Pro-rated yield for the time between the last full day and endDate
+    let yieldAmount = 0;
+    let commissionsAmount = 0;
+    const finalDayFraction = Math.max(0, stake.endDate - lastYieldDate) / DAY_MS;
+    if (finalDayFraction > 0) {
+        const yieldDate = getRunDate(stake.endDate);
+        const paid = await payStakeReward(ctx, stake, now, yieldDate, finalDayFraction);
+        if (paid) {
+            yieldAmount = paid.yieldAmount;
+            commissionsAmount = paid.commissionsAmount;
+            await recordStakePayout(ctx, run, stake, yieldDate, {
+                status: "paid",
+                kind: "final",
+                yieldAmount,
+                commissionsAmount,
+            });
+        }
+    }
+
+    const staker = await ctx.db.get(stakerId);
+    if (!staker) return { yieldAmount, commissionsAmount };
+
+    // 2. Roll the principal into a new stake when auto-renew is on (team volume is unchanged)
+    const renewedStakeId = stake.autoRenew ? await renewStake(ctx, stake, now) : null;
+    if (renewedStakeId) {
+        await ctx.db.patch(stake._id, { status: "completed", lastYieldDate: stake.endDate });
+        await notify(
+            ctx,
+            staker._id,
+            stake.accountId ? "account" : "user",
+            "stake",
+            "Stake Renewed",
+            `Your ${stake.cycleDays}-day stake has matured and $${stake.amount.toFixed(2)} was automatically restaked for another ${stake.cycleDays} days.`,
+            "TrendingUp",
+            { stakeId: stake._id, renewedStakeId, principal: stake.amount, finalYield: yieldAmount }
+        );
+        return { yieldAmount, commissionsAmount };
+    }
+
+    // Otherwise return principal (always USDT - principal is not a reward)
+    await ctx.db.patch(staker._id, adjustBalanceFields(staker, toMicros(stake.amount)));
+    await ctx.db.insert("transactions", {
+        accountId: stake.accountId || undefined,
+        userId: stake.userId || undefined,
+        amount: stake.amount,
+        amountMicros: toMicros(stake.amount),
+        type: "stake_matured",
+        referenceId: stake._id,
+        description: `Principal returned from matured $${stake.amount} stake (${stake.cycleDays} days)`,
+        timestamp: now,
+    });
+    await postMemberCredit(ctx, staker._id, stake.amount, LEDGER_ACCOUNTS.PLATFORM_LIABILITY, {
+        type: "stake_matured",
+        description: `Principal returned from matured $${stake.amount} stake (${stake.cycleDays} days)`,
+        referenceId: stake._id,
+        timestamp: now,
+    });
+
+    // 3. Principal returned - close the stake (active directs below count its status)
+    await ctx.db.patch(stake._id, { status: "completed", lastYieldDate: stake.endDate });
+
+    // When a stake matures, we need to update team volumes and ranks
+    // Subtract the stake amount from team volume
+    if (stake.accountId) {
+        await updateTeamVolume(ctx, stake.accountId, -stake.amount);
+        await updateBinaryLegVolumes(ctx, stake.accountId, -stake.amount);
+    } else if (stake.userId) {
+        // Legacy user stake: its volume was carried over to the user's default account when
+        // it was migrated (leg volumes never counted it, see migrations/backfillBinaryLegVolumes.ts)
+        const legacyAccountId = await findLegacyUserAccountId(ctx, stake.userId);
+        if (legacyAccountId) {
+            await updateTeamVolume(ctx, legacyAccountId, -stake.amount);
+        } else {
+            console.error(`Legacy stake ${stake._id} matured but user ${stake.userId} has no account - team volume not reduced by $${stake.amount}`);
+        }
+    }
+
+    // NEW: Update referrer's active directs count (for Unilevel unlock)
+    const { syncReferrerActiveDirects } = await import("./unilevel/activeDirectsCalculator");
+    await syncReferrerActiveDirects(ctx, staker._id, "deactivated");
+
+    // 4. Notify owner
+    await notify(
+        ctx,
+        staker._id,
+        stake.accountId ? "account" : "user",
+        "stake",
+        "Stake Matured",
+        `Your ${stake.cycleDays}-day stake has matured. $${stake.amount.toFixed(2)} principal has been returned to your wallet.`,
+        "CheckCircle",
+        { stakeId: stake._id, principal: stake.amount, finalYield: yieldAmount }
+    );
+
+    return { yieldAmount, commissionsAmount };
+}
+
+/**
+ * Find the default account a legacy user was migrated to (matched by login email, as in createStake)
+ */
+async function findLegacyUserAccountId(ctx: MutationCtx, userId: Id<"users">): Promise<Id<"accounts"> | null> {
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+
+    const login = await ctx.db
+        .query("logins")
+        .withIndex("by_email", (q) => q.eq("email", user.email))
+        .first();
+    if (!login) return null;
+
+    const account = await ctx.db
+        .query("accounts")
+        .withIndex("by_loginId", (q) => q.eq("loginId", login._id))
+        .filter((q) => q.eq(q.field("isDefault"), true))
         .first();
+    return account?._id ?? null;
+}
+
+/**
+ * Restake a matured stake's principal into the same staking_cycles entry
+ * The new stake starts at the old endDate (no gap in yield) with the current daily rate
+ * and inherits the compounding/renewal preferences.
+ * Returns null when the cycle no longer exists, so the principal is returned instead.
+ */
+async function renewStake(ctx: MutationCtx, stake: Doc<"stakes">, now: number) {
+    const cycleConfig = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "staking_cycles"))
+        .unique();
 
-    const isReferralBonusesEnabled = referralBonusesConfig?.value ?? false;
+    const cycles = cycleConfig?.value || DEFAULT_STAKING_CYCLES;
+    const cycle = cycles.find((c: any) => c.days === stake.cycleDays);
+    if (!cycle) return null;
+
+    const startDate = stake.endDate;
+    const renewedStakeId = await ctx.db.insert("stakes", {
+        accountId: stake.accountId,
+        userId: stake.userId,
+        amount: stake.amount,
+        amountMicros: toMicros(stake.amount),
+        cycleDays: stake.cycleDays,
+        dailyRate: cycle.dailyRate,
+        startDate,
+        endDate: startDate + stake.cycleDays * DAY_MS,
+        status: "active",
+        lastYieldDate: startDate,
+        autoCompound: stake.autoCompound,
+        autoRenew: stake.autoRenew,
+        renewedFromStakeId: stake._id,
+    });
+
+    // Same ledger shape as a manual unstake + restake: principal back, then staked again
+    await ctx.db.insert("transactions", {
+        accountId: stake.accountId || undefined,
+        userId: stake.userId || undefined,
+        amount: stake.amount,
+        amountMicros: toMicros(stake.amount),
+        type: "stake_matured",
+        referenceId: stake._id,
+        description: `Principal from matured $${stake.amount} stake (${stake.cycleDays} days) auto-renewed`,
+        timestamp: now,
+    });
+    await ctx.db.insert("transactions", {
+        accountId: stake.accountId || undefined,
+        userId: stake.userId || undefined,
+        amount: -stake.amount,
+        amountMicros: -toMicros(stake.amount),
+        type: "deposit",
+        referenceId: renewedStakeId,
+        description: `Auto-renewed ${stake.amount} USDT for ${stake.cycleDays} days`,
+        timestamp: now,
+    });
+
+    return renewedStakeId;
+}
+
+/**
+ * Pay every full day of yield a stake is owed
+ *
+ * Days owed = full days elapsed since lastYieldDate, capped at endDate, so a skipped
+ * cron day is paid on the next run instead of being lost. Each day gets its own
+ * reward_payouts row (keyed by the UTC date the day ended) and its own transactions.
+ * lastYieldDate advances by whole days so the fractional remainder is never lost.
+ */
+async function settleStakeYield(
+    ctx: MutationCtx,
+    run: Doc<"reward_runs">,
+    stake: Doc<"stakes">,
+    now: number
+): Promise<{
+    daysPaid: number;
+    daysSkipped: number;
+    yieldAmount: number;
+    commissionsAmount: number;
+    lastYieldDate: number;
+}> {
+    const result = { daysPaid: 0, daysSkipped: 0, yieldAmount: 0, commissionsAmount: 0 };
+
+    let lastYieldDate = stake.lastYieldDate ?? stake.startDate;
+    const payableUntil = Math.min(now, stake.endDate);
+    const daysOwed = Math.min(Math.floor((payableUntil - lastYieldDate) / DAY_MS), MAX_CATCH_UP_DAYS);
+
+    for (let day = 0; day < daysOwed; day++) {
+        const dayEnd = lastYieldDate + DAY_MS;
+        const yieldDate = getRunDate(dayEnd);
+
+        // Re-read each day - compounding grows the principal the next day's yield is based on
+        const current = await ctx.db.get(stake._id);
+        if (!current) break;
+
+        // Never pay the same stake twice for the same date
+        const existingPayout = await getStakePayout(ctx, stake._id, yieldDate);
+        if (existingPayout?.status === "paid") {
+            result.daysSkipped++;
+        } else {
+            // Errors propagate - settleStake rolls the whole stake back and records the failure
+            const paid = await payStakeReward(ctx, current, now, yieldDate);
+            if (!paid) break;
+
+            await recordStakePayout(ctx, run, stake, yieldDate, {
+                status: "paid",
+                yieldAmount: paid.yieldAmount,
+                commissionsAmount: paid.commissionsAmount,
+            });
+
+            result.daysPaid++;
+            result.yieldAmount += paid.yieldAmount;
+            result.commissionsAmount += paid.commissionsAmount;
+        }
+
+        // Update last yield date
+        lastYieldDate = dayEnd;
+        await ctx.db.patch(stake._id, { lastYieldDate });
+    }
+
+    return { ...result, lastYieldDate };
+}
 
-    // If disabled, return immediately without distributing any bonuses
+/**
+ * Pay one day of yield for a stake plus the commissions it generates
+ * dayFraction < 1 pays a pro-rated partial day (final day before maturity)
+ * Returns null when the stake has no owner to pay
+ */
+async function payStakeReward(
+    ctx: MutationCtx,
+    stake: Doc<"stakes">,
+    now: number,
+    yieldDate: string,
+    dayFraction: number = 1
+): Promise<{ yieldAmount: number; commissionsAmount: number } | null> {
+    // 2. Calculate Yield
+    const grossYield = ((stake.amount * stake.dailyRate) / 100) * dayFraction;
+    const yieldDescription = dayFraction < 1
+        ? `Final pro-rated yield (${(dayFraction * 100).toFixed(1)}% of a day) for $${stake.amount} stake (${stake.cycleDays} days) - ${yieldDate}`
+        : `Daily yield for $${stake.amount} stake (${stake.cycleDays} days) - ${yieldDate}`;
+    let commissionsAmount = 0;
+
+    // Update Staker Wallet
+    const stakerId = stake.accountId || stake.userId;
+    if (!stakerId) return null;
+    const staker = await ctx.db.get(stakerId);
+
+    // Respect the global payout cap - yield above the cap is not paid, and neither are commissions on it
+    const dailyYield = staker ? await applyPayoutCap(ctx, staker._id, grossYield) : grossYield;
+
+    if (staker && dailyYield > 0) {
+        // Determine if staker is an account or user
+        const isAccount = stake.accountId !== undefined;
+        const stakerIdType = isAccount ? "account" : "user";
+
+        if (stake.autoCompound && dayFraction === 1) {
+            // Compound: grow the stake principal instead of crediting the wallet
+            // (the pro-rated final day is always paid out since the principal is returned at maturity)
+            const amountMicros = toMicros(stake.amount) + toMicros(dailyYield);
+            await ctx.db.patch(stake._id, { amount: fromMicros(amountMicros), amountMicros });
+
+            await ctx.db.insert("transactions", {
+                accountId: stake.accountId || undefined,
+                userId: stake.userId || undefined,
+                amount: dailyYield,
+                amountMicros: toMicros(dailyYield),
+                type: "yield_compounded",
+                referenceId: stake._id,
+                description: `Compounded ${yieldDescription.charAt(0).toLowerCase()}${yieldDescription.slice(1)}`,
+                timestamp: now,
+            });
+
+            // Paid straight into the locked principal, never through the member's wallet
+            await postJournal(ctx, {
+                type: "yield_compounded",
+                description: `Compounded ${yieldDescription.charAt(0).toLowerCase()}${yieldDescription.slice(1)}`,
+                referenceId: stake._id,
+                timestamp: now,
+                entries: [
+                    { ledgerAccount: LEDGER_ACCOUNTS.REWARDS, debit: dailyYield },
+                    { ledgerAccount: LEDGER_ACCOUNTS.PLATFORM_LIABILITY, credit: dailyYield },
+                ],
+            });
+
+            // Larger principal counts toward team volume (and ranks) for the whole upline
+            if (stake.accountId) {
+                await updateTeamVolume(ctx, stake.accountId, dailyYield);
+                await updateBinaryLegVolumes(ctx, stake.accountId, dailyYield);
+            }
+
+            await notify(
+                ctx,
+                staker._id,
+                stakerIdType,
+                "earnings",
+                "Daily Yield Compounded",
+                `$${dailyYield.toFixed(2)} from your ${stake.cycleDays}-day stake was added to its principal.`,
+                "TrendingUp",
+                { amount: dailyYield, stakeId: stake._id, yieldDate, compounded: true }
+            );
+        } else {
+            // Credit BLS or USDT (BLS yield is logged as "bls_earned" for the earnings page)
+            await creditAccount(ctx, {
+                recipientId: staker._id,
+                amount: dailyYield,
+                type: "yield",
+                blsType: "bls_earned",
+                description: yieldDescription,
+                referenceId: stake._id,
+                timestamp: now,
+                notification: (currency) => ({
+                    type: "earnings",
+                    title: currency === "BLS" ? "Daily Yield Credited (BLS)" : "Daily Yield Credited",
+                    message: currency === "BLS"
+                        ? `You earned ${dailyYield.toFixed(2)} BLS from your ${stake.cycleDays}-day stake! Swap to USDT anytime.`
+                        : `You earned $${dailyYield.toFixed(2)} from your ${stake.cycleDays}-day stake!`,
+                    icon: "DollarSign",
+                    data: { amount: dailyYield, stakeId: stake._id, yieldDate, ...(currency === "BLS" ? { currency } : {}) },
+                }),
+            });
+        }
+    }
+
+    // 3. Distribute Commissions (Referral Bonuses)
+    // Use stakerId (computed earlier) instead of stake.userId to handle accountId-only stakes
+    const commissionsDistributed = await distributeReferralBonuses(ctx, stakerId, dailyYield, now, stake._id);
+    commissionsAmount += commissionsDistributed;
+
+    // 4. Distribute B-Rank Bonuses
+    // Use stakerId (computed earlier) instead of stake.userId to handle accountId-only stakes
+    const vrankBonus = await distributeVRankBonuses(ctx, stakerId, dailyYield, now, stake._id);
+    commissionsAmount += vrankBonus;
+
+    // 5. NEW: Distribute Unilevel Commissions (10 levels)
+    const { distributeUnilevelCommissions } = await import("./unilevel/commissionDistributor");
+    commissionsAmount += await distributeUnilevelCommissions(ctx, stake._id, dailyYield, yieldDate);
+
+    return { yieldAmount: dailyYield, commissionsAmount };
+}
+
+/**
+ * Calculate Referral Bonuses for a yield amount without paying them
+ * Level count and rates come from the commission_rates config (default L1 15%, L2 10%).
+ * Shared by the distributor and the reward simulation.
+ */
+export async function calculateReferralBonuses(
+    ctx: QueryCtx | MutationCtx,
+    stakerId: any,
+    yieldAmount: number,
+    options: { enabled?: boolean; rates?: Array<{ level: number; rate: number }> } = {}
+): Promise<Array<{ referrer: any; source: any; level: number; rate: number; commission: number }>> {
+    // Check if referral bonuses are enabled
+    let isReferralBonusesEnabled = options.enabled;
+    if (isReferralBonusesEnabled === undefined) {
+        const referralBonusesConfig = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q: any) => q.eq("key", "referral_bonuses_enabled"))
+            .first();
+        isReferralBonusesEnabled = referralBonusesConfig?.value ?? false;
+    }
+
+    // If disabled, no bonuses are distributed
     if (!isReferralBonusesEnabled) {
-        return 0;
+        return [];
+    }
+
+    // Get the referral bonus levels
+    let levelRates = options.rates;
+    if (!levelRates) {
+        const ratesConfig = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q: any) => q.eq("key", "commission_rates"))
+            .first();
+        levelRates = parseCommissionRates(ratesConfig?.value);
     }
 
+    const bonuses: Array<{ referrer: any; source: any; level: number; rate: number; commission: number }> = [];
     let currentUserId = stakerId;
     let level = 1;
-    const MAX_LEVELS = 2; // Only L1 and L2 for referral bonuses
-    let totalCommissions = 0;
+    const MAX_LEVELS = Math.max(0, ...levelRates.map((l) => l.level));
 
     while (level <= MAX_LEVELS) {
-        const user = await ctx.db.get(currentUserId);
+        const user: any = await ctx.db.get(currentUserId);
         if (!user || !user.referrerId) break;
 
-        const referrer = await ctx.db.get(user.referrerId);
+        const referrer: any = await ctx.db.get(user.referrerId);
         if (!referrer) break;
 
         // Calculate Rate based on Level
-        let rate = 0;
-        if (level === 1) rate = 15; // L1: 15%
-        if (level === 2) rate = 10; // L2: 10%
+        const rate = levelRates.find((l) => l.level === level)?.rate ?? 0;
 
         if (rate > 0) {
-            const commission = (yieldAmount * rate) / 100;
-            totalCommissions += commission;
-
-            // Check if BLS system is enabled
-            const blsConfig = await ctx.db.query("blsConfig").first();
-            const isBLSEnabled = blsConfig?.isEnabled || false;
-
-            if (isBLSEnabled) {
-                // Determine if referrer is an account or user
-                const isReferrerAccount = "loginId" in referrer;
-                const referrerIdType = isReferrerAccount ? "account" : "user";
-                
-                // Credit BLS instead of USDT
-                await ctx.runMutation(internal.bls.creditBLS, {
-                    accountId: isReferrerAccount ? referrer._id : undefined,
-                    userId: !isReferrerAccount ? referrer._id : undefined,
-                    amount: commission,
-                    description: `L${level} Referral Bonus from ${user.name}'s stake`,
-                    referenceId: stakeId,
-                    transactionType: level === 1 ? "commission_direct" : "commission_indirect",
-                });
-
-                // Notify referrer of commission in BLS
-                await notify(
-                    ctx,
-                    referrer._id,
-                    referrerIdType,
-                    "commission",
-                    `L${level} Commission Earned (BLS)`,
-                    `You earned ${commission.toFixed(2)} BLS commission from ${user.name}'s stake! Swap to USDT anytime.`,
-                    "Gift",
-                    { amount: commission, level, fromUser: user.name, fromUserId: user._id, currency: "BLS" }
-                );
-            } else {
-                // Credit USDT directly (existing behavior)
-                await ctx.db.insert("transactions", {
-                    userId: referrer._id,
-                    amount: commission,
-                    type: level === 1 ? "commission_direct" : "commission_indirect",
-                    referenceId: stakeId,
-                    description: `L${level} Referral Bonus from ${user.name}'s stake`,
-                    timestamp: now,
-                });
-
-                await ctx.db.patch(referrer._id, { walletBalance: (referrer.walletBalance || 0) + commission });
-
-                // Determine if referrer is an account or user for notification
-                const isReferrerAccount = "loginId" in referrer;
-                const referrerIdType = isReferrerAccount ? "account" : "user";
-                
-                // Notify referrer of commission
-                await notify(
-                    ctx,
-                    referrer._id,
-                    referrerIdType,
-                    "commission",
-                    `L${level} Commission Earned`,
-                    `You earned $${commission.toFixed(2)} commission from ${user.name}'s stake!`,
-                    "Gift",
-                    { amount: commission, level, fromUser: user.name, fromUserId: user._id }
-                );
-            }
+            bonuses.push({ referrer, source: user, level, rate, commission: (yieldAmount * rate) / 100 });
         }
 
         currentUserId = referrer._id;
         level++;
     }
 
+    return bonuses;
+}
+
+/**
+ * Distribute Referral Bonuses
+ * See calculateReferralBonuses for the levels and rates
+ */
+async function distributeReferralBonuses(ctx: any, stakerId: any, yieldAmount: number, now: number, stakeId: any): Promise<number> {
+    const bonuses = await calculateReferralBonuses(ctx, stakerId, yieldAmount);
+    let totalCommissions = 0;
+
+    for (const { referrer, source: user, level, rate, commission: grossCommission } of bonuses) {
+        // Respect the global payout cap
+        const commission = await applyPayoutCap(ctx, referrer._id, grossCommission);
+        if (commission < grossCommission) {
+            await recordMissedCommission(ctx, referrer._id, {
+                type: "referral",
+                reason: "payout_cap",
+                amount: grossCommission - commission,
+                level,
+                timestamp: now,
+            });
+        }
+        if (commission <= 0) continue;
+        totalCommissions += commission;
+
+        await creditAccount(ctx, {
+            recipientId: referrer._id,
+            amount: commission,
+            type: level === 1 ? "commission_direct" : "commission_indirect",
+            description: `L${level} Referral Bonus from ${user.name}'s stake`,
+            referenceId: stakeId,
+            timestamp: now,
+            metadata: { commissionLevel: level, commissionRate: rate },
+            notification: (currency) => ({
+                type: "commission",
+                title: currency === "BLS" ? `L${level} Commission Earned (BLS)` : `L${level} Commission Earned`,
+                message: currency === "BLS"
+                    ? `You earned ${commission.toFixed(2)} BLS commission from ${user.name}'s stake! Swap to USDT anytime.`
+                    : `You earned $${commission.toFixed(2)} commission from ${user.name}'s stake!`,
+                icon: "Gift",
+                data: { amount: commission, level, fromUser: user.name, fromUserId: user._id, ...(currency === "BLS" ? { currency } : {}) },
+            }),
+        });
+    }
+
     return totalCommissions;
 }
 
 /**
- * Distribute B-Rank Bonuses with Capping
+ * Calculate the B-Rank Bonus with Capping for a yield amount without paying it
  * B-Rank bonus is calculated as a percentage of the direct referrals' daily yields
  * The percentage is based on the user's current B-Rank (commissionRate from config)
  * 
@@ -311,102 +787,132 @@ async function distributeReferralBonuses(ctx: any, stakerId: any, yieldAmount: n
  * - User stakes $100 more → Total active = $300 → New cap = $600
  * - User can now receive $200 more in bonuses
  */
-async function distributeVRankBonuses(ctx: any, stakerId: any, yieldAmount: number, now: number, stakeId: any): Promise<number> {
+export async function calculateVRankBonus(
+    ctx: QueryCtx | MutationCtx,
+    stakerId: any,
+    yieldAmount: number,
+    options: { rankRules?: any[]; alreadyReceived?: number } = {}
+) {
     // Get the staker
-    const staker = await ctx.db.get(stakerId);
-    if (!staker || !staker.referrerId) return 0;
+    const staker: any = await ctx.db.get(stakerId);
+    if (!staker || !staker.referrerId) return null;
 
     // Get the direct referrer (sponsor)
-    const directReferrer = await ctx.db.get(staker.referrerId);
-    if (!directReferrer) return 0;
+    const directReferrer: any = await ctx.db.get(staker.referrerId);
+    if (!directReferrer) return null;
 
     // Only distribute B-Rank bonus if the referrer has a rank (B1 or higher)
-    if (directReferrer.currentRank === "B0") return 0;
+    if (directReferrer.currentRank === "B0") return null;
 
     // Get the rank configuration to find the commission rate and capping multiplier
-    const config = await ctx.db
-        .query("configs")
-        .withIndex("by_key", (q: any) => q.eq("key", "rank_rules"))
-        .unique();
-
-    const rules = config?.value || [];
-    const rankRule = rules.find((r: any) => r.rank === directReferrer.currentRank);
-
-    if (!rankRule || !rankRule.commissionRate) return 0;
+    let rules = options.rankRules;
+    if (!rules) {
+        const config = await ctx.db
+            .query("configs")
+            .withIndex("by_key", (q: any) => q.eq("key", "rank_rules"))
+            .unique();
+        rules = config?.value || [];
+    }
+    const rankRule = rules!.find((r: any) => r.rank === directReferrer.currentRank);
 
-    // NEW: Calculate current cap based on active stakes
-    const activeStakes = await ctx.db
-        .query("stakes")
-        .withIndex("by_userId", (q: any) => q.eq("userId", directReferrer._id))
-        .filter((q: any) => q.eq(q.field("status"), "active"))
-        .collect();
+    if (!rankRule || !rankRule.commissionRate) return null;
 
-    const totalActiveStake = activeStakes.reduce((sum: number, stake: any) => sum + stake.amount, 0);
+    // NEW: Calculate current cap based on active stakes (account or legacy user)
+    const totalActiveStake = await getUserActiveStakeTotal(ctx, directReferrer._id);
     const cappingMultiplier = rankRule.cappingMultiplier || 0;
     const currentCap = totalActiveStake * cappingMultiplier;
 
     // NEW: Check if cap is reached
-    const totalReceived = directReferrer.totalBRankBonusReceived || 0;
+    // (alreadyReceived lets the simulation account for bonuses it has not written)
+    const totalReceived = (directReferrer.totalBRankBonusReceived || 0) + (options.alreadyReceived || 0);
     const remainingCap = currentCap - totalReceived;
 
-    if (remainingCap <= 0) {
-        // Cap reached, no bonus distributed
-        return 0;
-    }
-
     // Calculate B-Rank bonus as a percentage of the direct referral's yield
     const calculatedBonus = (yieldAmount * rankRule.commissionRate) / 100;
 
-    // NEW: Cap the bonus if it exceeds remaining cap
-    const actualBonus = Math.min(calculatedBonus, remainingCap);
-
-    // Determine if directReferrer is an account or user (needed for all notification calls)
-    const isDirectReferrerAccount = "loginId" in directReferrer;
-    const directReferrerIdType = isDirectReferrerAccount ? "account" : "user";
-    
-    // Check if BLS system is enabled
-    const blsConfig = await ctx.db.query("blsConfig").first();
-    const isBLSEnabled = blsConfig?.isEnabled || false;
-
-    if (isBLSEnabled) {
-        // Credit BLS instead of USDT
-        await ctx.runMutation(internal.bls.creditBLS, {
-            accountId: isDirectReferrerAccount ? directReferrer._id : undefined,
-            userId: !isDirectReferrerAccount ? directReferrer._id : undefined,
-            amount: actualBonus,
-            description: `${directReferrer.currentRank} Rank Bonus from ${staker.name}'s stake`,
-            referenceId: stakeId,
-            transactionType: "commission_vrank",
-        });
+    // NEW: Cap the bonus if it exceeds remaining cap (nothing once the cap is reached)
+    const actualBonus = remainingCap > 0 ? Math.min(calculatedBonus, remainingCap) : 0;
+
+    return {
+        staker,
+        directReferrer,
+        calculatedBonus,
+        actualBonus,
+        currentCap,
+        totalReceived,
+        totalActiveStake,
+        cappingMultiplier,
+    };
+}
 
-        // Update total B-Rank bonuses received
-        await ctx.db.patch(directReferrer._id, {
-            totalBRankBonusReceived: totalReceived + actualBonus
-        });
-    } else {
-        // Credit USDT directly (existing behavior)
-        await ctx.db.insert("transactions", {
-            userId: directReferrer._id,
-            amount: actualBonus,
-            type: "commission_vrank",
-            referenceId: stakeId,
-            description: `${directReferrer.currentRank} Rank Bonus from ${staker.name}'s stake`,
+/**
+ * Distribute B-Rank Bonuses
+ * See calculateVRankBonus for the rate and cap rules
+ */
+async function distributeVRankBonuses(ctx: any, stakerId: any, yieldAmount: number, now: number, stakeId: any): Promise<number> {
+    const bonus = await calculateVRankBonus(ctx, stakerId, yieldAmount);
+    if (!bonus) return 0;
+
+    // Record what the B-Rank cap held back
+    if (bonus.actualBonus < bonus.calculatedBonus) {
+        await recordMissedCommission(ctx, bonus.directReferrer._id, {
+            type: "brank",
+            reason: "cap_reached",
+            amount: bonus.calculatedBonus - Math.max(bonus.actualBonus, 0),
             timestamp: now,
         });
+    }
+    if (bonus.actualBonus <= 0) {
+        // Cap reached
+        return 0;
+    }
 
-        // Update wallet balance and total B-Rank bonuses received
-        await ctx.db.patch(directReferrer._id, {
-            walletBalance: (directReferrer.walletBalance || 0) + actualBonus,
-            totalBRankBonusReceived: totalReceived + actualBonus
+    const {
+        staker,
+        directReferrer,
+        calculatedBonus,
+        currentCap,
+        totalReceived,
+        totalActiveStake,
+        cappingMultiplier,
+    } = bonus;
+
+    // Respect the global payout cap on top of the B-Rank cap
+    const actualBonus = await applyPayoutCap(ctx, directReferrer._id, bonus.actualBonus);
+    if (actualBonus < bonus.actualBonus) {
+        await recordMissedCommission(ctx, directReferrer._id, {
+            type: "brank",
+            reason: "payout_cap",
+            amount: bonus.actualBonus - actualBonus,
+            timestamp: now,
         });
     }
+    if (actualBonus <= 0) return 0;
+
+    // Determine if directReferrer is an account or user (needed for all notification calls)
+    const isDirectReferrerAccount = "loginId" in directReferrer;
+    const directReferrerIdType = isDirectReferrerAccount ? "account" : "user";
+
+    // Credit BLS or USDT (notifications below depend on the cap status)
+    const { currency } = await creditAccount(ctx, {
+        recipientId: directReferrer._id,
+        amount: actualBonus,
+        type: "commission_vrank",
+        description: `${directReferrer.currentRank} Rank Bonus from ${staker.name}'s stake`,
+        referenceId: stakeId,
+        timestamp: now,
+    });
+
+    // Update total B-Rank bonuses received
+    await ctx.db.patch(directReferrer._id, {
+        totalBRankBonusReceived: totalReceived + actualBonus
+    });
 
     // NEW: Notify user if they've reached or are close to their cap
     const newTotalReceived = totalReceived + actualBonus;
     const newRemainingCap = currentCap - newTotalReceived;
 
-    const currency = isBLSEnabled ? "BLS" : "USDT";
-    const currencySymbol = isBLSEnabled ? "" : "$";
+    const currencySymbol = currency === "BLS" ? "" : "$";
 
     if (newRemainingCap <= 0) {
         // Cap reached
@@ -430,7 +936,7 @@ async function distributeVRankBonuses(ctx: any, stakerId: any, yieldAmount: numb
                 currency
             }
         );
-    } else if (actualBonus < calculatedBonus) {
+    } else if (bonus.actualBonus < calculatedBonus) {
         // Partial bonus due to cap
         // directReferrerIdType is already defined above
         await notify(
@@ -449,7 +955,7 @@ async function distributeVRankBonuses(ctx: any, stakerId: any, yieldAmount: numb
                 currency
             }
         );
-    } else if (isBLSEnabled) {
+    } else if (currency === "BLS") {
         // Notify about BLS bonus earned
         await notify(
             ctx,
@@ -470,17 +976,13 @@ async function distributeVRankBonuses(ctx: any, stakerId: any, yieldAmount: numb
  * Legacy function - kept for backward compatibility
  * Use distributeReferralBonuses and distributeVRankBonuses instead
  * 
- * FIXED: Now respects BLS system when enabled
+ * FIXED: Now respects BLS system when enabled (via creditAccount)
  */
 async function distributeCommissions(ctx: any, stakerId: any, yieldAmount: number, now: number, stakeId: any) {
     let currentUserId = stakerId;
     let level = 1;
     const MAX_LEVELS = 7; // Configurable
 
-    // Check if BLS system is enabled
-    const blsConfig = await ctx.db.query("blsConfig").first();
-    const isBLSEnabled = blsConfig?.isEnabled || false;
-
     while (level <= MAX_LEVELS) {
         const user = await ctx.db.get(currentUserId);
         if (!user || !user.referrerId) break;
@@ -494,28 +996,14 @@ async function distributeCommissions(ctx: any, stakerId: any, yieldAmount: numbe
         if (rate > 0) {
             const commission = (yieldAmount * rate) / 100;
 
-            if (isBLSEnabled) {
-                // Credit BLS instead of USDT when BLS system is enabled
-                await ctx.runMutation(internal.bls.creditBLS, {
-                    userId: referrer._id,
-                    amount: commission,
-                    description: `L${level} Commission from ${user.name}`,
-                    referenceId: stakeId,
-                    transactionType: level === 1 ? "commission_direct" : "commission_indirect",
-                });
-            } else {
-                // Credit USDT directly when BLS system is disabled
-                await ctx.db.insert("transactions", {
-                    userId: referrer._id,
-                    amount: commission,
-                    type: level === 1 ? "commission_direct" : "commission_indirect",
-                    referenceId: stakeId,
-                    description: `L${level} Commission from ${user.name}`,
-                    timestamp: now,
-                });
-
-                await ctx.db.patch(referrer._id, { walletBalance: (referrer.walletBalance || 0) + commission });
-            }
+            await creditAccount(ctx, {
+                recipientId: referrer._id,
+                amount: commission,
+                type: level === 1 ? "commission_direct" : "commission_indirect",
+                description: `L${level} Commission from ${user.name}`,
+                referenceId: stakeId,
+                timestamp: now,
+            });
         }
 
         currentUserId = referrer._id;
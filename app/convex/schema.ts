@@ -44,11 +44,26 @@ export default defineSchema({
     leftLegId: v.optional(v.id("accounts")),
     rightLegId: v.optional(v.id("accounts")),
     position: v.optional(v.union(v.literal("left"), v.literal("right"))),
+    // Where members joining through this account's referral code are placed (unset = platform default)
+    referralPlacement: v.optional(v.union(v.literal("left_leg"), v.literal("right_leg"), v.literal("weak_leg"))),
+
+    // Binary Leg Volumes (see binary/legVolumes.ts)
+    leftLegVolume: v.optional(v.number()),              // Active stake principal in the left leg
+    rightLegVolume: v.optional(v.number()),             // Active stake principal in the right leg
+    leftPairingVolume: v.optional(v.number()),          // New left volume not yet paired (incl. carry-forward)
+    rightPairingVolume: v.optional(v.number()),         // New right volume not yet paired (incl. carry-forward)
+    leftLegCount: v.optional(v.number()),               // Accounts placed anywhere in the left leg
+    rightLegCount: v.optional(v.number()),              // Accounts placed anywhere in the right leg
 
     currentRank: v.string(), // "B0", "B1", ...
     teamVolume: v.number(), // USDT
     directReferralsCount: v.number(),
     walletBalance: v.number(),
+    walletBalanceMicros: v.optional(v.number()),  // Authoritative balance in integer micro-units (see money.ts)
+
+    // Rank Grace Period (see ranks.ts) - set while the account no longer qualifies for currentRank
+    rankAtRiskSince: v.optional(v.number()),            // When it stopped qualifying
+    rankAtRiskRank: v.optional(v.string()),             // Rank it would be downgraded to
 
     // Web3 Deposit Address (for receiving blockchain deposits)
     depositAddress: v.optional(v.string()),  // Account's Ethereum address for deposits
@@ -62,8 +77,12 @@ export default defineSchema({
     // B-Rank Bonus Capping
     totalBRankBonusReceived: v.optional(v.number()),    // Total B-Rank bonuses received (lifetime)
 
+    // Global Payout Cap
+    totalEarningsReceived: v.optional(v.number()),      // Yield + commissions + bonuses received (lifetime)
+
     // BellCoin Stable (BLS) Balance
     blsBalance: v.optional(v.number()),                  // BLS balance (off-chain points)
+    blsBalanceMicros: v.optional(v.number()),            // Authoritative BLS balance in integer micro-units
 
     createdAt: v.number(),
   })
@@ -72,7 +91,8 @@ export default defineSchema({
     .index("by_referrerId", ["referrerId"])
     .index("by_parentId", ["parentId"])
     .index("by_depositAddress", ["depositAddress"])  // Ensure unique deposit addresses
-    .index("by_isDeleted", ["isDeleted"]),
+    .index("by_isDeleted", ["isDeleted"])
+    .index("by_rankAtRiskSince", ["rankAtRiskSince"]),
 
   // Account members - for future team/member access
   account_members: defineTable({
@@ -111,6 +131,7 @@ export default defineSchema({
     teamVolume: v.number(), // USDT
     directReferralsCount: v.number(),
     walletBalance: v.number(),
+    walletBalanceMicros: v.optional(v.number()),  // Authoritative balance in integer micro-units (see money.ts)
 
     // Web3 Deposit Address (for receiving blockchain deposits)
     depositAddress: v.optional(v.string()),  // User's Ethereum address for deposits
@@ -140,8 +161,12 @@ export default defineSchema({
     // B-Rank Bonus Capping
     totalBRankBonusReceived: v.optional(v.number()),    // Total B-Rank bonuses received (lifetime)
 
+    // Global Payout Cap
+    totalEarningsReceived: v.optional(v.number()),      // Yield + commissions + bonuses received (lifetime)
+
     // BellCoin Stable (BLS) Balance
     blsBalance: v.optional(v.number()),                  // BLS balance (off-chain points)
+    blsBalanceMicros: v.optional(v.number()),            // Authoritative BLS balance in integer micro-units
 
     createdAt: v.number(),
   })
@@ -156,12 +181,18 @@ export default defineSchema({
   stakes: defineTable({
     accountId: v.optional(v.id("accounts")),  // Changed from userId - optional during migration
     amount: v.number(),
+    amountMicros: v.optional(v.number()),     // Principal in integer micro-units (see money.ts)
     cycleDays: v.number(),
     dailyRate: v.number(),
     startDate: v.number(),
     endDate: v.number(),
-    status: v.union(v.literal("active"), v.literal("completed")),
+    status: v.union(v.literal("active"), v.literal("completed"), v.literal("unstaked")),
     lastYieldDate: v.optional(v.number()),
+    autoCompound: v.optional(v.boolean()),            // Add daily yield to principal instead of wallet
+    autoRenew: v.optional(v.boolean()),               // Restake principal into the same cycle at maturity
+    renewedFromStakeId: v.optional(v.id("stakes")),   // Set on stakes created by auto-renew
+    unstakedAt: v.optional(v.number()),               // Early unstake timestamp
+    unstakePenalty: v.optional(v.number()),           // Principal withheld on early unstake
     // Keep userId for backward compatibility during migration
     userId: v.optional(v.id("users")),
   })
@@ -172,6 +203,7 @@ export default defineSchema({
   transactions: defineTable({
     accountId: v.optional(v.id("accounts")),  // Changed from userId - optional during migration
     amount: v.number(),
+    amountMicros: v.optional(v.number()),     // Amount in integer micro-units (see money.ts)
     type: v.union(
       v.literal("deposit"),
       v.literal("withdrawal"),
@@ -182,7 +214,12 @@ export default defineSchema({
       v.literal("commission_binary"),
       v.literal("commission_unilevel"),  // NEW: Unilevel commission
       v.literal("bls_earned"),          // BLS earned from rewards
-      v.literal("bls_swap")              // BLS swapped to USDT
+      v.literal("bls_swap"),             // BLS swapped to USDT
+      v.literal("stake_matured"),        // Principal returned when a stake matures
+      v.literal("yield_compounded"),     // Daily yield added to stake principal
+      v.literal("stake_unstaked"),       // Principal returned on early unstake
+      v.literal("unstake_penalty"),      // Penalty withheld on early unstake (negative)
+      v.literal("rank_achievement")      // One-time reward for first reaching a rank
     ),
     referenceId: v.optional(v.string()),
     description: v.string(),
@@ -202,6 +239,37 @@ export default defineSchema({
     .index("by_userId", ["userId"])  // Keep for migration
     .index("by_type", ["type"]),
 
+  // Double-entry ledger (see ledger.ts) - one journal per money movement, debits = credits per currency
+  ledger_journals: defineTable({
+    type: v.string(),                         // "deposit", "withdrawal_request", "stake", "reward", ...
+    description: v.string(),
+    referenceId: v.optional(v.string()),      // Stake / withdrawal / swap / tx hash the journal belongs to
+    timestamp: v.number(),
+  })
+    .index("by_type", ["type"])
+    .index("by_referenceId", ["referenceId"]),
+
+  ledger_entries: defineTable({
+    journalId: v.id("ledger_journals"),
+    ledgerAccount: v.string(),                // "platform:hot_wallet", "member:<id>:USDT", ...
+    currency: v.union(v.literal("USDT"), v.literal("BLS")),
+    debit: v.number(),
+    credit: v.number(),
+    timestamp: v.number(),
+  })
+    .index("by_journalId", ["journalId"])
+    .index("by_ledgerAccount", ["ledgerAccount"])
+    .index("by_ledgerAccount_currency", ["ledgerAccount", "currency"]),
+
+  // Running balance per ledger account and currency, kept up to date by postJournal (see ledger.ts)
+  ledger_balances: defineTable({
+    ledgerAccount: v.string(),
+    currency: v.union(v.literal("USDT"), v.literal("BLS")),
+    balanceMicros: v.number(),                // Credits - debits, in micro-units
+    updatedAt: v.number(),
+  })
+    .index("by_ledgerAccount_currency", ["ledgerAccount", "currency"]),
+
   withdrawals: defineTable({
     accountId: v.optional(v.id("accounts")),  // Changed from userId - optional during migration
     // Keep for backward compatibility during migration
@@ -209,6 +277,10 @@ export default defineSchema({
     amount: v.number(),
     fee: v.optional(v.number()),        // NEW: Withdrawal fee (5%)
     netAmount: v.optional(v.number()),  // NEW: Amount sent to user (amount - fee)
+    // Integer micro-unit amounts (see money.ts)
+    amountMicros: v.optional(v.number()),
+    feeMicros: v.optional(v.number()),
+    netAmountMicros: v.optional(v.number()),
     address: v.string(),
     status: v.union(
       v.literal("pending"),
@@ -256,6 +328,141 @@ export default defineSchema({
     details: v.optional(v.string()),
   }).index("by_timestamp", ["timestamp"]),
 
+  // Binary pairing bonus - one row per account per UTC date paired (see binary/pairingBonus.ts)
+  binary_payouts: defineTable({
+    accountId: v.id("accounts"),
+    date: v.string(),                         // "YYYY-MM-DD" (UTC)
+    rank: v.string(),                         // Rank the daily cap was taken from
+    leftVolume: v.number(),                   // Unpaired volume before pairing
+    rightVolume: v.number(),
+    matchedVolume: v.number(),                // Weak leg volume paired
+    pairingRate: v.number(),                  // % of the matched volume
+    bonus: v.number(),                        // matchedVolume × pairingRate
+    dailyCap: v.optional(v.number()),         // Rank's daily cap (unset = no cap)
+    paid: v.number(),                         // Credited after the daily cap and the global payout cap
+    flushed: v.number(),                      // Bonus lost to the daily cap
+    carryLeft: v.number(),                    // Unpaired volume carried forward
+    carryRight: v.number(),
+    transactionId: v.optional(v.id("transactions")),
+    timestamp: v.number(),
+  })
+    .index("by_accountId", ["accountId"])
+    .index("by_accountId_date", ["accountId", "date"])
+    .index("by_date", ["date"]),
+
+  // Commissions members were not paid, totalled per member, month, type, reason and level (see missedCommissions.ts)
+  missed_commissions: defineTable({
+    accountId: v.optional(v.id("accounts")),
+    userId: v.optional(v.id("users")),        // Legacy users
+    month: v.string(),                        // "YYYY-MM"
+    type: v.union(
+      v.literal("unilevel"),
+      v.literal("brank"),
+      v.literal("binary"),                    // Payout cap only - daily cap flush is on binary_payouts
+      v.literal("referral")                   // Referral bonus levels (commission_rates)
+    ),
+    reason: v.union(
+      v.literal("level_locked"),              // Unilevel level not unlocked
+      v.literal("inactive"),                  // No / too little active stake
+      v.literal("cap_reached"),               // B-Rank bonus cap (binary daily cap in the report)
+      v.literal("payout_cap")                 // Global payout cap
+    ),
+    level: v.optional(v.number()),            // Unilevel / referral bonus level
+    amount: v.number(),
+    count: v.number(),                        // Payouts missed
+    lastMissedAt: v.number(),
+  })
+    .index("by_accountId_month", ["accountId", "month"])
+    .index("by_userId_month", ["userId", "month"]),
+
+  // Rank changes (promotions and demotions) with the figures they were based on (see ranks.ts)
+  rank_history: defineTable({
+    accountId: v.optional(v.id("accounts")),
+    userId: v.optional(v.id("users")),        // Legacy users (manual rank changes)
+    oldRank: v.string(),
+    newRank: v.string(),
+    reason: v.union(
+      v.literal("team_volume"),      // Own team volume crossed a rank threshold
+      v.literal("downline_rank"),    // A direct referral's rank changed (structure requirement)
+      v.literal("direct_referrals"), // A direct joined, or a direct's active status changed
+      v.literal("manual"),           // Set by an admin
+      v.literal("recalculation"),    // Full re-evaluation (rules changed / admin recalculation)
+      v.literal("grace_period_expired") // Stopped qualifying and did not requalify within the grace period
+    ),
+    teamVolume: v.number(),
+    qualifyingVolume: v.optional(v.number()), // Team volume after the rank's leg cap
+    leftLegVolume: v.optional(v.number()),
+    rightLegVolume: v.optional(v.number()),
+    directReferrals: v.optional(v.number()),  // Directs counted for the rank rules
+    qualifiedDirects: v.optional(v.number()), // Directs meeting the new rank's structure requirement
+    timestamp: v.number(),
+  })
+    .index("by_accountId", ["accountId"])
+    .index("by_userId", ["userId"])
+    .index("by_timestamp", ["timestamp"]),
+
+  // First time each account reached each rank, with its one-time reward (see rankAchievements.ts)
+  rank_achievements: defineTable({
+    accountId: v.id("accounts"),
+    rank: v.string(),
+    reward: v.number(),                       // Configured reward (0 when none / recorded by the backfill)
+    paid: v.number(),                         // Amount credited after the global payout cap
+    currency: v.optional(v.union(v.literal("USDT"), v.literal("BLS"))),
+    transactionId: v.optional(v.id("transactions")),
+    achievedAt: v.number(),
+  })
+    .index("by_accountId_rank", ["accountId", "rank"])
+    .index("by_achievedAt", ["achievedAt"]),
+
+  // Daily reward runs - one row per UTC date processed by the reward distributor
+  reward_runs: defineTable({
+    date: v.string(),                         // "YYYY-MM-DD" (UTC) the run pays for
+    status: v.union(
+      v.literal("running"),                   // Started, not all stakes settled yet
+      v.literal("partial"),                   // Finished with failed stakes (resumable)
+      v.literal("completed")                  // Every active stake settled for the date
+    ),
+    startedAt: v.number(),                    // When the current attempt started
+    completedAt: v.optional(v.number()),
+    attempts: v.number(),                     // How many times the run was started/resumed
+    batchesProcessed: v.number(),             // Paginated batches processed (all attempts)
+    stakesProcessed: v.number(),
+    stakesExpired: v.number(),
+    stakesSkipped: v.number(),                // Stake-days already paid (duplicate trigger)
+    stakesFailed: v.number(),
+    yieldDaysPaid: v.optional(v.number()),    // Stake-days paid, including catch-up of missed days
+    totalYieldDistributed: v.number(),
+    totalCommissionsDistributed: v.number(),
+    lastError: v.optional(v.string()),
+    cronLogId: v.optional(v.id("cron_logs")),  // Summary entry written when the run finishes
+  })
+    .index("by_date", ["date"])
+    .index("by_status", ["status"]),
+
+  // Per-stake payout ledger for reward runs (prevents paying a stake twice for the same date)
+  reward_payouts: defineTable({
+    runId: v.id("reward_runs"),
+    date: v.string(),                         // "YYYY-MM-DD" (UTC) of the yield day (may precede the run date when catching up)
+    stakeId: v.id("stakes"),
+    accountId: v.optional(v.id("accounts")),
+    userId: v.optional(v.id("users")),        // Legacy stakes
+    kind: v.optional(v.union(
+      v.literal("daily"),                     // One full day of yield
+      v.literal("final")                      // Pro-rated partial day paid at maturity
+    )),
+    status: v.union(v.literal("paid"), v.literal("failed")),
+    yieldAmount: v.number(),
+    commissionsAmount: v.number(),
+    // Unilevel commissions were distributed for this payout. Unset on payouts made before the
+    // distributor supported account stakes (see migrations/backfillUnilevelCommissions.ts)
+    unilevelPaid: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+    updatedAt: v.number(),
+  })
+    .index("by_runId", ["runId"])
+    .index("by_runId_status", ["runId", "status"])
+    .index("by_stakeId_date", ["stakeId", "date"]),
+
   notifications: defineTable({
     accountId: v.optional(v.id("accounts")),  // Changed from userId - optional during migration
     // Keep for backward compatibility during migration
@@ -294,6 +501,9 @@ export default defineSchema({
     rate: v.number(),                         // Commission rate applied
     yieldAmount: v.number(),                  // Source yield amount
     commissionAmount: v.number(),             // Commission earned
+    planVersion: v.optional(v.number()),      // Unilevel plan version that paid it (unset before plans were versioned)
+    depth: v.optional(v.number()),            // Upline generation of the earner (greater than level when compressed)
+    skippedUplineIds: v.optional(v.array(v.union(v.id("accounts"), v.id("users")))), // Unqualified/inactive uplines the level was compressed past
     timestamp: v.number(),                    // When earned
     date: v.string(),                         // "YYYY-MM-DD" for reporting
     week: v.string(),                         // "YYYY-WW" for weekly reports
@@ -304,6 +514,7 @@ export default defineSchema({
     .index("by_userId", ["userId"])  // Keep for migration
     .index("by_sourceAccountId", ["sourceAccountId"])
     .index("by_sourceUserId", ["sourceUserId"])  // Keep for migration
+    .index("by_sourceStakeId_date", ["sourceStakeId", "date"])
     .index("by_date", ["date"])
     .index("by_week", ["week"])
     .index("by_month", ["month"])
@@ -313,6 +524,17 @@ export default defineSchema({
     .index("by_accountId_month", ["accountId", "month"])
     .index("by_userId_month", ["userId", "month"]),  // Keep for migration
 
+  // Every saved version of the unilevel plan (the current one is the unilevel_plan config)
+  unilevel_plan_history: defineTable({
+    version: v.number(),
+    rates: v.array(v.number()),               // % of the source yield per level, rates[0] = L1
+    directsPerLevel: v.number(),
+    minPersonalStake: v.number(),
+    compression: v.optional(v.boolean()),
+    createdAt: v.number(),
+  })
+    .index("by_version", ["version"]),
+
   configs: defineTable({
     key: v.string(),
     value: v.any(),
@@ -357,6 +579,7 @@ export default defineSchema({
     toAddress: v.string(),  // Contract address (VaultUSDT)
     amount: v.number(),  // Amount in USDT (converted from Wei)
     amountRaw: v.string(),  // Raw amount in Wei (as string for precision)
+    amountMicros: v.optional(v.number()),  // Amount in integer micro-units, exact from amountRaw (see money.ts)
     blockNumber: v.number(),  // Block number where deposit occurred
     timestamp: v.number(),  // When deposit was detected
     status: v.union(v.literal("pending"), v.literal("confirmed")),
@@ -398,7 +621,8 @@ export default defineSchema({
       v.literal("deposit_paused"),
       v.literal("withdrawal_failed"),
       v.literal("network_error"),
-      v.literal("sync_error")
+      v.literal("sync_error"),
+      v.literal("ledger_drift")     // Stored balance differs from the ledger (see ledger.ts)
     ),
     network: v.optional(v.string()),  // Related network (if applicable)
     severity: v.union(v.literal("info"), v.literal("warning"), v.literal("critical")),
@@ -595,6 +819,8 @@ export default defineSchema({
     userId: v.optional(v.id("users")),
     blsAmount: v.number(),               // Amount of BLS swapped
     usdtAmount: v.number(),              // Amount of USDT credited
+    blsAmountMicros: v.optional(v.number()),   // Integer micro-unit amounts (see money.ts)
+    usdtAmountMicros: v.optional(v.number()),
     status: v.union(
       v.literal("pending"),
       v.literal("completed"),
@@ -1,10 +1,14 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
 import { updateTeamVolume } from "./ranks";
-import { DEFAULT_STAKING_CYCLES } from "./config";
+import { updateBinaryLegVolumes } from "./binary/legVolumes";
+import { DEFAULT_STAKING_CYCLES, DEFAULT_EARLY_UNSTAKE_PENALTIES } from "./config";
 import { createError, ErrorCodes } from "./errors";
 import { notify } from "./notifications";
-import { updateActiveDirects } from "./unilevel/activeDirectsCalculator";
+import { LEDGER_ACCOUNTS, memberLedgerAccount, postJournal, postMemberDebit } from "./ledger";
+import { adjustBalanceFields, fromMicros, memberBalanceMicros, percentOfMicros, toMicros } from "./money";
+import { syncReferrerActiveDirects } from "./unilevel/activeDirectsCalculator";
 
 export const createStake = mutation({
     args: {
@@ -12,6 +16,8 @@ export const createStake = mutation({
         userId: v.optional(v.id("users")),  // Legacy: userId (for backward compatibility)
         amount: v.number(),
         cycleDays: v.number(),
+        autoCompound: v.optional(v.boolean()),  // Compound daily yield into principal
+        autoRenew: v.optional(v.boolean()),  // Restake into the same cycle at maturity
     },
     handler: async (ctx, args) => {
         const MIN_STAKE_AMOUNT = 100; // Minimum stake is $100
@@ -42,7 +48,10 @@ export const createStake = mutation({
         if (args.amount < MIN_STAKE_AMOUNT) {
             throw createError(ErrorCodes.VALIDATION_ERROR, `Minimum stake amount is $${MIN_STAKE_AMOUNT}`);
         }
-        if (account.walletBalance < args.amount) throw createError(ErrorCodes.INSUFFICIENT_BALANCE);
+        // Staked in whole micros - the wallet, stake and ledger all move by the same amount
+        const amountMicros = toMicros(args.amount);
+        const amount = fromMicros(amountMicros);
+        if (memberBalanceMicros(account) < amountMicros) throw createError(ErrorCodes.INSUFFICIENT_BALANCE);
 
         // 2.5. Check if presale is active - block staking if presale is on
         const presaleConfig = await ctx.db.query("presaleConfig").first();
@@ -73,9 +82,7 @@ export const createStake = mutation({
         if (!selectedCycle) throw createError(ErrorCodes.INVALID_CYCLE);
 
         // 3. Deduct Balance
-        await ctx.db.patch(account._id, {
-            walletBalance: account.walletBalance - args.amount,
-        });
+        await ctx.db.patch(account._id, adjustBalanceFields(account, -amountMicros));
 
         // 4. Create Stake
         const startDate = Date.now();
@@ -84,37 +91,42 @@ export const createStake = mutation({
         const stakeId = await ctx.db.insert("stakes", {
             accountId: account._id,
             userId: args.userId,  // Keep for backward compatibility
-            amount: args.amount,
+            amount,
+            amountMicros,
             cycleDays: args.cycleDays,
             dailyRate: selectedCycle.dailyRate,
             startDate,
             endDate,
             status: "active",
             lastYieldDate: startDate,
+            autoCompound: args.autoCompound ?? false,
+            autoRenew: args.autoRenew ?? false,
         });
 
         // 5. Log Transaction
         await ctx.db.insert("transactions", {
             accountId: account._id,
             userId: args.userId,  // Keep for backward compatibility
-            amount: -args.amount,
+            amount: -amount,
+            amountMicros: -amountMicros,
             type: "deposit",
             referenceId: stakeId,
-            description: `Staked ${args.amount} USDT for ${args.cycleDays} days`,
+            description: `Staked ${amount} USDT for ${args.cycleDays} days`,
             timestamp: Date.now(),
         });
 
-        // 6. Update Team Volume (Upline)
-        await updateTeamVolume(ctx, account._id, args.amount);
+        await postMemberDebit(ctx, account._id, amount, LEDGER_ACCOUNTS.PLATFORM_LIABILITY, {
+            type: "stake",
+            description: `Staked ${amount} USDT for ${args.cycleDays} days`,
+            referenceId: stakeId,
+        });
 
-        // 7. NEW: Update referrer's active directs count (for Unilevel unlock)
-        // TODO: updateActiveDirects needs to be updated to support accountId
-        // For now, skip if referrerId is an accountId (updateActiveDirects only supports userId)
-        // This will be fixed when updateActiveDirects is updated for multi-account support
-        if (account.referrerId) {
-            // Skip for now - updateActiveDirects needs to support accountId
-            // await updateActiveDirects(ctx, account.referrerId as any);
-        }
+        // 6. Update Team Volume (Upline) and binary leg volumes (new volume can be paired)
+        await updateTeamVolume(ctx, account._id, amount);
+        await updateBinaryLegVolumes(ctx, account._id, amount, { pairable: true });
+
+        // 7. Update referrer's active directs count (for Unilevel unlock)
+        await syncReferrerActiveDirects(ctx, account._id, "activated");
 
         // 8. Create Notification
         const totalReturn = (selectedCycle.dailyRate * args.cycleDays).toFixed(1);
@@ -124,15 +136,215 @@ export const createStake = mutation({
             "account",
             "stake",
             "Stake Created Successfully",
-            `You've staked $${args.amount} for ${args.cycleDays} days at ${selectedCycle.dailyRate}% daily. Expected return: ${totalReturn}%`,
+            `You've staked $${amount} for ${args.cycleDays} days at ${selectedCycle.dailyRate}% daily. Expected return: ${totalReturn}%`,
             "TrendingUp",
-            { amount: args.amount, cycleDays: args.cycleDays, dailyRate: selectedCycle.dailyRate }
+            { amount, cycleDays: args.cycleDays, dailyRate: selectedCycle.dailyRate }
         );
 
         return stakeId;
     },
 });
 
+/**
+ * Update a stake's compounding and renewal preferences
+ * Takes effect from the next reward run (compounding) or at maturity (renewal)
+ */
+export const updateStakePreferences = mutation({
+    args: {
+        stakeId: v.id("stakes"),
+        accountId: v.optional(v.id("accounts")),
+        userId: v.optional(v.id("users")),  // Legacy support
+        autoCompound: v.optional(v.boolean()),
+        autoRenew: v.optional(v.boolean()),
+    },
+    handler: async (ctx, args) => {
+        const stake = await ctx.db.get(args.stakeId);
+        if (!stake) throw createError(ErrorCodes.STAKE_NOT_FOUND);
+
+        // Verify ownership
+        const isOwner = (args.accountId && stake.accountId === args.accountId) ||
+            (args.userId && stake.userId === args.userId);
+        if (!isOwner) {
+            throw createError(ErrorCodes.UNAUTHORIZED, "You can only update your own stakes");
+        }
+
+        if (stake.status !== "active") {
+            throw createError(ErrorCodes.VALIDATION_ERROR, "Only active stakes can be updated");
+        }
+
+        const updates: { autoCompound?: boolean; autoRenew?: boolean } = {};
+        if (args.autoCompound !== undefined) updates.autoCompound = args.autoCompound;
+        if (args.autoRenew !== undefined) updates.autoRenew = args.autoRenew;
+
+        await ctx.db.patch(stake._id, updates);
+
+        return { success: true };
+    },
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate the early unstake penalty for a stake from its cycle's penalty schedule
+ * The schedule entry with the highest minDaysServed <= full days served applies.
+ */
+async function getUnstakeTerms(ctx: QueryCtx, stake: Doc<"stakes">, now: number) {
+    const cycleConfig = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "staking_cycles"))
+        .unique();
+
+    const cycles = cycleConfig?.value || DEFAULT_STAKING_CYCLES;
+    const cycle = cycles.find((c: any) => c.days === stake.cycleDays);
+    const schedule: Array<{ minDaysServed: number; penaltyPercent: number }> =
+        cycle?.earlyUnstakePenalties?.length ? cycle.earlyUnstakePenalties : DEFAULT_EARLY_UNSTAKE_PENALTIES;
+
+    const daysServed = Math.max(0, Math.floor((now - stake.startDate) / DAY_MS));
+    const applicable = schedule
+        .filter((p) => p.minDaysServed <= daysServed)
+        .sort((a, b) => b.minDaysServed - a.minDaysServed)[0];
+
+    const penaltyPercent = applicable?.penaltyPercent ?? 0;
+    const amountMicros = toMicros(stake.amount);
+    const penaltyMicros = percentOfMicros(amountMicros, penaltyPercent);
+
+    return {
+        daysServed,
+        penaltyPercent,
+        penalty: fromMicros(penaltyMicros),
+        refund: fromMicros(amountMicros - penaltyMicros),
+    };
+}
+
+/**
+ * Preview what an early unstake would return right now
+ */
+export const getUnstakeQuote = query({
+    args: { stakeId: v.id("stakes") },
+    handler: async (ctx, args) => {
+        const stake = await ctx.db.get(args.stakeId);
+        if (!stake || stake.status !== "active") return null;
+
+        return {
+            stakeId: stake._id,
+            amount: stake.amount,
+            ...(await getUnstakeTerms(ctx, stake, Date.now())),
+        };
+    },
+});
+
+/**
+ * Exit a stake before its endDate
+ * Returns principal minus the cycle's early unstake penalty. Yield accrued since the
+ * last reward run is forfeited. Team volume and ranks are reduced like at maturity.
+ */
+export const unstake = mutation({
+    args: {
+        stakeId: v.id("stakes"),
+        accountId: v.optional(v.id("accounts")),
+        userId: v.optional(v.id("users")),  // Legacy support
+    },
+    handler: async (ctx, args) => {
+        const stake = await ctx.db.get(args.stakeId);
+        if (!stake) throw createError(ErrorCodes.STAKE_NOT_FOUND);
+
+        // Verify ownership
+        const isOwner = (args.accountId && stake.accountId === args.accountId) ||
+            (args.userId && stake.userId === args.userId);
+        if (!isOwner) {
+            throw createError(ErrorCodes.UNAUTHORIZED, "You can only unstake your own stakes");
+        }
+
+        if (stake.status !== "active") {
+            throw createError(ErrorCodes.VALIDATION_ERROR, "Only active stakes can be unstaked");
+        }
+
+        const now = Date.now();
+        if (now >= stake.endDate) {
+            throw createError(ErrorCodes.VALIDATION_ERROR, "This stake has matured and will be settled by the next reward run");
+        }
+
+        const stakerId = stake.accountId || stake.userId;
+        const staker = stakerId ? await ctx.db.get(stakerId) : null;
+        if (!staker) throw createError(ErrorCodes.USER_NOT_FOUND);
+
+        // 1. Calculate penalty
+        const terms = await getUnstakeTerms(ctx, stake, now);
+
+        // 2. Close the stake
+        await ctx.db.patch(stake._id, {
+            status: "unstaked",
+            unstakedAt: now,
+            unstakePenalty: terms.penalty,
+        });
+
+        // 3. Return principal minus penalty
+        await ctx.db.patch(staker._id, adjustBalanceFields(staker, toMicros(terms.refund)));
+
+        // 4. Log Transactions (principal back, then the penalty withheld from it)
+        await ctx.db.insert("transactions", {
+            accountId: stake.accountId || undefined,
+            userId: stake.userId || undefined,
+            amount: stake.amount,
+            amountMicros: toMicros(stake.amount),
+            type: "stake_unstaked",
+            referenceId: stake._id,
+            description: `Unstaked $${stake.amount} from ${stake.cycleDays}-day stake after ${terms.daysServed} days`,
+            timestamp: now,
+        });
+
+        if (terms.penalty > 0) {
+            await ctx.db.insert("transactions", {
+                accountId: stake.accountId || undefined,
+                userId: stake.userId || undefined,
+                amount: -terms.penalty,
+                amountMicros: -toMicros(terms.penalty),
+                type: "unstake_penalty",
+                referenceId: stake._id,
+                description: `Early unstake penalty (${terms.penaltyPercent}%) on ${stake.cycleDays}-day stake`,
+                timestamp: now,
+            });
+        }
+
+        await postJournal(ctx, {
+            type: "stake_unstaked",
+            description: `Early unstake of ${stake.cycleDays}-day stake (${terms.penaltyPercent}% penalty)`,
+            referenceId: stake._id,
+            timestamp: now,
+            entries: [
+                { ledgerAccount: LEDGER_ACCOUNTS.PLATFORM_LIABILITY, debit: stake.amount },
+                { ledgerAccount: memberLedgerAccount(staker._id), credit: terms.refund },
+                { ledgerAccount: LEDGER_ACCOUNTS.FEES, credit: terms.penalty },
+            ],
+        });
+
+        // 5. Update Team Volume (Upline) - also recomputes ranks
+        if (stake.accountId) {
+            await updateTeamVolume(ctx, stake.accountId, -stake.amount);
+            await updateBinaryLegVolumes(ctx, stake.accountId, -stake.amount);
+        }
+
+        // Update referrer's active directs count (for Unilevel unlock)
+        await syncReferrerActiveDirects(ctx, staker._id, "deactivated");
+
+        // 6. Create Notification
+        await notify(
+            ctx,
+            staker._id,
+            stake.accountId ? "account" : "user",
+            "stake",
+            "Stake Unstaked",
+            terms.penalty > 0
+                ? `You unstaked $${stake.amount.toFixed(2)}. A ${terms.penaltyPercent}% early unstake penalty of $${terms.penalty.toFixed(2)} was applied; $${terms.refund.toFixed(2)} returned to your wallet.`
+                : `You unstaked $${stake.amount.toFixed(2)}. The full amount was returned to your wallet.`,
+            "TrendingDown",
+            { stakeId: stake._id, amount: stake.amount, penalty: terms.penalty, penaltyPercent: terms.penaltyPercent }
+        );
+
+        return { success: true, ...terms };
+    },
+});
+
 export const getUserStakes = query({
     args: { 
         accountId: v.optional(v.id("accounts")),
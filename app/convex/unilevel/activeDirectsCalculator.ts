@@ -1,32 +1,65 @@
 import { QueryCtx, MutationCtx } from "../_generated/server";
-import { Id } from "../_generated/dataModel";
-import { calculateUnlockedLevels } from "./commissionRates";
+import { Doc, Id } from "../_generated/dataModel";
+import { calculateUnlockedLevels, getUnilevelPlan } from "./commissionRates";
+import { UnilevelMemberId } from "./uplineFinder";
+import { updateRankForDirects } from "../ranks";
 
 /**
- * Calculate the number of active direct referrals for a user
- * A direct referral is "active" if they have at least one active stake
+ * Active Directs
+ * A direct referral is "active" if they have at least one active stake. Each member caches
+ * activeDirectReferrals / unlockedLevels, kept up to date on stake lifecycle events
+ * (syncReferrerActiveDirects) so the distributor never scans a member's directs.
+ * migrations/repairActiveDirects recomputes the cache from scratch.
+ */
+
+/**
+ * Calculate the number of active direct referrals for a member (account or legacy user)
+ * Scans every direct and their stakes - prefer getActiveDirects outside of repairs
  */
 export async function calculateActiveDirects(
     ctx: QueryCtx | MutationCtx,
-    userId: Id<"users">
+    memberId: UnilevelMemberId
 ): Promise<number> {
-    // Get all direct referrals
-    const directs = await ctx.db
-        .query("users")
-        .withIndex("by_referrerId", (q) => q.eq("referrerId", userId))
-        .collect();
+    const member = await ctx.db.get(memberId);
+    if (!member) return 0;
 
-    // Count how many have active stakes
     let activeCount = 0;
-    for (const direct of directs) {
-        const hasActiveStake = await ctx.db
-            .query("stakes")
-            .withIndex("by_userId", (q) => q.eq("userId", direct._id))
-            .filter((q) => q.eq(q.field("status"), "active"))
-            .first();
 
-        if (hasActiveStake) {
-            activeCount++;
+    if ("loginId" in member) {
+        // Account: directs are accounts, stakes are held by accountId
+        const directs = await ctx.db
+            .query("accounts")
+            .withIndex("by_referrerId", (q) => q.eq("referrerId", member._id))
+            .collect();
+
+        for (const direct of directs) {
+            const hasActiveStake = await ctx.db
+                .query("stakes")
+                .withIndex("by_accountId", (q) => q.eq("accountId", direct._id))
+                .filter((q) => q.eq(q.field("status"), "active"))
+                .first();
+
+            if (hasActiveStake) {
+                activeCount++;
+            }
+        }
+    } else {
+        // Legacy user
+        const directs = await ctx.db
+            .query("users")
+            .withIndex("by_referrerId", (q) => q.eq("referrerId", member._id as Id<"users">))
+            .collect();
+
+        for (const direct of directs) {
+            const hasActiveStake = await ctx.db
+                .query("stakes")
+                .withIndex("by_userId", (q) => q.eq("userId", direct._id))
+                .filter((q) => q.eq(q.field("status"), "active"))
+                .first();
+
+            if (hasActiveStake) {
+                activeCount++;
+            }
         }
     }
 
@@ -34,16 +67,16 @@ export async function calculateActiveDirects(
 }
 
 /**
- * Update a user's active direct referrals count and unlocked levels
+ * Update a member's active direct referrals count and unlocked levels
  */
 export async function updateActiveDirects(
     ctx: MutationCtx,
-    userId: Id<"users">
+    memberId: UnilevelMemberId
 ): Promise<{ activeDirects: number; unlockedLevels: number }> {
-    const activeDirects = await calculateActiveDirects(ctx, userId);
-    const unlockedLevels = calculateUnlockedLevels(activeDirects);
+    const activeDirects = await calculateActiveDirects(ctx, memberId);
+    const unlockedLevels = calculateUnlockedLevels(activeDirects, await getUnilevelPlan(ctx));
 
-    await ctx.db.patch(userId, {
+    await ctx.db.patch(memberId, {
         activeDirectReferrals: activeDirects,
         unlockedLevels: unlockedLevels,
         lastUnlockUpdate: Date.now(),
@@ -51,3 +84,65 @@ export async function updateActiveDirects(
 
     return { activeDirects, unlockedLevels };
 }
+
+/**
+ * Get a member's active direct referrals from the cache
+ * Falls back to counting when the member's cache was never computed
+ */
+export async function getActiveDirects(
+    ctx: QueryCtx | MutationCtx,
+    member: Doc<"accounts"> | Doc<"users">
+): Promise<number> {
+    if (member.activeDirectReferrals !== undefined) return member.activeDirectReferrals;
+    return await calculateActiveDirects(ctx, member._id);
+}
+
+/**
+ * Update the referrer's cached active directs after one of a member's stakes was
+ * created ("activated") or completed / unstaked ("deactivated")
+ * Only the member's first active stake and their last one closing change the count.
+ * Call once per stake, after the stake's status was written.
+ */
+export async function syncReferrerActiveDirects(
+    ctx: MutationCtx,
+    memberId: UnilevelMemberId,
+    change: "activated" | "deactivated"
+) {
+    const member = await ctx.db.get(memberId);
+    if (!member?.referrerId) return;
+
+    // 1. Did the member's active status flip? (two stakes are enough to tell)
+    const activeStakes = "loginId" in member
+        ? await ctx.db
+            .query("stakes")
+            .withIndex("by_accountId", (q) => q.eq("accountId", member._id))
+            .filter((q) => q.eq(q.field("status"), "active"))
+            .take(2)
+        : await ctx.db
+            .query("stakes")
+            .withIndex("by_userId", (q) => q.eq("userId", member._id))
+            .filter((q) => q.eq(q.field("status"), "active"))
+            .take(2);
+    if (activeStakes.length !== (change === "activated" ? 1 : 0)) return;
+
+    const referrer = await ctx.db.get(member.referrerId);
+    if (!referrer) return;
+
+    if (referrer.activeDirectReferrals === undefined) {
+        // 2. Never computed: count from scratch (already includes this change)
+        await updateActiveDirects(ctx, referrer._id);
+    } else {
+        // 3. Adjust the cached count
+        const activeDirects = Math.max(0, referrer.activeDirectReferrals + (change === "activated" ? 1 : -1));
+        await ctx.db.patch(referrer._id, {
+            activeDirectReferrals: activeDirects,
+            unlockedLevels: calculateUnlockedLevels(activeDirects, await getUnilevelPlan(ctx)),
+            lastUnlockUpdate: Date.now(),
+        });
+    }
+
+    // 4. Rules counting active directs only may now (dis)qualify the referrer
+    if ("loginId" in referrer) {
+        await updateRankForDirects(ctx, referrer._id, { activityOnly: true });
+    }
+}
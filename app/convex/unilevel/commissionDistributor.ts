@@ -1,112 +1,230 @@
-import { MutationCtx } from "../_generated/server";
-import { internal } from "../_generated/api";
-import { Id } from "../_generated/dataModel";
-import { findUpline } from "./uplineFinder";
-import { calculateActiveDirects } from "./activeDirectsCalculator";
-import { getCommissionRate, calculateUnlockedLevels, formatReportingDate } from "./commissionRates";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { findUpline, UnilevelMemberId } from "./uplineFinder";
+import { getActiveDirects } from "./activeDirectsCalculator";
+import { getCommissionRate, calculateUnlockedLevels, formatReportingDate, getUnilevelPlan, UnilevelPlan } from "./commissionRates";
+import { getUserActiveStakeTotal } from "../rankHelpers";
+import { applyPayoutCap } from "../payoutCap";
+import { creditAccount } from "../crediting";
+import { MissedCommissionReason, recordMissedCommission } from "../missedCommissions";
+
+// Upline generations searched for qualified members when compression is on
+const MAX_COMPRESSION_DEPTH = 50;
+
+export type UnilevelCommission = {
+    recipientId: UnilevelMemberId;
+    level: number;                          // Plan level paid
+    depth: number;                          // Upline generation of the recipient (> level when compressed)
+    skippedUplineIds: UnilevelMemberId[];   // Uplines passed over for this level (compression)
+    rate: number;
+    commission: number;
+};
+
+// A level an upline member did not qualify for, with what it would have paid
+export type UnilevelMissedCommission = {
+    recipientId: UnilevelMemberId;
+    level: number;
+    reason: MissedCommissionReason;
+    amount: number;
+};
+
+/**
+ * Why an upline member does not earn the given level (null when they do)
+ * Needs the level unlocked and the plan's minimum personal stake; with compression,
+ * members without an active stake are inactive and never earn.
+ */
+async function getLevelDisqualification(
+    ctx: QueryCtx | MutationCtx,
+    uplineId: UnilevelMemberId,
+    level: number,
+    plan: UnilevelPlan
+): Promise<MissedCommissionReason | null> {
+    // Unlocked levels from their cached active directs (under the current plan)
+    const upline = await ctx.db.get(uplineId);
+    if (!upline) return "inactive";
+    const activeDirects = await getActiveDirects(ctx, upline);
+    if (level > calculateUnlockedLevels(activeDirects, plan)) return "level_locked";
+
+    // Check their own active stake
+    if (plan.minPersonalStake > 0 || plan.compression) {
+        const personalStake = await getUserActiveStakeTotal(ctx, uplineId);
+        if (personalStake <= 0 && plan.compression) return "inactive";
+        if (personalStake < plan.minPersonalStake) return "inactive";
+    }
+
+    return null;
+}
+
+/**
+ * Calculate Unilevel commissions for a stake's daily yield without paying them
+ * Walks the staker's sponsor tree - accounts for account stakes, users for legacy stakes.
+ * Returns the upline members that qualify for their level (see getLevelDisqualification),
+ * with their commission, up to the plan's level count - and the levels members missed.
+ *
+ * Without compression an unqualified upline's level is not paid. With compression
+ * (plan.compression) the level passes up to the next qualified upline instead, and
+ * the members passed over are returned in skippedUplineIds.
+ * plan defaults to the current unilevel plan; rates overrides its rates (used by the reward simulation).
+ */
+export async function calculateUnilevelCommissions(
+    ctx: QueryCtx | MutationCtx,
+    stake: Doc<"stakes">,
+    yieldAmount: number,
+    rates?: Record<number, number>,
+    plan?: UnilevelPlan
+): Promise<{ commissions: UnilevelCommission[]; missed: UnilevelMissedCommission[] }> {
+    const stakerId: UnilevelMemberId | undefined = stake.accountId ?? stake.userId;
+    if (!stakerId) return { commissions: [], missed: [] };
+
+    plan ??= await getUnilevelPlan(ctx);
+
+    // Find upline (up to the plan's last level, further when levels can be compressed)
+    const upline = await findUpline(ctx, stakerId, plan.compression ? MAX_COMPRESSION_DEPTH : plan.rates.length);
+    const commissions: UnilevelCommission[] = [];
+    const missed: UnilevelMissedCommission[] = [];
+
+    let level = 1;
+    let skippedUplineIds: UnilevelMemberId[] = [];
+
+    for (const { memberId: uplineId, level: depth } of upline) {
+        if (level > plan.rates.length) break;
+
+        // Calculate commission
+        const rate = rates ? (rates[level] || 0) : getCommissionRate(level, plan);
+        const commission = yieldAmount * rate;
+
+        const disqualification = await getLevelDisqualification(ctx, uplineId, level, plan);
+        if (disqualification) {
+            if (commission > 0) {
+                missed.push({ recipientId: uplineId, level, reason: disqualification, amount: commission });
+            }
+
+            // Compression: the next upline is checked for the same level
+            if (plan.compression) {
+                skippedUplineIds.push(uplineId);
+            } else {
+                level++;
+            }
+            continue;
+        }
+
+        if (commission > 0) {
+            commissions.push({ recipientId: uplineId, level, depth, skippedUplineIds, rate, commission });
+        }
+
+        skippedUplineIds = [];
+        level++;
+    }
+
+    return { commissions, missed };
+}
 
 /**
  * Distribute Unilevel commissions for a stake's daily yield
  * 
  * This function:
- * 1. Finds all upline users (up to L10)
- * 2. For each upline, checks if they have access to that level
+ * 1. Finds all upline members (up to the plan's last level)
+ * 2. For each upline, checks if they have access to that level (passing it up when compressed)
  * 3. Calculates and pays commission if qualified
- * 4. Logs transaction and commission history
+ * 4. Logs transaction and commission history (accountId / sourceAccountId for accounts,
+ *    planVersion = the unilevel plan version that paid it)
+ *
+ * yieldDate: the yield day paid for ("YYYY-MM-DD"), used for reporting - defaults to today
+ * Returns the total commission paid
  */
 export async function distributeUnilevelCommissions(
     ctx: MutationCtx,
     stakeId: Id<"stakes">,
-    yieldAmount: number
-): Promise<void> {
+    yieldAmount: number,
+    yieldDate?: string
+): Promise<number> {
     const stake = await ctx.db.get(stakeId);
     if (!stake) {
         console.error(`Stake ${stakeId} not found`);
-        return;
+        return 0;
     }
 
-    const stakeOwner = await ctx.db.get(stake.userId);
+    const stakeOwnerId = stake.accountId ?? stake.userId;
+    const stakeOwner = stakeOwnerId ? await ctx.db.get(stakeOwnerId) : null;
     if (!stakeOwner) {
-        console.error(`Stake owner ${stake.userId} not found`);
-        return;
+        console.error(`Stake owner ${stakeOwnerId} not found`);
+        return 0;
     }
+    const ownerName = "loginId" in stakeOwner ? stakeOwner.name : stakeOwner.email;
 
-    // Find upline (up to L10)
-    const upline = await findUpline(ctx, stake.userId, 10);
+    const plan = await getUnilevelPlan(ctx);
+    const { commissions, missed } = await calculateUnilevelCommissions(ctx, stake, yieldAmount, undefined, plan);
 
     const now = Date.now();
-    const reportingDate = formatReportingDate(now);
-
-    // Process each upline user
-    for (const { userId: uplineUserId, level } of upline) {
-        const uplineUser = await ctx.db.get(uplineUserId);
-        if (!uplineUser) continue;
+    const reportingDate = formatReportingDate(yieldDate ? Date.parse(yieldDate) : now);
+    let totalPaid = 0;
 
-        // Calculate their unlocked levels
-        const activeDirects = await calculateActiveDirects(ctx, uplineUserId);
-        const unlockedLevels = calculateUnlockedLevels(activeDirects);
+    // Record the levels upline members did not qualify for
+    for (const { recipientId, level, reason, amount } of missed) {
+        await recordMissedCommission(ctx, recipientId, { type: "unilevel", reason, amount, level, timestamp: now });
+    }
 
-        // Check if they have access to this level
-        if (level > unlockedLevels) {
-            // Not qualified for this level - skip
-            continue;
+    // Process each qualified upline member
+    for (const { recipientId, level, depth, skippedUplineIds, rate, commission: grossCommission } of commissions) {
+        const recipient = await ctx.db.get(recipientId);
+        if (!recipient) continue;
+        const isAccount = "loginId" in recipient;
+
+        // Respect the global payout cap
+        const commission = await applyPayoutCap(ctx, recipientId, grossCommission);
+        if (commission < grossCommission) {
+            await recordMissedCommission(ctx, recipientId, {
+                type: "unilevel",
+                reason: "payout_cap",
+                amount: grossCommission - commission,
+                level,
+                timestamp: now,
+            });
         }
-
-        // Calculate commission
-        const rate = getCommissionRate(level);
-        const commission = yieldAmount * rate;
-
         if (commission <= 0) continue;
 
-        // Check if BLS system is enabled
-        const blsConfig = await ctx.db.query("blsConfig").first();
-        const isBLSEnabled = blsConfig?.isEnabled || false;
-
-        if (isBLSEnabled) {
-            // Credit BLS instead of USDT
-            await ctx.runMutation(internal.bls.creditBLS, {
-                userId: uplineUserId,
-                amount: commission,
-                description: `L${level} Unilevel Commission from ${stakeOwner.email}`,
-                referenceId: stakeId,
-                transactionType: "commission_unilevel",
-            });
-        } else {
-            // Pay commission to upline user (existing behavior)
-            await ctx.db.patch(uplineUserId, {
-                walletBalance: uplineUser.walletBalance + commission,
-            });
-
-            // Log transaction
-            await ctx.db.insert("transactions", {
-                userId: uplineUserId,
-                amount: commission,
-                type: "commission_unilevel",
-                description: `L${level} Unilevel Commission from ${stakeOwner.email}`,
-                timestamp: now,
+        // Pay commission to upline member (BLS or USDT)
+        await creditAccount(ctx, {
+            recipientId,
+            amount: commission,
+            type: "commission_unilevel",
+            description: `L${level} Unilevel Commission from ${ownerName}${yieldDate ? ` - ${yieldDate}` : ""}`,
+            referenceId: stakeId,
+            timestamp: now,
+            metadata: {
                 commissionLevel: level,
                 commissionRate: rate,
                 sourceStakeId: stakeId,
+                sourceAccountId: stake.accountId,
                 sourceUserId: stake.userId,
-            });
-        }
+            },
+        });
 
         // Log commission history for reporting
         await ctx.db.insert("commission_history", {
-            userId: uplineUserId,
+            accountId: isAccount ? (recipientId as Id<"accounts">) : undefined,
+            userId: isAccount ? undefined : (recipientId as Id<"users">),
+            sourceAccountId: stake.accountId,
             sourceUserId: stake.userId,
             sourceStakeId: stakeId,
             level: level,
             rate: rate,
             yieldAmount: yieldAmount,
             commissionAmount: commission,
+            planVersion: plan.version,
+            depth: depth,
+            skippedUplineIds: skippedUplineIds.length > 0 ? skippedUplineIds : undefined,
             timestamp: now,
             date: reportingDate.date,
             week: reportingDate.week,
             month: reportingDate.month,
             year: reportingDate.year,
         });
+
+        totalPaid += commission;
     }
+
+    return totalPaid;
 }
 
 /**
@@ -122,12 +240,8 @@ export async function distributeBatchUnilevelCommissions(
 
     for (const { stakeId, yieldAmount } of stakes) {
         try {
-            await distributeUnilevelCommissions(ctx, stakeId, yieldAmount);
+            totalCommissions += await distributeUnilevelCommissions(ctx, stakeId, yieldAmount);
             processed++;
-
-            // Calculate total commissions paid (approximate)
-            // This is for logging purposes
-            totalCommissions += yieldAmount * 0.16; // Max possible: 16% total across all levels
         } catch (error) {
             console.error(`Failed to distribute commissions for stake ${stakeId}:`, error);
         }
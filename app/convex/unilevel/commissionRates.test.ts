@@ -0,0 +1,74 @@
+/**
+ * Unilevel Commission Rate Tests
+ *
+ * Tests the unilevel plan helpers:
+ * 1. Per-level rates come from the plan (percent -> fraction), 0 outside it
+ * 2. Levels unlock per directsPerLevel active directs, up to the plan's level count
+ * 3. Reporting dates
+ */
+
+import { describe, expect, test } from "vitest";
+import {
+    DEFAULT_UNILEVEL_PLAN,
+    UnilevelPlan,
+    calculateUnlockedLevels,
+    formatReportingDate,
+    getCommissionRate,
+    getWeekString,
+} from "./commissionRates";
+
+const plan = (overrides: Partial<UnilevelPlan>): UnilevelPlan => ({ ...DEFAULT_UNILEVEL_PLAN, ...overrides });
+
+describe("Unilevel commission rates", () => {
+    test("should return each level's rate as a fraction of the yield", () => {
+        expect(getCommissionRate(1)).toBe(0.03);
+        expect(getCommissionRate(3)).toBe(0.01);
+        expect(getCommissionRate(10)).toBe(0.03);
+        expect(getCommissionRate(1, plan({ rates: [5, 2.5] }))).toBe(0.05);
+        expect(getCommissionRate(2, plan({ rates: [5, 2.5] }))).toBe(0.025);
+    });
+
+    test("should pay nothing outside the plan's levels", () => {
+        expect(getCommissionRate(0)).toBe(0);
+        expect(getCommissionRate(11)).toBe(0);
+        expect(getCommissionRate(3, plan({ rates: [5, 2.5] }))).toBe(0);
+    });
+});
+
+describe("Unilevel level unlock", () => {
+    test("should unlock two levels per active direct by default", () => {
+        expect(calculateUnlockedLevels(0)).toBe(0);
+        expect(calculateUnlockedLevels(1)).toBe(2);
+        expect(calculateUnlockedLevels(3)).toBe(6);
+    });
+
+    test("should not unlock more levels than the plan has", () => {
+        expect(calculateUnlockedLevels(10)).toBe(10);
+        expect(calculateUnlockedLevels(2, plan({ rates: [5, 3, 1] }))).toBe(3);
+    });
+
+    test("should not lose a level to rounding with fractional settings", () => {
+        expect(calculateUnlockedLevels(3, plan({ directsPerLevel: 0.6 }))).toBe(5);
+        expect(calculateUnlockedLevels(5, plan({ directsPerLevel: 2 }))).toBe(2);
+    });
+
+    test("should unlock every level when no directs are required", () => {
+        expect(calculateUnlockedLevels(0, plan({ directsPerLevel: 0 }))).toBe(10);
+    });
+});
+
+describe("Reporting dates", () => {
+    test("should number weeks from the start of the year", () => {
+        expect(getWeekString(new Date(2026, 0, 1))).toBe("2026-01");
+        expect(getWeekString(new Date(2026, 0, 3))).toBe("2026-01");
+        expect(getWeekString(new Date(2026, 0, 4))).toBe("2026-02");
+    });
+
+    test("should format a timestamp for reporting", () => {
+        const report = formatReportingDate(Date.UTC(2026, 2, 15, 12));
+        expect(report.date).toBe("2026-03-15");
+        expect(report.month).toBe("2026-03");
+        expect(report.year).toBe(2026);
+        expect(report.week).toMatch(/^2026-\d{2}$/);
+    });
+});
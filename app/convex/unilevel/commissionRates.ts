@@ -1,37 +1,61 @@
+import { QueryCtx, MutationCtx } from "../_generated/server";
+
 /**
- * Unilevel Commission Rates
+ * Unilevel Commission Plan
  * 
- * 10-Level commission structure with progressive unlock
- * Unlock formula: Active Direct Referrals × 2 = Unlocked Levels (max 10)
+ * Per-level commission rates with progressive unlock, stored in the unilevel_plan config
+ * and edited from the admin Unilevel tab. Every save bumps the plan version, and each
+ * commission_history row records the version that paid it (see unilevel_plan_history).
+ * With compression on, levels of unqualified uplines pass up to the next qualified one.
+ * Default: 10 levels, active direct referrals × 2 = unlocked levels, no compression
  */
 
-export const UNILEVEL_RATES: Record<number, number> = {
-    1: 0.03,  // 3%
-    2: 0.02,  // 2%
-    3: 0.01,  // 1%
-    4: 0.01,  // 1%
-    5: 0.01,  // 1%
-    6: 0.01,  // 1%
-    7: 0.01,  // 1%
-    8: 0.01,  // 1%
-    9: 0.02,  // 2%
-    10: 0.03, // 3%
+export const MAX_UNILEVEL_LEVELS = 20;
+
+export type UnilevelPlan = {
+    version: number;            // 0 = built-in default, bumped on every save
+    rates: number[];            // % of the source yield per level, rates[0] = L1
+    directsPerLevel: number;    // Active directs needed per unlocked level (0.5 = 2 levels per direct)
+    minPersonalStake: number;   // Active principal an upline member needs to earn (0 = none)
+    compression: boolean;       // Pass unqualified/inactive uplines' levels up to the next qualified upline
 };
 
+export const DEFAULT_UNILEVEL_PLAN: UnilevelPlan = {
+    version: 0,
+    rates: [3, 2, 1, 1, 1, 1, 1, 1, 2, 3],
+    directsPerLevel: 0.5,
+    minPersonalStake: 0,
+    compression: false,
+};
+
+/**
+ * Get the current unilevel plan
+ */
+export async function getUnilevelPlan(ctx: QueryCtx | MutationCtx): Promise<UnilevelPlan> {
+    const config = await ctx.db
+        .query("configs")
+        .withIndex("by_key", (q) => q.eq("key", "unilevel_plan"))
+        .first();
+
+    return { ...DEFAULT_UNILEVEL_PLAN, ...(config?.value || {}) };
+}
+
 /**
- * Get commission rate for a specific level
+ * Get commission rate for a specific level (fraction of the yield)
  */
-export function getCommissionRate(level: number): number {
-    if (level < 1 || level > 10) return 0;
-    return UNILEVEL_RATES[level] || 0;
+export function getCommissionRate(level: number, plan: UnilevelPlan = DEFAULT_UNILEVEL_PLAN): number {
+    if (level < 1 || level > plan.rates.length) return 0;
+    return (plan.rates[level - 1] || 0) / 100;
 }
 
 /**
  * Calculate unlocked levels based on active direct referrals
- * Formula: Active Directs × 2 (max 10)
+ * Formula: Active Directs ÷ directsPerLevel (max: the plan's level count)
  */
-export function calculateUnlockedLevels(activeDirects: number): number {
-    return Math.min(activeDirects * 2, 10);
+export function calculateUnlockedLevels(activeDirects: number, plan: UnilevelPlan = DEFAULT_UNILEVEL_PLAN): number {
+    if (plan.directsPerLevel <= 0) return plan.rates.length;
+    // Small epsilon so fractional settings (e.g. 0.6) don't round a whole level away
+    return Math.min(Math.floor(activeDirects / plan.directsPerLevel + 1e-9), plan.rates.length);
 }
 
 /**
@@ -1,26 +1,30 @@
 import { QueryCtx, MutationCtx } from "../_generated/server";
-import { Id } from "../_generated/dataModel";
+import { Doc, Id } from "../_generated/dataModel";
+
+// Unilevel members are accounts; legacy users (no account yet) are still supported
+export type UnilevelMemberId = Id<"accounts"> | Id<"users">;
 
 /**
- * Find upline users up to a specified number of levels
- * Returns array of { userId, level } where level 1 is direct referrer
+ * Find upline members up to a specified number of levels
+ * Follows referrerId (the sponsor tree), which points to the same table as memberId.
+ * Returns array of { memberId, level } where level 1 is direct referrer
  */
 export async function findUpline(
     ctx: QueryCtx | MutationCtx,
-    userId: Id<"users">,
+    memberId: UnilevelMemberId,
     maxLevels: number = 10
-): Promise<Array<{ userId: Id<"users">; level: number }>> {
-    const upline: Array<{ userId: Id<"users">; level: number }> = [];
-    let currentUser = await ctx.db.get(userId);
+): Promise<Array<{ memberId: UnilevelMemberId; level: number }>> {
+    const upline: Array<{ memberId: UnilevelMemberId; level: number }> = [];
+    let current: Doc<"accounts"> | Doc<"users"> | null = await ctx.db.get(memberId);
     let level = 1;
 
-    while (currentUser?.referrerId && level <= maxLevels) {
+    while (current?.referrerId && level <= maxLevels) {
         upline.push({
-            userId: currentUser.referrerId,
+            memberId: current.referrerId,
             level: level,
         });
 
-        currentUser = await ctx.db.get(currentUser.referrerId);
+        current = await ctx.db.get(current.referrerId);
         level++;
     }
 
@@ -4,7 +4,12 @@ import { Id } from "./_generated/dataModel";
 import { createError, ErrorCodes, isValidEmail } from "./errors";
 import bcrypt from "bcryptjs";
 import { notify } from "./notifications";
+import { LEDGER_ACCOUNTS, postMemberCredit, postMemberDebit } from "./ledger";
+import { adjustBalanceFields, balanceFields, fromMicros, memberBalanceMicros, toMicros } from "./money";
 import { check2FARequirement } from "./security/twoFactor";
+import { findBinaryPlacement, getPlacementStrategy } from "./binary/placement";
+import { updateBinaryLegCounts } from "./binary/legVolumes";
+import { updateRankForDirects } from "./ranks";
 
 // Force rebuild
 export const register = mutation({
@@ -68,16 +73,12 @@ export const register = mutation({
         });
 
         // 4. Binary Placement Logic
-        // Get Strategy
-        const config = await ctx.db
-            .query("configs")
-            .withIndex("by_key", (q) => q.eq("key", "placement_strategy"))
-            .unique();
-        const strategy = config?.value || "balanced"; // "weak_leg" or "balanced"
+        // Get Strategy (sponsor's chosen placement first, then placement_strategy config)
+        const strategy = await getPlacementStrategy(ctx, referralCode);
 
         // Find Placement
         const placement = await findBinaryPlacement(ctx, referrer._id, strategy);
-        const parentId = placement.parentId;
+        const parentId = placement.parentId as Id<"users">;
         const position = placement.position;
 
         // Update Parent's Leg
@@ -103,6 +104,7 @@ export const register = mutation({
             teamVolume: 0,
             directReferralsCount: 0,
             walletBalance: 0,
+            walletBalanceMicros: 0,
             createdAt: Date.now(),
             // Security fields
             emailVerified: false,  // Email not verified yet
@@ -195,6 +197,7 @@ export const register = mutation({
             teamVolume: 0,
             directReferralsCount: 0,
             walletBalance: 0,
+            walletBalanceMicros: 0,
             createdAt: Date.now(),
             isDeleted: false,
         });
@@ -204,6 +207,12 @@ export const register = mutation({
             await ctx.db.patch(parentAccountId, {
                 [position === "left" ? "leftLegId" : "rightLegId"]: accountId,
             });
+            await updateBinaryLegCounts(ctx, accountId);
+        }
+
+        // A new direct may complete the referrer's direct referral requirement
+        if (referrerAccountId) {
+            await updateRankForDirects(ctx, referrerAccountId);
         }
 
         // 11. Send welcome notification
@@ -441,7 +450,9 @@ export const login = mutation({
                         teamVolume: user.teamVolume,
                         directReferralsCount: user.directReferralsCount,
                         walletBalance: user.walletBalance,
+                        walletBalanceMicros: user.walletBalanceMicros,
                         blsBalance: user.blsBalance,
+                        blsBalanceMicros: user.blsBalanceMicros,
                         createdAt: user.createdAt,
                         isDeleted: false,
                     });
@@ -555,7 +566,9 @@ export const login = mutation({
                         teamVolume: user.teamVolume,
                         directReferralsCount: user.directReferralsCount,
                         walletBalance: user.walletBalance,
+                        walletBalanceMicros: user.walletBalanceMicros,
                         blsBalance: user.blsBalance,
+                        blsBalanceMicros: user.blsBalanceMicros,
                         createdAt: user.createdAt,
                         isDeleted: false,
                     });
@@ -660,6 +673,7 @@ export const login = mutation({
                 teamVolume: user.teamVolume,
                 directReferralsCount: user.directReferralsCount,
                 walletBalance: user.walletBalance,
+                walletBalanceMicros: user.walletBalanceMicros,
                 depositAddress: user.depositAddress,
                 depositAddressLinkedAt: user.depositAddressLinkedAt,
                 activeDirectReferrals: user.activeDirectReferrals,
@@ -667,6 +681,7 @@ export const login = mutation({
                 lastUnlockUpdate: user.lastUnlockUpdate,
                 totalBRankBonusReceived: user.totalBRankBonusReceived,
                 blsBalance: user.blsBalance,
+                blsBalanceMicros: user.blsBalanceMicros,
                 createdAt: user.createdAt,
                 isDeleted: false,
             });
@@ -693,30 +708,6 @@ export const login = mutation({
     },
 });
 
-// Helper to find the next empty spot
-async function findBinaryPlacement(ctx: any, rootId: Id<"users">, strategy: string) {
-    // Simple BFS for "balanced" (fill top to bottom, left to right)
-    // Or "weak_leg" logic (requires volume tracking per leg, which we haven't fully implemented yet)
-    // For MVP, we'll default to "Balanced" (BFS)
-
-    let queue = [rootId];
-
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const user = await ctx.db.get(currentId);
-        if (!user) continue;
-
-        if (!user.leftLegId) return { parentId: currentId, position: "left" as const };
-        if (!user.rightLegId) return { parentId: currentId, position: "right" as const };
-
-        queue.push(user.leftLegId);
-        queue.push(user.rightLegId);
-    }
-
-    // Should not happen in a tree
-    return { parentId: rootId, position: "left" as const };
-}
-
 export const getProfile = query({
     args: { 
         userId: v.optional(v.id("users")),
@@ -997,7 +988,18 @@ export const updateUserRank = mutation({
 export const updateUserBalance = mutation({
     args: { userId: v.id("users"), amount: v.number() },
     handler: async (ctx, args) => {
-        await ctx.db.patch(args.userId, { walletBalance: args.amount });
+        const user = await ctx.db.get(args.userId);
+        const amountMicros = toMicros(args.amount);
+        await ctx.db.patch(args.userId, balanceFields(amountMicros));
+
+        // Record the difference as a manual adjustment
+        const difference = fromMicros(amountMicros - (user ? memberBalanceMicros(user) : 0));
+        const journal = { type: "balance_adjustment", description: `Balance set to $${args.amount.toFixed(2)}` };
+        if (difference > 0) {
+            await postMemberCredit(ctx, args.userId, difference, LEDGER_ACCOUNTS.ADJUSTMENTS, journal);
+        } else if (difference < 0) {
+            await postMemberDebit(ctx, args.userId, -difference, LEDGER_ACCOUNTS.ADJUSTMENTS, journal);
+        }
     },
 });
 
@@ -1255,9 +1257,12 @@ export const addTestFunds = mutation({
             throw new Error(`User with email ${args.email} not found`);
         }
 
-        const newBalance = (user.walletBalance || 0) + args.amount;
-        await ctx.db.patch(user._id, {
-            walletBalance: newBalance,
+        const newBalance = fromMicros(memberBalanceMicros(user) + toMicros(args.amount));
+        await ctx.db.patch(user._id, adjustBalanceFields(user, toMicros(args.amount)));
+
+        await postMemberCredit(ctx, user._id, args.amount, LEDGER_ACCOUNTS.ADJUSTMENTS, {
+            type: "test_funds",
+            description: `Test funds added to ${args.email}`,
         });
 
         return {
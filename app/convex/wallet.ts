@@ -2,7 +2,10 @@ import { mutation, query, internalMutation } from "./_generated/server";
 import { v, Id } from "convex/values";
 import { createError, ErrorCodes, isValidAmount } from "./errors";
 import { internal, api } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
 import { check2FARequirement } from "./security/twoFactor";
+import { LEDGER_ACCOUNTS, postJournal, postMemberCredit, postMemberDebit } from "./ledger";
+import { addMoney, adjustBalanceFields, fromMicros, hasSufficientBalance, memberBalanceMicros, percentOfMicros, subtractMoney, toMicros } from "./money";
 
 // ==================== DEPOSIT ====================
 
@@ -26,24 +29,32 @@ export const deposit = mutation({
         }
 
         // Update user balance
-        const newBalance = (user.walletBalance || 0) + args.amount;
-        await ctx.db.patch(args.userId, {
-            walletBalance: newBalance,
-        });
+        const amountMicros = toMicros(args.amount);
+        const amount = fromMicros(amountMicros);
+        const newBalance = fromMicros(memberBalanceMicros(user) + amountMicros);
+        await ctx.db.patch(args.userId, adjustBalanceFields(user, amountMicros));
 
         // Log transaction
+        const description = `Deposit${args.method ? ` via ${args.method}` : ''}${args.txHash ? ` (${args.txHash.substring(0, 10)}...)` : ''}`;
         await ctx.db.insert("transactions", {
             userId: args.userId,
-            amount: args.amount,
+            amount,
+            amountMicros,
             type: "deposit",
-            description: `Deposit${args.method ? ` via ${args.method}` : ''}${args.txHash ? ` (${args.txHash.substring(0, 10)}...)` : ''}`,
+            description,
             timestamp: Date.now(),
         });
 
+        await postMemberCredit(ctx, args.userId, amount, LEDGER_ACCOUNTS.HOT_WALLET, {
+            type: "deposit",
+            description,
+            referenceId: args.txHash,
+        });
+
         return {
             success: true,
             newBalance,
-            message: `Successfully deposited $${args.amount.toFixed(2)}`,
+            message: `Successfully deposited $${amount.toFixed(2)}`,
         };
     },
 });
@@ -122,7 +133,7 @@ export const requestWithdrawal = mutation({
                 swappedUSDT = await getUserSwappedUSDTBalance(ctx, args.userId, "user");
             }
             
-            if (swappedUSDT < args.amount) {
+            if (!hasSufficientBalance(swappedUSDT, args.amount)) {
                 throw createError(
                     ErrorCodes.INSUFFICIENT_BALANCE,
                     `Insufficient swapped BLS balance. You have $${swappedUSDT.toFixed(2)} available to withdraw. Please swap your BLS to USDT first.`
@@ -131,7 +142,7 @@ export const requestWithdrawal = mutation({
         }
 
         // Check balance
-        if ((user.walletBalance || 0) < args.amount) {
+        if (memberBalanceMicros(user) < toMicros(args.amount)) {
             throw createError(ErrorCodes.INSUFFICIENT_BALANCE);
         }
 
@@ -183,9 +194,9 @@ export const requestWithdrawal = mutation({
         }
 
         // Deduct balance immediately to prevent double spend
-        await ctx.db.patch(args.userId, {
-            walletBalance: user.walletBalance - args.amount,
-        });
+        const amountMicros = toMicros(args.amount);
+        const amount = fromMicros(amountMicros);
+        await ctx.db.patch(args.userId, adjustBalanceFields(user, -amountMicros));
 
         // Calculate Fee
         const feeConfig = await ctx.db
@@ -194,15 +205,18 @@ export const requestWithdrawal = mutation({
             .first();
 
         const feePercentage = feeConfig?.value ?? 0;
-        const fee = args.amount * (feePercentage / 100);
-        const netAmount = args.amount - fee;
+        const feeMicros = percentOfMicros(amountMicros, feePercentage);
+        const netAmountMicros = amountMicros - feeMicros;
 
         // Create Withdrawal Record
         const withdrawalId = await ctx.db.insert("withdrawals", {
             userId: args.userId,
-            amount: args.amount,
-            fee: fee,
-            netAmount: netAmount,
+            amount,
+            fee: fromMicros(feeMicros),
+            netAmount: fromMicros(netAmountMicros),
+            amountMicros,
+            feeMicros,
+            netAmountMicros,
             address: args.address.trim(),
             status: "pending",
             requestDate: Date.now(),
@@ -212,7 +226,8 @@ export const requestWithdrawal = mutation({
         // Log Transaction
         await ctx.db.insert("transactions", {
             userId: args.userId,
-            amount: -args.amount,
+            amount: -amount,
+            amountMicros: -amountMicros,
             type: "withdrawal",
             referenceId: withdrawalId,
             description: `Withdrawal request to ${args.address.substring(0, 10)}...`,
@@ -220,10 +235,17 @@ export const requestWithdrawal = mutation({
             status: "pending",
         });
 
+        // Held in pending withdrawals until an admin approves or rejects the request
+        await postMemberDebit(ctx, args.userId, amount, LEDGER_ACCOUNTS.PENDING_WITHDRAWALS, {
+            type: "withdrawal_request",
+            description: `Withdrawal request to ${args.address.substring(0, 10)}...`,
+            referenceId: withdrawalId,
+        });
+
         return {
             success: true,
             withdrawalId,
-            message: `Withdrawal request submitted for $${args.amount.toFixed(2)}`,
+            message: `Withdrawal request submitted for $${amount.toFixed(2)}`,
         };
     },
 });
@@ -252,6 +274,20 @@ export const approveWithdrawal = mutation({
             txHash: args.txHash,
         });
 
+        // Net amount leaves the hot wallet, the fee stays with the platform
+        const fee = withdrawal.fee || 0;
+        const netAmount = withdrawal.netAmount ?? subtractMoney(withdrawal.amount, fee);
+        await postJournal(ctx, {
+            type: "withdrawal_approved",
+            description: `Withdrawal approved${args.txHash ? ` (${args.txHash.substring(0, 10)}...)` : ''}`,
+            referenceId: args.withdrawalId,
+            entries: [
+                { ledgerAccount: LEDGER_ACCOUNTS.PENDING_WITHDRAWALS, debit: withdrawal.amount },
+                { ledgerAccount: LEDGER_ACCOUNTS.HOT_WALLET, credit: netAmount },
+                { ledgerAccount: LEDGER_ACCOUNTS.FEES, credit: fee },
+            ],
+        });
+
         // Update related transaction status
         const tx = await ctx.db
             .query("transactions")
@@ -284,8 +320,12 @@ export const rejectWithdrawal = mutation({
         // Refund User
         const user = await ctx.db.get(withdrawal.userId);
         if (user) {
-            await ctx.db.patch(user._id, {
-                walletBalance: user.walletBalance + withdrawal.amount,
+            await ctx.db.patch(user._id, adjustBalanceFields(user, toMicros(withdrawal.amount)));
+
+            await postMemberCredit(ctx, user._id, withdrawal.amount, LEDGER_ACCOUNTS.PENDING_WITHDRAWALS, {
+                type: "withdrawal_rejected",
+                description: "Withdrawal rejected - refunded",
+                referenceId: args.withdrawalId,
             });
         }
 
@@ -585,7 +625,7 @@ export const createWithdrawalNotification = mutation({
  */
 async function getUserSwappedUSDTBalance(ctx: any, id: Id<"accounts"> | Id<"users">, type: "account" | "user"): Promise<number> {
     // Get all completed BLS swap requests
-    let swapRequests = [];
+    let swapRequests: Doc<"blsSwapRequests">[] = [];
     if (type === "account") {
         swapRequests = await ctx.db
             .query("blsSwapRequests")
@@ -601,7 +641,7 @@ async function getUserSwappedUSDTBalance(ctx: any, id: Id<"accounts"> | Id<"user
     }
     
     // Sum up all USDT amounts from completed swaps
-    let swappedTotal = swapRequests.reduce((sum, swap) => sum + (swap.usdtAmount || 0), 0);
+    let swappedTotal = swapRequests.reduce((sum, swap) => addMoney(sum, swap.usdtAmount || 0), 0);
     
     // Subtract any withdrawals that came from swapped USDT
     let withdrawals = [];
@@ -635,7 +675,7 @@ async function getUserSwappedUSDTBalance(ctx: any, id: Id<"accounts"> | Id<"user
     for (const withdrawal of withdrawals) {
         const withdrawalSource = (withdrawal as any).withdrawalSource;
         if (withdrawalSource === "bls_swapped") {
-            swappedTotal -= withdrawal.amount || 0;
+            swappedTotal = subtractMoney(swappedTotal, withdrawal.amount || 0);
         }
     }
     
@@ -11,6 +11,8 @@ import { useCache } from "../contexts/CacheContext";
 const MUTATION_TO_QUERIES: Record<string, string[]> = {
     // Staking mutations
     "createStake": ["getUserStakes", "getProfile", "getUserEarnings", "getSystemOverview"],
+    "updateStakePreferences": ["getUserStakes"],
+    "unstake": ["getUserStakes", "getProfile", "getTransactionHistory", "getUserEarnings"],
     "createStakingCycle": ["getConfig"],
     "updateStakingCycle": ["getConfig"],
     "deleteStakingCycle": ["getConfig"],
@@ -26,6 +28,7 @@ const MUTATION_TO_QUERIES: Record<string, string[]> = {
     "updatePresaleConfig": ["getConfig"],
 
     // User mutations
+    "setReferralPlacement": ["getProfile"],
     "updatePassword": ["getProfile"],
     "updateUser": ["getProfile", "getAllUsers"],
 
@@ -35,6 +38,12 @@ const MUTATION_TO_QUERIES: Record<string, string[]> = {
     "toggleStakingPause": ["getSystemPauseStates"],
     "toggleWithdrawalsPause": ["getSystemPauseStates"],
     "toggleReferralBonuses": ["getSystemPauseStates"],
+    "updateCommissionRates": ["getCommissionRates", "getConfig"],
+    "updateUnilevelPlan": ["getUnilevelPlanSettings"],
+    "updatePayoutCap": ["getPayoutCapSettings", "getPayoutCapInfo"],
+    "updateBinaryBonusConfig": ["getBinaryBonusSettings", "getBinaryBonusSummary"],
+    "updatePlacementStrategy": ["getGlobalPlacementStrategy"],
+    "updateRankGracePeriod": ["getRankGracePeriodSettings"],
     "toggle2FARequirement": ["getSystemPauseStates", "get2FARequirement"],
 
     // Rank mutations
@@ -0,0 +1,31 @@
+/**
+ * UI Money Tests
+ *
+ * Tests the display and input helpers in lib/money.ts round through micros the way
+ * the backend does.
+ */
+
+import { describe, expect, test } from "vitest";
+import { exceedsBalance, formatAmount, formatBLS, formatUSDT, toAmountInput } from "./money";
+
+describe("Money formatting", () => {
+    test("should format amounts with and without a currency", () => {
+        expect(formatUSDT(1234.5)).toBe("$1,234.50");
+        expect(formatBLS(0.1 + 0.2)).toBe("0.30 BLS");
+        expect(formatAmount(1234.5678, 3)).toBe("1,234.568");
+        expect(formatUSDT(-0.001)).toBe("$0.00");
+    });
+});
+
+describe("Amount inputs", () => {
+    test("should check amounts against the balance like the backend", () => {
+        expect(exceedsBalance(0.1 + 0.2, 0.3)).toBe(false);
+        expect(exceedsBalance(100.01, 100)).toBe(true);
+    });
+
+    test("should round input values down so they never exceed the amount", () => {
+        expect(toAmountInput(99.999)).toBe("99.99");
+        expect(toAmountInput(10)).toBe("10.00");
+        expect(toAmountInput(1.23456, 4)).toBe("1.2345");
+    });
+});
@@ -0,0 +1,46 @@
+import { formatMicros, fromMicros, hasSufficientBalance, toMicros } from "../convex/money";
+
+/**
+ * Money formatting helpers for the UI
+ * Amounts are rounded through integer micro-units (see convex/money.ts) so what is
+ * shown and compared matches what the backend will accept.
+ */
+
+export { formatMicros, fromMicros, toMicros };
+
+/**
+ * Format an amount without a currency ("1,234.50")
+ */
+export function formatAmount(amount: number, decimals = 2): string {
+    return formatMicros(toMicros(amount), undefined, { decimals });
+}
+
+/**
+ * Format a USDT amount ("$1,234.50")
+ */
+export function formatUSDT(amount: number, decimals = 2): string {
+    return formatMicros(toMicros(amount), "USDT", { decimals });
+}
+
+/**
+ * Format a BLS amount ("1,234.50 BLS")
+ */
+export function formatBLS(amount: number, decimals = 2): string {
+    return formatMicros(toMicros(amount), "BLS", { decimals });
+}
+
+/**
+ * Whether an entered amount is more than the balance - same check as the backend
+ */
+export function exceedsBalance(amount: number, balance: number): boolean {
+    return !hasSufficientBalance(balance, amount);
+}
+
+/**
+ * Value for an amount input field, rounded down so it never exceeds the amount ("Max" buttons)
+ */
+export function toAmountInput(amount: number, decimals = 2): string {
+    const factor = 10 ** decimals;
+    const floored = Math.floor(toMicros(amount) / (1_000_000 / factor)) / factor;
+    return floored.toFixed(decimals);
+}